@@ -55,3 +55,284 @@ CREATE TRIGGER update_user_data_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+
+-- ============================================================
+-- Per-entity tables
+-- The app reads and writes these instead of the user_data blob.
+-- Existing blobs are exploded into rows by the app on first load
+-- (user_state.migrated_at is set); user_data is kept as a backup.
+-- ============================================================
+
+-- Per-user app state: which profile is open and the data version
+CREATE TABLE IF NOT EXISTS user_state (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  current_profile_id TEXT,
+  version TEXT DEFAULT '1.0.0',
+  migrated_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS profiles (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS areas (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  profile_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  color TEXT,
+  icon TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, id),
+  FOREIGN KEY (user_id, profile_id) REFERENCES profiles(user_id, id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS tags (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  profile_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  color TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, id),
+  FOREIGN KEY (user_id, profile_id) REFERENCES profiles(user_id, id) ON DELETE CASCADE
+);
+
+-- Cross-entity references (area_id, project_id, blocked_by, ...) are not
+-- foreign keys: the app tolerates dangling links and cleans them up itself
+CREATE TABLE IF NOT EXISTS projects (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  profile_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  area_id TEXT,
+  status TEXT NOT NULL,
+  priority TEXT NOT NULL,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  start_date TIMESTAMPTZ,
+  due_date TIMESTAMPTZ,
+  goal_type TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  is_focus BOOLEAN NOT NULL DEFAULT FALSE,
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, id),
+  FOREIGN KEY (user_id, profile_id) REFERENCES profiles(user_id, id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS tasks (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  profile_id TEXT NOT NULL,
+  project_id TEXT,
+  parent_task_id TEXT,
+  title TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL,
+  priority TEXT NOT NULL,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  area_id TEXT,
+  estimate_minutes INTEGER,
+  time_spent_minutes INTEGER,
+  time_entries JSONB,
+  due_date TIMESTAMPTZ,
+  is_today BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  sort_order DOUBLE PRECISION,
+  recurrence JSONB,
+  blocked_by TEXT[],
+  next_occurrence_id TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, id),
+  FOREIGN KEY (user_id, profile_id) REFERENCES profiles(user_id, id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS ideas (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  profile_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  notes TEXT,
+  area_id TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, id),
+  FOREIGN KEY (user_id, profile_id) REFERENCES profiles(user_id, id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS checklist_items (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  profile_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  done BOOLEAN NOT NULL DEFAULT FALSE,
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, id),
+  FOREIGN KEY (user_id, task_id) REFERENCES tasks(user_id, id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_areas_profile ON areas(user_id, profile_id);
+CREATE INDEX IF NOT EXISTS idx_tags_profile ON tags(user_id, profile_id);
+CREATE INDEX IF NOT EXISTS idx_projects_profile ON projects(user_id, profile_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_profile ON tasks(user_id, profile_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_project ON tasks(user_id, project_id);
+CREATE INDEX IF NOT EXISTS idx_ideas_profile ON ideas(user_id, profile_id);
+CREATE INDEX IF NOT EXISTS idx_checklist_items_task ON checklist_items(user_id, task_id);
+
+CREATE TRIGGER update_user_state_updated_at
+  BEFORE UPDATE ON user_state
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security: the same own-rows-only policies as user_data, for every table
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['user_state', 'profiles', 'areas', 'tags', 'projects', 'tasks', 'ideas', 'checklist_items']
+  LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Users can read their own data" ON %I', t);
+    EXECUTE format('CREATE POLICY "Users can read their own data" ON %I FOR SELECT USING (auth.uid() = user_id)', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Users can insert their own data" ON %I', t);
+    EXECUTE format('CREATE POLICY "Users can insert their own data" ON %I FOR INSERT WITH CHECK (auth.uid() = user_id)', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Users can update their own data" ON %I', t);
+    EXECUTE format('CREATE POLICY "Users can update their own data" ON %I FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id)', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Users can delete their own data" ON %I', t);
+    EXECUTE format('CREATE POLICY "Users can delete their own data" ON %I FOR DELETE USING (auth.uid() = user_id)', t);
+  END LOOP;
+END $$;
+
+-- ============================================================
+-- Optimistic concurrency
+-- Every entity row carries a revision. A write must carry the next revision
+-- (current + 1); anything else means the client edited an outdated copy, and
+-- the update is skipped. The client sees the row missing from the upsert's
+-- returned rows, merges with the server copy and writes again.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION skip_stale_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.revision IS DISTINCT FROM OLD.revision + 1 THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['profiles', 'areas', 'tags', 'projects', 'tasks', 'ideas', 'checklist_items']
+  LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1', t);
+    EXECUTE format('DROP TRIGGER IF EXISTS skip_stale_%s_revision ON %I', t, t);
+    EXECUTE format('CREATE TRIGGER skip_stale_%s_revision BEFORE UPDATE ON %I FOR EACH ROW EXECUTE FUNCTION skip_stale_revision()', t, t);
+  END LOOP;
+END $$;
+
+-- ============================================================
+-- Trash
+-- Deleting an item only sets deleted_at; it is removed for good when the
+-- trash is emptied or its retention period runs out. deleted_with links
+-- items trashed along with another one, e.g. a project's tasks.
+-- ============================================================
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['areas', 'tags', 'projects', 'tasks', 'ideas']
+  LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ', t);
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS deleted_with TEXT', t);
+  END LOOP;
+END $$;
+
+-- ============================================================
+-- Snapshots
+-- Point-in-time copies of all app data: one a day, and one before each
+-- reset, replacing import or restore. The app prunes old ones. Snapshots
+-- are never updated, so there is no update policy.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS user_data_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  data JSONB NOT NULL,
+  version TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  -- Item counts and size, so snapshots can be listed without loading them
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  size_bytes INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_data_snapshots_user ON user_data_snapshots(user_id, created_at DESC);
+
+ALTER TABLE user_data_snapshots ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Users can read their own data" ON user_data_snapshots;
+CREATE POLICY "Users can read their own data" ON user_data_snapshots FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can insert their own data" ON user_data_snapshots;
+CREATE POLICY "Users can insert their own data" ON user_data_snapshots FOR INSERT WITH CHECK (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can delete their own data" ON user_data_snapshots;
+CREATE POLICY "Users can delete their own data" ON user_data_snapshots FOR DELETE USING (auth.uid() = user_id);
+
+-- ============================================================
+-- Calendar feeds
+-- One secret token per user. The calendar-feed edge function looks users
+-- up by token with the service role; the app only sees its own row.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Users can read their own data" ON calendar_feeds;
+CREATE POLICY "Users can read their own data" ON calendar_feeds FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can insert their own data" ON calendar_feeds;
+CREATE POLICY "Users can insert their own data" ON calendar_feeds FOR INSERT WITH CHECK (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can update their own data" ON calendar_feeds;
+CREATE POLICY "Users can update their own data" ON calendar_feeds FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can delete their own data" ON calendar_feeds;
+CREATE POLICY "Users can delete their own data" ON calendar_feeds FOR DELETE USING (auth.uid() = user_id);
+
+-- ============================================================
+-- Realtime
+-- Publish entity changes so other open devices pick them up live
+-- ============================================================
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['profiles', 'areas', 'tags', 'projects', 'tasks', 'ideas', 'checklist_items']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', t);
+    END IF;
+  END LOOP;
+END $$;
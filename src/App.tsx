@@ -85,7 +85,7 @@ function AppContent() {
 }
 
 function AppWithData() {
-  const { dataLoading, currentProfile, data } = useApp();
+  const { dataLoading, dataError, currentProfile, data } = useApp();
 
   if (dataLoading) {
     return (
@@ -121,6 +121,17 @@ function AppWithData() {
     );
   }
 
+  if (dataError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <div className="max-w-md w-full space-y-4 text-center">
+          <div className="text-destructive text-lg font-semibold">Can't Open Your Data</div>
+          <p className="text-muted-foreground">{dataError}</p>
+        </div>
+      </div>
+    );
+  }
+
   if (!currentProfile) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
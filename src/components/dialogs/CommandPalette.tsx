@@ -0,0 +1,345 @@
+import { useEffect, useState } from 'react';
+import {
+  ArrowLeft,
+  Calendar,
+  CalendarDays,
+  CheckCircle2,
+  CheckSquare,
+  Circle,
+  FolderKanban,
+  History,
+  Inbox,
+  Layers,
+  Lightbulb,
+  Moon,
+  Pencil,
+  Plus,
+  Settings,
+  Sun,
+  Trash2,
+  User,
+} from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { ViewType } from '@/lib/types';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { defaultFilter } from 'cmdk';
+
+interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;
+  icon: React.ElementType;
+  keywords?: string[];
+  hint?: string;
+  run: () => void;
+}
+
+type PalettePage = { type: 'root' } | { type: 'task'; taskId: string } | { type: 'profiles' };
+
+const RECENT_COMMANDS_KEY = 'lifePMRecentCommands';
+const MAX_RECENT_COMMANDS = 5;
+
+const NAV_COMMANDS: { view: ViewType; label: string; icon: React.ElementType }[] = [
+  { view: 'today', label: 'Today', icon: Calendar },
+  { view: 'this-week', label: 'This Week', icon: CalendarDays },
+  { view: 'backlog', label: 'Backlog', icon: Inbox },
+  { view: 'ideas', label: 'Ideas', icon: Lightbulb },
+  { view: 'projects', label: 'Projects', icon: FolderKanban },
+  { view: 'board', label: 'Board', icon: CheckSquare },
+  { view: 'areas', label: 'Areas', icon: Layers },
+  { view: 'completed', label: 'Completed', icon: CheckCircle2 },
+  { view: 'trash', label: 'Trash', icon: Trash2 },
+  { view: 'settings', label: 'Settings', icon: Settings },
+];
+
+// Item values carry entity ids to stay unique, so match on keywords when given
+const filterCommands = (value: string, search: string, keywords?: string[]) =>
+  defaultFilter(keywords?.length ? keywords.join(' ') : value, search);
+
+function loadRecentCommands(): string[] {
+  try {
+    const stored = localStorage.getItem(RECENT_COMMANDS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentCommands(ids: string[]) {
+  try {
+    localStorage.setItem(RECENT_COMMANDS_KEY, JSON.stringify(ids));
+  } catch (error) {
+    console.error('Error saving recent commands:', error);
+  }
+}
+
+/**
+ * Global Ctrl/Cmd+K palette for navigation, search and quick actions
+ */
+export function CommandPalette() {
+  const {
+    currentProfile,
+    data,
+    commandPaletteOpen,
+    setCommandPaletteOpen,
+    setCurrentView,
+    setSelectedProjectId,
+    setSelectedAreaId,
+    setSelectedTaskId,
+    setQuickAddOpen,
+    toggleTaskToday,
+    updateTaskStatus,
+    switchProfile,
+    updateSettings,
+  } = useApp();
+
+  const [page, setPage] = useState<PalettePage>({ type: 'root' });
+  const [search, setSearch] = useState('');
+  const [recentIds, setRecentIds] = useState<string[]>(loadRecentCommands);
+
+  // Ctrl/Cmd+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setCommandPaletteOpen(!commandPaletteOpen);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [commandPaletteOpen, setCommandPaletteOpen]);
+
+  // Always reopen on the root page with an empty query
+  useEffect(() => {
+    if (commandPaletteOpen) {
+      setPage({ type: 'root' });
+      setSearch('');
+    }
+  }, [commandPaletteOpen]);
+
+  const close = () => setCommandPaletteOpen(false);
+
+  const buildCommands = (): PaletteCommand[] => {
+    if (!currentProfile) return [];
+
+    const navigation = NAV_COMMANDS.map(({ view, label, icon }) => ({
+      id: `view:${view}`,
+      label: `Go to ${label}`,
+      group: 'Navigation',
+      icon,
+      run: () => {
+        setSelectedProjectId(null);
+        setSelectedAreaId(null);
+        setCurrentView(view);
+      },
+    }));
+
+    const projects = currentProfile.projects
+      .filter(p => !p.archived)
+      .map(project => ({
+        id: `project:${project.id}`,
+        label: project.title,
+        group: 'Projects',
+        icon: FolderKanban,
+        hint: currentProfile.areas.find(a => a.id === project.areaId)?.name,
+        run: () => {
+          setSelectedProjectId(project.id);
+          setCurrentView('project-detail');
+        },
+      }));
+
+    const areas = currentProfile.areas.map(area => ({
+      id: `area:${area.id}`,
+      label: area.name,
+      group: 'Areas',
+      icon: Layers,
+      run: () => {
+        setSelectedAreaId(area.id);
+        setCurrentView('area-detail');
+      },
+    }));
+
+    const tasks = currentProfile.tasks.map(task => ({
+      id: `task:${task.id}`,
+      label: task.title,
+      group: 'Tasks',
+      icon: task.status === 'done' ? CheckCircle2 : Circle,
+      hint: currentProfile.projects.find(p => p.id === task.projectId)?.title,
+      keywords: [task.description || ''],
+      run: () => setPage({ type: 'task', taskId: task.id }),
+    }));
+
+    const actions: PaletteCommand[] = [
+      {
+        id: 'action:quick-add',
+        label: 'Quick add',
+        group: 'Actions',
+        icon: Plus,
+        run: () => {
+          close();
+          setQuickAddOpen(true);
+        },
+      },
+      {
+        id: 'action:toggle-theme',
+        label: 'Toggle theme',
+        group: 'Actions',
+        icon: currentProfile.settings.theme === 'dark' ? Sun : Moon,
+        keywords: ['dark', 'light', 'mode'],
+        run: () => updateSettings({ theme: currentProfile.settings.theme === 'dark' ? 'light' : 'dark' }),
+      },
+      {
+        id: 'action:switch-profile',
+        label: 'Switch profile',
+        group: 'Actions',
+        icon: User,
+        run: () => setPage({ type: 'profiles' }),
+      },
+    ];
+
+    return [...actions, ...navigation, ...projects, ...areas, ...tasks];
+  };
+
+  const commands = commandPaletteOpen ? buildCommands() : [];
+
+  const recentCommands = recentIds
+    .map(id => commands.find(c => c.id === id))
+    .filter(Boolean) as PaletteCommand[];
+
+  const runCommand = (command: PaletteCommand) => {
+    const nextRecent = [command.id, ...recentIds.filter(id => id !== command.id)].slice(0, MAX_RECENT_COMMANDS);
+    setRecentIds(nextRecent);
+    saveRecentCommands(nextRecent);
+
+    command.run();
+    // Commands that open a sub-page keep the palette open
+    if (!command.id.startsWith('task:') && command.id !== 'action:switch-profile') {
+      close();
+    }
+    setSearch('');
+  };
+
+  const groups = ['Actions', 'Navigation', 'Projects', 'Areas', 'Tasks'];
+  const selectedTask = page.type === 'task'
+    ? currentProfile?.tasks.find(t => t.id === page.taskId)
+    : null;
+
+  const renderItem = (command: PaletteCommand, prefix = '') => {
+    const Icon = command.icon;
+    return (
+      <CommandItem
+        key={prefix + command.id}
+        value={prefix + command.id}
+        keywords={[command.label, ...(command.keywords || []), command.hint || '']}
+        onSelect={() => runCommand(command)}
+      >
+        <Icon className="mr-2 h-4 w-4" />
+        <span className="truncate">{command.label}</span>
+        {command.hint && <CommandShortcut className="tracking-normal">{command.hint}</CommandShortcut>}
+      </CommandItem>
+    );
+  };
+
+  return (
+    <CommandDialog open={commandPaletteOpen} onOpenChange={setCommandPaletteOpen} filter={filterCommands}>
+      <CommandInput
+        placeholder={
+          page.type === 'task' ? 'Choose an action...'
+            : page.type === 'profiles' ? 'Choose a profile...'
+              : 'Search views, projects, areas, tasks...'
+        }
+        value={search}
+        onValueChange={setSearch}
+        onKeyDown={(e) => {
+          // Backspace on an empty query returns to the root page
+          if (e.key === 'Backspace' && !search && page.type !== 'root') {
+            e.preventDefault();
+            setPage({ type: 'root' });
+          }
+        }}
+      />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        {page.type === 'root' && (
+          <>
+            {!search && recentCommands.length > 0 && (
+              <>
+                <CommandGroup heading="Recent">
+                  {recentCommands.map(command => renderItem(command, 'recent:'))}
+                </CommandGroup>
+                <CommandSeparator />
+              </>
+            )}
+            {groups.map(group => {
+              const items = commands.filter(c => c.group === group);
+              if (items.length === 0) return null;
+              return (
+                <CommandGroup key={group} heading={group}>
+                  {items.map(command => renderItem(command))}
+                </CommandGroup>
+              );
+            })}
+          </>
+        )}
+
+        {page.type === 'task' && selectedTask && (
+          <CommandGroup heading={selectedTask.title}>
+            <CommandItem onSelect={() => { close(); setSelectedTaskId(selectedTask.id); }}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Open task
+            </CommandItem>
+            <CommandItem onSelect={() => { toggleTaskToday(selectedTask.id); close(); }}>
+              <Sun className="mr-2 h-4 w-4" />
+              {selectedTask.isToday ? 'Remove from Today' : 'Add to Today'}
+            </CommandItem>
+            <CommandItem
+              onSelect={() => {
+                updateTaskStatus(selectedTask.id, selectedTask.status === 'done' ? 'todo' : 'done');
+                close();
+              }}
+            >
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              {selectedTask.status === 'done' ? 'Reopen' : 'Mark done'}
+            </CommandItem>
+            <CommandItem onSelect={() => setPage({ type: 'root' })}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </CommandItem>
+          </CommandGroup>
+        )}
+
+        {page.type === 'profiles' && data && (
+          <CommandGroup heading="Profiles">
+            {data.profiles.map(profile => (
+              <CommandItem
+                key={profile.id}
+                value={profile.id}
+                keywords={[profile.name]}
+                onSelect={() => { switchProfile(profile.id); close(); }}
+              >
+                <User className="mr-2 h-4 w-4" />
+                {profile.name}
+                {profile.id === currentProfile?.id && (
+                  <CommandShortcut className="tracking-normal">
+                    <History className="h-3 w-3 inline mr-1" />
+                    Current
+                  </CommandShortcut>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
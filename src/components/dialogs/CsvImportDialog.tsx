@@ -0,0 +1,315 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Upload } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { Priority, TaskStatus } from '@/lib/types';
+import {
+  TASK_CSV_FIELDS,
+  TaskCsvField,
+  TaskCsvMapping,
+  buildTasksFromCsv,
+  guessTaskCsvMapping,
+  parseCsv,
+} from '@/lib/csv';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+type ImportStep = 'source' | 'columns' | 'preview';
+
+const SKIP_COLUMN = '__skip__';
+const NO_PROJECT = '__none__';
+const PREVIEW_ROWS = 8;
+
+const statusOptions: { value: TaskStatus; label: string }[] = [
+  { value: 'backlog', label: 'Backlog' },
+  { value: 'todo', label: 'To Do' },
+  { value: 'in-progress', label: 'In Progress' },
+  { value: 'blocked', label: 'Blocked' },
+  { value: 'done', label: 'Done' },
+];
+
+const priorityOptions: { value: Priority; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' },
+];
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Project the tasks go into unless the user picks another
+  projectId?: string;
+}
+
+/**
+ * Import tasks from a spreadsheet: load a CSV, map its columns onto task
+ * fields, check the result, then add the tasks
+ */
+export function CsvImportDialog({ open, onOpenChange, projectId }: CsvImportDialogProps) {
+  const { currentProfile, importTasks } = useApp();
+  const [step, setStep] = useState<ImportStep>('source');
+  const [text, setText] = useState('');
+  const [mapping, setMapping] = useState<TaskCsvMapping>([]);
+  const [targetProjectId, setTargetProjectId] = useState(projectId ?? NO_PROJECT);
+  const [defaultStatus, setDefaultStatus] = useState<TaskStatus>('todo');
+  const [defaultPriority, setDefaultPriority] = useState<Priority>('medium');
+
+  const rows = useMemo(() => parseCsv(text), [text]);
+  const [headers, ...dataRows] = rows;
+
+  const result = useMemo(() => currentProfile && step === 'preview'
+    ? buildTasksFromCsv(currentProfile, rows.slice(1), mapping, {
+      projectId: targetProjectId === NO_PROJECT ? undefined : targetProjectId,
+      defaultStatus,
+      defaultPriority,
+    })
+    : null,
+    [currentProfile, step, rows, mapping, targetProjectId, defaultStatus, defaultPriority]
+  );
+
+  if (!currentProfile) return null;
+  const projects = currentProfile.projects.filter(p => !p.archived);
+
+  const reset = () => {
+    setStep('source');
+    setText('');
+    setMapping([]);
+    setTargetProjectId(projectId ?? NO_PROJECT);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+  };
+
+  const setColumnField = (column: number, field: TaskCsvField | null) =>
+    setMapping(current => current.map((existing, index) => {
+      if (index === column) return field;
+      // A field comes from one column only
+      return field && existing === field ? null : existing;
+    }));
+
+  const handleImport = () => {
+    if (!result) return;
+    importTasks(result.tasks, result.tags);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[680px] bg-card border-border max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Import Tasks from CSV</DialogTitle>
+          <DialogDescription>
+            {step === 'source' && 'Choose a CSV file or paste rows copied from a spreadsheet. The first row must be the column names.'}
+            {step === 'columns' && 'Choose which task field each column fills.'}
+            {step === 'preview' && 'Check the tasks before they are added.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'source' && (
+          <div className="space-y-3">
+            <label className="flex items-center justify-center gap-2 rounded-lg border border-dashed border-border p-6 text-sm text-muted-foreground cursor-pointer hover:bg-muted/50">
+              <Upload className="h-4 w-4" />
+              Choose a CSV file
+              <input
+                type="file"
+                accept=".csv,.tsv,text/csv,text/tab-separated-values"
+                className="hidden"
+                onChange={e => handleFile(e.target.files?.[0])}
+              />
+            </label>
+            <Textarea
+              placeholder="Or paste CSV here..."
+              value={text}
+              onChange={e => setText(e.target.value)}
+              className="bg-surface-2 border-border min-h-[150px] font-mono text-sm"
+            />
+            {headers && (
+              <p className="text-sm text-muted-foreground">
+                {headers.length} columns, {dataRows.length} {dataRows.length === 1 ? 'row' : 'rows'}
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => handleOpenChange(false)}>Cancel</Button>
+              <Button
+                disabled={!headers || dataRows.length === 0}
+                onClick={() => {
+                  setMapping(guessTaskCsvMapping(headers));
+                  setStep('columns');
+                }}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'columns' && headers && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {headers.map((header, column) => (
+                <div key={column} className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{header || `Column ${column + 1}`}</p>
+                    <p className="text-xs text-muted-foreground truncate">{dataRows[0]?.[column] || 'Empty'}</p>
+                  </div>
+                  <Select
+                    value={mapping[column] ?? SKIP_COLUMN}
+                    onValueChange={v => setColumnField(column, v === SKIP_COLUMN ? null : v as TaskCsvField)}
+                  >
+                    <SelectTrigger className="w-[180px] h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP_COLUMN}>Don't import</SelectItem>
+                      {TASK_CSV_FIELDS.map(({ field, label }) => (
+                        <SelectItem key={field} value={field}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 border-t border-border pt-4">
+              <div className="space-y-1.5">
+                <Label>Project</Label>
+                <Select value={targetProjectId} onValueChange={setTargetProjectId}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={project.id}>{project.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Default status</Label>
+                <Select value={defaultStatus} onValueChange={v => setDefaultStatus(v as TaskStatus)}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statusOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Default priority</Label>
+                <Select value={defaultPriority} onValueChange={v => setDefaultPriority(v as Priority)}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {priorityOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setStep('source')}>Back</Button>
+              <Button disabled={!mapping.includes('title')} onClick={() => setStep('preview')}>
+                {mapping.includes('title') ? 'Preview' : 'Map a column to Title'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && result && (
+          <div className="space-y-4">
+            <p className="text-sm text-foreground">
+              {result.tasks.length} {result.tasks.length === 1 ? 'task' : 'tasks'} will be added
+              {result.tags.length > 0 && `, with ${result.tags.length} new ${result.tags.length === 1 ? 'tag' : 'tags'}`}
+              {result.skipped > 0 && `. ${result.skipped} ${result.skipped === 1 ? 'row has' : 'rows have'} no title and will be skipped`}.
+            </p>
+
+            <div className="rounded-lg border border-border overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-surface-2 text-muted-foreground">
+                  <tr>
+                    <th className="text-left font-medium px-3 py-2">Title</th>
+                    <th className="text-left font-medium px-3 py-2">Status</th>
+                    <th className="text-left font-medium px-3 py-2">Priority</th>
+                    <th className="text-left font-medium px-3 py-2">Due</th>
+                    <th className="text-left font-medium px-3 py-2">Tags</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.tasks.slice(0, PREVIEW_ROWS).map(task => (
+                    <tr key={task.id} className="border-t border-border">
+                      <td className="px-3 py-2 text-foreground max-w-[220px] truncate">{task.title}</td>
+                      <td className="px-3 py-2 text-muted-foreground">{statusOptions.find(o => o.value === task.status)?.label}</td>
+                      <td className="px-3 py-2 text-muted-foreground">{priorityOptions.find(o => o.value === task.priority)?.label}</td>
+                      <td className="px-3 py-2 text-muted-foreground">{task.dueDate ? format(new Date(task.dueDate), 'MMM d, yyyy') : ''}</td>
+                      <td className="px-3 py-2 text-muted-foreground max-w-[160px] truncate">
+                        {task.tags
+                          .map(id => [...currentProfile.tags, ...result.tags].find(t => t.id === id)?.name)
+                          .join(', ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {result.tasks.length > PREVIEW_ROWS && (
+                <p className="px-3 py-2 text-xs text-muted-foreground border-t border-border">
+                  and {result.tasks.length - PREVIEW_ROWS} more
+                </p>
+              )}
+            </div>
+
+            {result.issues.length > 0 && (
+              <ul className="max-h-[160px] overflow-y-auto space-y-1.5 text-sm">
+                {result.issues.map((issue, index) => (
+                  <li key={index} className="flex items-start gap-2">
+                    <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-priority-high" />
+                    <span>
+                      <span className="text-muted-foreground mr-2">Row {issue.row}</span>
+                      <span className="text-foreground">{issue.message}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setStep('columns')}>Back</Button>
+              <Button onClick={handleImport} disabled={result.tasks.length === 0}>
+                Import {result.tasks.length} {result.tasks.length === 1 ? 'Task' : 'Tasks'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { CheckCircle2, Coffee, Pause, Play, SkipForward, Square, Target } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { Task } from '@/lib/types';
+import { useNow } from '@/hooks/use-now';
+import { toast } from '@/hooks/use-toast';
+import {
+  FOCUS_INTERVAL_NOTE,
+  FOCUS_PHASE_LABELS,
+  FocusPhase,
+  getFocusSettings,
+  getNextPhase,
+  getPhaseDurationMs,
+} from '@/lib/focus';
+import { formatDuration, formatMinutes } from '@/lib/timeTracking';
+import { cn } from '@/lib/utils';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface FocusSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tasks: Task[];
+  initialTaskId?: string;
+}
+
+interface CompletedInterval {
+  taskId: string;
+  start: number;
+  end: number;
+}
+
+type SessionStage = 'setup' | 'running' | 'summary';
+
+// Work shorter than this is not worth logging when an interval is skipped
+const MIN_LOGGED_MS = 60000;
+
+/**
+ * Full-screen Pomodoro session. Mount it only while open so every session
+ * starts from a clean state.
+ */
+export function FocusSessionDialog({ open, onOpenChange, tasks, initialTaskId }: FocusSessionDialogProps) {
+  const { currentProfile, addTimeEntry, updateTaskStatus } = useApp();
+  const settings = getFocusSettings(currentProfile.settings);
+
+  const [stage, setStage] = useState<SessionStage>('setup');
+  const [taskId, setTaskId] = useState<string | undefined>(initialTaskId || tasks[0]?.id);
+  const [phase, setPhase] = useState<FocusPhase>('work');
+  const [phaseStartedAt, setPhaseStartedAt] = useState<number>(0);
+  const [phaseEndsAt, setPhaseEndsAt] = useState<number | null>(null);
+  const [pausedRemainingMs, setPausedRemainingMs] = useState<number | null>(null);
+  const [intervals, setIntervals] = useState<CompletedInterval[]>([]);
+
+  const isRunning = stage === 'running' && pausedRemainingMs === null;
+  const now = useNow(isRunning, 500).getTime();
+
+  const task = tasks.find(t => t.id === taskId) || currentProfile.tasks.find(t => t.id === taskId);
+  const phaseDurationMs = getPhaseDurationMs(phase, settings);
+  const remainingMs = pausedRemainingMs ?? (phaseEndsAt ? Math.max(0, phaseEndsAt - now) : phaseDurationMs);
+
+  const startPhase = (nextPhase: FocusPhase, at: number) => {
+    setPhase(nextPhase);
+    setPhaseStartedAt(at);
+    setPhaseEndsAt(at + getPhaseDurationMs(nextPhase, settings));
+    setPausedRemainingMs(null);
+  };
+
+  const logWork = (start: number, end: number) => {
+    if (!taskId || end - start < MIN_LOGGED_MS) return 0;
+    addTimeEntry(taskId, {
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      note: FOCUS_INTERVAL_NOTE,
+    });
+    setIntervals(prev => [...prev, { taskId, start, end }]);
+    return 1;
+  };
+
+  const advancePhase = (at: number, workEnd: number) => {
+    let completed = intervals.length;
+    if (phase === 'work') {
+      completed += logWork(phaseStartedAt, workEnd);
+    }
+    const nextPhase = getNextPhase(phase, completed, settings);
+    startPhase(nextPhase, at);
+    toast({
+      title: nextPhase === 'work' ? 'Back to focus' : `${FOCUS_PHASE_LABELS[nextPhase]} time`,
+      description: nextPhase === 'work'
+        ? `${formatMinutes(settings.workMinutes)} on "${task?.title ?? 'your task'}"`
+        : `Interval ${completed} done. Step away for ${formatMinutes(
+          nextPhase === 'long-break' ? settings.longBreakMinutes : settings.shortBreakMinutes
+        )}.`,
+    });
+  };
+
+  // Move to the next phase when the current one runs out. The ref keeps the
+  // effect keyed on the clock alone while still calling the latest handler.
+  const advancePhaseRef = useRef(advancePhase);
+  advancePhaseRef.current = advancePhase;
+
+  useEffect(() => {
+    if (isRunning && phaseEndsAt && now >= phaseEndsAt) {
+      advancePhaseRef.current(now, phaseEndsAt);
+    }
+  }, [now, isRunning, phaseEndsAt]);
+
+  const handleStart = () => {
+    if (!taskId) return;
+    setStage('running');
+    startPhase('work', Date.now());
+  };
+
+  const handlePauseResume = () => {
+    if (pausedRemainingMs === null) {
+      setPausedRemainingMs(remainingMs);
+    } else {
+      // Shift the phase window so the pause doesn't count as focus time
+      const at = Date.now();
+      setPhaseStartedAt(at - (phaseDurationMs - pausedRemainingMs));
+      setPhaseEndsAt(at + pausedRemainingMs);
+      setPausedRemainingMs(null);
+    }
+  };
+
+  const handleSkip = () => {
+    const at = Date.now();
+    const workEnd = pausedRemainingMs !== null ? phaseStartedAt + (phaseDurationMs - pausedRemainingMs) : at;
+    advancePhase(at, workEnd);
+  };
+
+  const handleEnd = () => {
+    if (stage !== 'running') {
+      onOpenChange(false);
+      return;
+    }
+    if (phase === 'work') {
+      const workEnd = pausedRemainingMs !== null
+        ? phaseStartedAt + (phaseDurationMs - pausedRemainingMs)
+        : Date.now();
+      logWork(phaseStartedAt, workEnd);
+    }
+    setPhaseEndsAt(null);
+    setPausedRemainingMs(null);
+    setStage('summary');
+  };
+
+  const summary = useMemo(() => {
+    const byTask = new Map<string, { count: number; ms: number }>();
+    intervals.forEach(interval => {
+      const entry = byTask.get(interval.taskId) || { count: 0, ms: 0 };
+      byTask.set(interval.taskId, { count: entry.count + 1, ms: entry.ms + interval.end - interval.start });
+    });
+    return {
+      totalMinutes: Math.round(intervals.reduce((sum, i) => sum + i.end - i.start, 0) / 60000),
+      byTask: Array.from(byTask.entries()).map(([id, value]) => ({
+        task: currentProfile.tasks.find(t => t.id === id),
+        count: value.count,
+        minutes: Math.round(value.ms / 60000),
+      })),
+    };
+  }, [intervals, currentProfile.tasks]);
+
+  const progress = ((phaseDurationMs - remainingMs) / phaseDurationMs) * 100;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : handleEnd())}>
+      <DialogContent className="max-w-none w-screen h-screen sm:rounded-none border-none bg-background flex flex-col items-center justify-center">
+        <DialogTitle className="sr-only">Focus mode</DialogTitle>
+
+        {stage === 'setup' && (
+          <div className="w-full max-w-md space-y-6 text-center">
+            <Target className="h-12 w-12 text-primary mx-auto" />
+            <div>
+              <h2 className="text-2xl font-bold text-foreground">Focus mode</h2>
+              <p className="text-muted-foreground mt-1">
+                {formatMinutes(settings.workMinutes)} focus, {formatMinutes(settings.shortBreakMinutes)} breaks,
+                a {formatMinutes(settings.longBreakMinutes)} break every {settings.longBreakEvery} intervals
+              </p>
+            </div>
+            <Select value={taskId} onValueChange={setTaskId}>
+              <SelectTrigger className="bg-surface-2 border-border text-foreground">
+                <SelectValue placeholder="Pick a task from Today..." />
+              </SelectTrigger>
+              <SelectContent>
+                {tasks.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex justify-center gap-2">
+              <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button onClick={handleStart} disabled={!taskId}>
+                <Play className="h-4 w-4 mr-2" />
+                Start focusing
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {stage === 'running' && (
+          <div className="w-full max-w-lg space-y-8 text-center">
+            <div className="space-y-2">
+              <p className={cn(
+                'text-sm font-semibold uppercase tracking-widest',
+                phase === 'work' ? 'text-primary' : 'text-status-done'
+              )}>
+                {phase === 'work' ? <Target className="inline h-4 w-4 mr-1" /> : <Coffee className="inline h-4 w-4 mr-1" />}
+                {FOCUS_PHASE_LABELS[phase]}
+              </p>
+              <p className="text-8xl font-bold tabular-nums text-foreground">{formatDuration(remainingMs)}</p>
+              <Progress value={progress} className="h-1" />
+            </div>
+
+            <Select value={taskId} onValueChange={setTaskId}>
+              <SelectTrigger className="bg-transparent border-none text-lg text-foreground justify-center gap-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {tasks.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="flex justify-center gap-1">
+              {Array.from({ length: Math.max(settings.longBreakEvery, intervals.length) }).map((_, i) => (
+                <div
+                  key={i}
+                  className={cn(
+                    'h-2 w-8 rounded-full',
+                    i < intervals.length ? 'bg-primary' : 'bg-muted'
+                  )}
+                />
+              ))}
+            </div>
+
+            <div className="flex justify-center gap-2">
+              <Button variant="secondary" onClick={handlePauseResume}>
+                {pausedRemainingMs === null ? <Pause className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+                {pausedRemainingMs === null ? 'Pause' : 'Resume'}
+              </Button>
+              <Button variant="secondary" onClick={handleSkip}>
+                <SkipForward className="h-4 w-4 mr-2" />
+                {phase === 'work' ? 'Finish interval' : 'Skip break'}
+              </Button>
+              <Button variant="ghost" onClick={handleEnd}>
+                <Square className="h-4 w-4 mr-2" />
+                End session
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {stage === 'summary' && (
+          <div className="w-full max-w-md space-y-6 text-center">
+            <CheckCircle2 className="h-12 w-12 text-status-done mx-auto" />
+            <div>
+              <h2 className="text-2xl font-bold text-foreground">Session complete</h2>
+              <p className="text-muted-foreground mt-1">
+                {intervals.length} {intervals.length === 1 ? 'interval' : 'intervals'} • {formatMinutes(summary.totalMinutes)} focused
+              </p>
+            </div>
+            {summary.byTask.length > 0 && (
+              <div className="space-y-2 text-left">
+                {summary.byTask.map(({ task: t, count, minutes }) => t && (
+                  <div key={t.id} className="flex items-center gap-3 p-3 bg-card rounded-lg border border-border">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{t.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {count} × {FOCUS_PHASE_LABELS.work.toLowerCase()} • {formatMinutes(minutes)}
+                      </p>
+                    </div>
+                    {t.status !== 'done' && (
+                      <Button size="sm" variant="secondary" onClick={() => updateTaskStatus(t.id, 'done')}>
+                        Mark done
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <Button onClick={() => onOpenChange(false)}>Close</Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,8 @@
-import { useState } from 'react';
-import { Lightbulb, FolderKanban, CheckSquare } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Lightbulb, FolderKanban, CheckSquare, Calendar, Clock, Flag, Hash, Layers, Plus, Timer } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
+import { QuickAddTokenType, parseQuickAdd } from '@/lib/quickAddParser';
 import {
   Dialog,
   DialogContent,
@@ -14,40 +16,73 @@ import { cn } from '@/lib/utils';
 
 type AddType = 'idea' | 'task' | 'project';
 
+const tokenIcons: Record<QuickAddTokenType, React.ElementType> = {
+  date: Calendar,
+  time: Clock,
+  priority: Flag,
+  tag: Hash,
+  project: FolderKanban,
+  area: Layers,
+  estimate: Timer,
+};
+
 export function QuickAddDialog() {
-  const { quickAddOpen, setQuickAddOpen, createIdea, createTask, createProject, currentProfile } = useApp();
+  const { quickAddOpen, setQuickAddOpen, createIdea, createTask, createProject, createTag, batch, currentProfile } = useApp();
   const [type, setType] = useState<AddType>('idea');
   const [title, setTitle] = useState('');
   const [notes, setNotes] = useState('');
 
+  const parsed = useMemo(() => parseQuickAdd(title, {
+    projects: currentProfile.projects,
+    areas: currentProfile.areas,
+    tags: currentProfile.tags,
+  }), [title, currentProfile.projects, currentProfile.areas, currentProfile.tags]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!title.trim()) return;
+    if (!parsed.title) return;
 
-    switch (type) {
-      case 'idea':
-        createIdea({ title: title.trim(), notes: notes.trim() || undefined, tags: [] });
-        break;
-      case 'task':
-        createTask({ 
-          title: title.trim(), 
-          description: notes.trim() || undefined,
-          status: 'todo',
-          priority: 'medium',
-          tags: [],
-        });
-        break;
-      case 'project':
-        createProject({
-          title: title.trim(),
-          description: notes.trim() || undefined,
-          areaId: currentProfile.areas[0]?.id || '',
-          status: 'backlog',
-          priority: 'medium',
-          tags: [],
-        });
-        break;
-    }
+    // Tags typed but not created from their chip are created with the item
+    batch(() => {
+      const tagIds = [...parsed.tagIds, ...parsed.newTagNames.map(name => createTag({ name }))];
+      const areaId = parsed.areaId || currentProfile.projects.find(p => p.id === parsed.projectId)?.areaId;
+
+      switch (type) {
+        case 'idea':
+          createIdea({ 
+            title: parsed.title, 
+            notes: notes.trim() || undefined, 
+            areaId,
+            tags: tagIds,
+          });
+          break;
+        case 'task':
+          createTask({ 
+            title: parsed.title, 
+            description: notes.trim() || undefined,
+            projectId: parsed.projectId,
+            areaId: parsed.projectId ? undefined : parsed.areaId,
+            status: 'todo',
+            priority: parsed.priority || 'medium',
+            tags: tagIds,
+            dueDate: parsed.dueDate?.toISOString(),
+            isToday: parsed.isToday,
+            estimateMinutes: parsed.estimateMinutes,
+          });
+          break;
+        case 'project':
+          createProject({
+            title: parsed.title,
+            description: notes.trim() || undefined,
+            areaId: areaId || currentProfile.areas[0]?.id || '',
+            status: 'backlog',
+            priority: parsed.priority || 'medium',
+            tags: tagIds,
+            dueDate: parsed.dueDate?.toISOString(),
+          });
+          break;
+      }
+    }, `Create ${type}`);
 
     setTitle('');
     setNotes('');
@@ -93,13 +128,50 @@ export function QuickAddDialog() {
 
           {/* Title Input */}
           <Input
-            placeholder={`What's on your mind?`}
+            placeholder="What's on your mind? Try: tomorrow 3pm !high #tag +Project ~30m"
             value={title}
             onChange={e => setTitle(e.target.value)}
             className="bg-surface-2 border-border text-foreground placeholder:text-muted-foreground"
             autoFocus
           />
 
+          {/* Recognized tokens */}
+          {parsed.tokens.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 -mt-2">
+              {parsed.tokens.map(token => {
+                const Icon = tokenIcons[token.type];
+                const label = token.type === 'date' && parsed.dueDate
+                  ? format(parsed.dueDate, 'EEE, MMM d')
+                  : token.label;
+                return (
+                  <span
+                    key={`${token.type}-${token.raw}`}
+                    className={cn(
+                      'flex items-center gap-1 text-xs px-2 py-0.5 rounded-full border',
+                      token.isNew
+                        ? 'border-dashed border-muted-foreground/50 text-muted-foreground'
+                        : 'bg-primary/10 border-primary/30 text-primary'
+                    )}
+                  >
+                    <Icon className="h-3 w-3" />
+                    {label}
+                    {token.isNew && (
+                      <button
+                        type="button"
+                        onClick={() => createTag({ name: token.label })}
+                        className="flex items-center gap-0.5 ml-1 text-foreground hover:text-primary"
+                        title={`Create tag "${token.label}"`}
+                      >
+                        <Plus className="h-3 w-3" />
+                        Create
+                      </button>
+                    )}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+
           {/* Notes Input */}
           <Textarea
             placeholder="Add notes (optional)"
@@ -119,7 +191,7 @@ export function QuickAddDialog() {
             >
               Cancel
             </Button>
-            <Button type="submit" disabled={!title.trim()}>
+            <Button type="submit" disabled={!parsed.title}>
               Add {type.charAt(0).toUpperCase() + type.slice(1)}
             </Button>
           </div>
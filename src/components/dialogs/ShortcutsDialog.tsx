@@ -0,0 +1,192 @@
+import { useEffect, useRef, useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import { Priority, ViewType } from '@/lib/types';
+import {
+  SEQUENCE_TIMEOUT_MS,
+  SHORTCUT_DEFINITIONS,
+  ShortcutAction,
+  getEventKey,
+  getShortcutBindings,
+  isEditableTarget,
+  matchShortcut,
+} from '@/lib/shortcuts';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ShortcutKeys } from '@/components/shared/ShortcutKeys';
+
+const PRIORITY_ACTIONS: Partial<Record<ShortcutAction, Priority>> = {
+  'priority-critical': 'critical',
+  'priority-high': 'high',
+  'priority-medium': 'medium',
+  'priority-low': 'low',
+};
+
+const VIEW_ACTIONS: Partial<Record<ShortcutAction, ViewType>> = {
+  'go-today': 'today',
+  'go-week': 'this-week',
+  'go-board': 'board',
+};
+
+/**
+ * Global keyboard shortcut handler and the "?" overlay listing the bindings
+ */
+export function ShortcutsDialog() {
+  const {
+    currentProfile,
+    setQuickAddOpen,
+    setCurrentView,
+    setSelectedProjectId,
+    setSelectedAreaId,
+    setSelectedTaskId,
+    highlightedTaskId,
+    setHighlightedTaskId,
+    updateTask,
+    updateTaskStatus,
+    toggleTaskToday,
+    undo,
+    redo,
+  } = useApp();
+  const [open, setOpen] = useState(false);
+  const sequenceRef = useRef<string[]>([]);
+  const sequenceTimerRef = useRef<number>();
+
+  const bindings = getShortcutBindings(currentProfile.settings);
+
+  // Tasks currently on screen, in display order
+  const getVisibleTaskIds = () =>
+    Array.from(document.querySelectorAll<HTMLElement>('main [data-task-id]')).map(el => el.dataset.taskId);
+
+  const moveHighlight = (offset: number) => {
+    const ids = getVisibleTaskIds();
+    if (ids.length === 0) return;
+    const index = ids.indexOf(highlightedTaskId);
+    const next = index === -1
+      ? (offset > 0 ? 0 : ids.length - 1)
+      : Math.min(ids.length - 1, Math.max(0, index + offset));
+    setHighlightedTaskId(ids[next]);
+    document
+      .querySelector(`main [data-task-id="${CSS.escape(ids[next])}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const runAction = (action: ShortcutAction) => {
+    if (action === 'show-shortcuts') return setOpen(true);
+    if (action === 'quick-add') return setQuickAddOpen(true);
+    if (action === 'next-task') return moveHighlight(1);
+    if (action === 'previous-task') return moveHighlight(-1);
+
+    const view = VIEW_ACTIONS[action];
+    if (view) {
+      setSelectedProjectId(null);
+      setSelectedAreaId(null);
+      setCurrentView(view);
+      return;
+    }
+
+    // Remaining actions apply to the highlighted task, if it is still on screen
+    const task = currentProfile.tasks.find(t => t.id === highlightedTaskId);
+    if (!task || !getVisibleTaskIds().includes(task.id)) return;
+
+    const priority = PRIORITY_ACTIONS[action];
+    if (priority) return updateTask(task.id, { priority });
+    if (action === 'complete-task') return updateTaskStatus(task.id, task.status === 'done' ? 'todo' : 'done');
+    if (action === 'edit-task') return setSelectedTaskId(task.id);
+    if (action === 'toggle-today') return toggleTaskToday(task.id);
+  };
+
+  // The listener is registered once; the ref always points at the latest handler
+  const runActionRef = useRef(runAction);
+  runActionRef.current = runAction;
+  const historyRef = useRef({ undo, redo });
+  historyRef.current = { undo, redo };
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isEditableTarget(e.target)) return;
+      if (document.querySelector('[role="dialog"], [role="menu"]')) return;
+
+      // Undo / redo: Ctrl+Z, Ctrl+Shift+Z (Cmd on macOS) and Ctrl+Y. Text
+      // fields keep their own undo
+      if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+        const key = e.key.toLowerCase();
+        if (key === 'z' || key === 'y') {
+          e.preventDefault();
+          if (key === 'z' && !e.shiftKey) historyRef.current.undo();
+          else historyRef.current.redo();
+        }
+        return;
+      }
+      if (e.altKey) return;
+
+      const key = getEventKey(e);
+      if (!key) return;
+
+      window.clearTimeout(sequenceTimerRef.current);
+      let match = matchShortcut(bindingsRef.current, [...sequenceRef.current, key]);
+      // A key that doesn't continue the pending sequence starts a new one
+      if (!match.action && !match.pending && sequenceRef.current.length > 0) {
+        sequenceRef.current = [];
+        match = matchShortcut(bindingsRef.current, [key]);
+      }
+
+      if (match.action) {
+        e.preventDefault();
+        sequenceRef.current = [];
+        runActionRef.current(match.action);
+      } else if (match.pending) {
+        e.preventDefault();
+        sequenceRef.current = [...sequenceRef.current, key];
+        sequenceTimerRef.current = window.setTimeout(() => {
+          sequenceRef.current = [];
+        }, SEQUENCE_TIMEOUT_MS);
+      } else {
+        sequenceRef.current = [];
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      window.clearTimeout(sequenceTimerRef.current);
+    };
+  }, []);
+
+  const groups = Array.from(new Set(SHORTCUT_DEFINITIONS.map(d => d.group)));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-[480px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Keyboard shortcuts</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {groups.map(group => (
+            <div key={group} className="space-y-1">
+              <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">{group}</h4>
+              {SHORTCUT_DEFINITIONS.filter(d => d.group === group).map(definition => (
+                <div key={definition.action} className="flex items-center justify-between py-1">
+                  <span className="text-sm text-foreground">{definition.label}</span>
+                  {bindings[definition.action] ? (
+                    <ShortcutKeys keys={bindings[definition.action]} />
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Unbound</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Press <ShortcutKeys keys="Ctrl K" /> for the command palette, <ShortcutKeys keys="Ctrl Z" /> to undo
+            and <ShortcutKeys keys="Ctrl Shift Z" /> to redo. Rebind keys in Settings.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useApp } from '@/contexts/AppContext';
+import { ConflictSide, SyncConflict, getFieldLabel, getNewerSide } from '@/lib/syncMerge';
+import { TableName } from '@/lib/supabaseRows';
+import { Profile } from '@/lib/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+const TABLE_LABELS: Record<TableName, string> = {
+  profiles: 'Profile',
+  areas: 'Area',
+  tags: 'Tag',
+  projects: 'Project',
+  tasks: 'Task',
+  ideas: 'Idea',
+  checklist_items: 'Checklist item',
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+/**
+ * Display a column value, resolving ids to names where possible
+ */
+function formatValue(field: string, value: unknown, profile: Profile | null): string {
+  if (value === null || value === undefined || value === '') return 'None';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+
+  const nameOf = (id: string) =>
+    profile?.areas.find(a => a.id === id)?.name ??
+    profile?.projects.find(p => p.id === id)?.title ??
+    profile?.tasks.find(t => t.id === id)?.title ??
+    profile?.tags.find(t => t.id === id)?.name ??
+    id;
+
+  if (field.endsWith('_id') && typeof value === 'string') return nameOf(value);
+  if (field === 'blocked_by' && Array.isArray(value)) return value.map(nameOf).join(', ');
+  if (field === 'time_entries' && Array.isArray(value)) return `${value.length} ${value.length === 1 ? 'entry' : 'entries'}`;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'None';
+  if (typeof value === 'string' && ISO_DATE.test(value)) return format(new Date(value), 'MMM d, yyyy');
+  if (typeof value === 'object') {
+    const json = JSON.stringify(value);
+    return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+  }
+  return String(value);
+}
+
+const defaultChoices = (conflict: SyncConflict) => {
+  const side = getNewerSide(conflict.local, conflict.remote);
+  return Object.fromEntries(conflict.fields.map(field => [field, side])) as Record<string, ConflictSide>;
+};
+
+/**
+ * Asks which version to keep when the same field was changed on this device
+ * and another one. Everything else has already been merged automatically.
+ */
+export function SyncConflictDialog() {
+  const { syncConflicts, resolveSyncConflict, data } = useApp();
+  const conflict = syncConflicts[0];
+  const [choices, setChoices] = useState<Record<string, ConflictSide>>({});
+
+  // Preselect the most recently edited side for each new conflict
+  useEffect(() => {
+    if (conflict) setChoices(defaultChoices(conflict));
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  const profileId = 'profile_id' in conflict.remote ? conflict.remote.profile_id : conflict.rowId;
+  const profile = data?.profiles.find(p => p.id === profileId) || null;
+  const values = (side: ConflictSide) =>
+    (side === 'local' ? conflict.local : conflict.remote) as unknown as Record<string, unknown>;
+
+  const keepAll = (side: ConflictSide) =>
+    resolveSyncConflict(conflict, Object.fromEntries(conflict.fields.map(field => [field, side])));
+
+  return (
+    <Dialog open onOpenChange={() => undefined}>
+      <DialogContent className="sm:max-w-[560px] bg-card border-border [&>button]:hidden">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">
+            Changes made on another device
+            {syncConflicts.length > 1 && (
+              <span className="ml-2 text-sm font-normal text-muted-foreground">1 of {syncConflicts.length}</span>
+            )}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {TABLE_LABELS[conflict.table]} <span className="font-medium text-foreground">{conflict.label}</span> was
+            edited in two places at once. Other changes were combined; choose which version to keep for these fields.
+          </p>
+
+          <div className="space-y-3">
+            {conflict.fields.map(field => (
+              <div key={field} className="space-y-1.5">
+                <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                  {getFieldLabel(field)}
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['local', 'remote'] as ConflictSide[]).map(side => (
+                    <button
+                      key={side}
+                      type="button"
+                      onClick={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                      className={cn(
+                        'rounded-md border px-3 py-2 text-left text-sm transition-colors',
+                        choices[field] === side
+                          ? 'border-primary bg-primary/10 text-foreground'
+                          : 'border-border bg-surface-2 text-muted-foreground hover:border-muted-foreground/30'
+                      )}
+                    >
+                      <span className="block text-xs text-muted-foreground">
+                        {side === 'local' ? 'This device' : 'Other device'}
+                      </span>
+                      <span className="block break-words">{formatValue(field, values(side)[field], profile)}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between gap-2">
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => keepAll('local')}>
+                Keep all mine
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => keepAll('remote')}>
+                Keep all theirs
+              </Button>
+            </div>
+            <Button size="sm" onClick={() => resolveSyncConflict(conflict, choices)}>
+              Apply
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
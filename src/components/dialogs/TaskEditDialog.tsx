@@ -1,7 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { format } from 'date-fns';
 import { useApp } from '@/contexts/AppContext';
-import { Task, TaskStatus, Priority } from '@/lib/types';
+import { Task, TaskStatus, Priority, RecurrenceRule } from '@/lib/types';
 import {
   Dialog,
   DialogContent,
@@ -25,8 +25,16 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
-import { CalendarIcon, Clock } from 'lucide-react';
+import { CalendarIcon, CheckCircle2, Circle, Clock, Link2, Plus, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { wouldCreateCycle } from '@/lib/dependencies';
+import { getChildTasks, getTaskRollup, isSelfOrAncestor } from '@/lib/subtasks';
+import { toast } from '@/hooks/use-toast';
+import { RecurrenceEditor } from '@/components/shared/RecurrenceEditor';
+import { ChecklistEditor } from '@/components/shared/ChecklistEditor';
+import { TimeEntriesEditor } from '@/components/shared/TimeEntriesEditor';
+import { TaskTimerButton } from '@/components/shared/TaskTimerButton';
+import { formatMinutes } from '@/lib/timeTracking';
 
 const statusOptions: { value: TaskStatus; label: string }[] = [
   { value: 'backlog', label: 'Backlog' },
@@ -48,7 +56,12 @@ export function TaskEditDialog() {
     selectedTaskId, 
     setSelectedTaskId, 
     currentProfile, 
-    updateTask 
+    updateTask,
+    addTaskDependency,
+    removeTaskDependency,
+    createSubtask,
+    setTaskParent,
+    updateTaskStatus,
   } = useApp();
 
   const task = selectedTaskId 
@@ -61,15 +74,35 @@ export function TaskEditDialog() {
   const [priority, setPriority] = useState<Priority>('medium');
   const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
   const [estimateMinutes, setEstimateMinutes] = useState<number | undefined>(undefined);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(undefined);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+
+  // Only reset the form when a different task is opened, so sub-resource edits
+  // made while the dialog is open (e.g. dependencies) don't discard typed changes
+  const loadedTaskIdRef = useRef<string | null>(null);
+  // Status changes made elsewhere (e.g. removing the last blocker) show up in
+  // the form unless the user already picked another status
+  const loadedStatusRef = useRef<TaskStatus | null>(null);
 
   useEffect(() => {
-    if (task) {
+    if (!task) {
+      loadedTaskIdRef.current = null;
+      return;
+    }
+    if (loadedTaskIdRef.current !== task.id) {
+      loadedTaskIdRef.current = task.id;
+      loadedStatusRef.current = task.status;
       setTitle(task.title);
       setDescription(task.description || '');
       setStatus(task.status);
       setPriority(task.priority);
       setDueDate(task.dueDate ? new Date(task.dueDate) : undefined);
       setEstimateMinutes(task.estimateMinutes);
+      setRecurrence(task.recurrence);
+    } else if (loadedStatusRef.current !== task.status) {
+      const loadedStatus = loadedStatusRef.current;
+      loadedStatusRef.current = task.status;
+      setStatus(current => (current === loadedStatus ? task.status : current));
     }
   }, [task]);
 
@@ -79,21 +112,68 @@ export function TaskEditDialog() {
     updateTask(task.id, {
       title: title.trim(),
       description: description.trim() || undefined,
-      status,
+      // Only an explicit choice, so a stale status can't overwrite one set elsewhere
+      ...(status !== loadedStatusRef.current ? { status } : {}),
       priority,
       dueDate: dueDate ? dueDate.toISOString() : undefined,
       estimateMinutes: estimateMinutes || undefined,
+      recurrence,
     });
 
     setSelectedTaskId(null);
   };
 
+  const handleAddBlocker = (blockerId: string) => {
+    if (!task) return;
+    if (!addTaskDependency(task.id, blockerId)) {
+      toast({
+        title: 'Dependency not added',
+        description: 'That link would create a circular dependency.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAddSubtask = () => {
+    if (!task || !newSubtaskTitle.trim()) return;
+    createSubtask(task.id, newSubtaskTitle.trim());
+    setNewSubtaskTitle('');
+  };
+
+  const handleParentChange = (parentId: string) => {
+    if (!task) return;
+    if (!setTaskParent(task.id, parentId === 'none' ? null : parentId)) {
+      toast({
+        title: 'Cannot move task',
+        description: 'A task cannot be nested under one of its own subtasks.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleCancel = () => {
     setSelectedTaskId(null);
   };
 
   if (!task) return null;
 
+  const projectTitle = (projectId?: string) =>
+    currentProfile.projects.find(p => p.id === projectId)?.title || 'No project';
+  const blockers = (task.blockedBy || [])
+    .map(id => currentProfile.tasks.find(t => t.id === id))
+    .filter(Boolean) as Task[];
+  const subtasks = getChildTasks(task.id, currentProfile.tasks);
+  const rollup = subtasks.length > 0 ? getTaskRollup(task, currentProfile.tasks) : null;
+  const parentCandidates = currentProfile.tasks.filter(t =>
+    (t.status !== 'done' || t.id === task.parentTaskId) && !isSelfOrAncestor(t, task.id, currentProfile.tasks)
+  );
+  const blockerCandidates = currentProfile.tasks.filter(t =>
+    t.id !== task.id &&
+    t.status !== 'done' &&
+    !task.blockedBy?.includes(t.id) &&
+    !wouldCreateCycle(currentProfile.tasks, task.id, t.id)
+  );
+
   return (
     <Dialog open={!!selectedTaskId} onOpenChange={(open) => !open && setSelectedTaskId(null)}>
       <DialogContent className="sm:max-w-[600px] bg-card border-border max-h-[90vh] overflow-y-auto">
@@ -223,6 +303,165 @@ export function TaskEditDialog() {
             </div>
           </div>
 
+          {/* Recurrence */}
+          <div className="space-y-2">
+            <Label className="text-foreground">Repeat</Label>
+            <RecurrenceEditor
+              value={recurrence}
+              onChange={setRecurrence}
+              referenceDate={dueDate}
+            />
+          </div>
+
+          {/* Checklist */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-foreground">Checklist</Label>
+              {task.checklistItems.length > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {task.checklistItems.filter(i => i.done).length}/{task.checklistItems.length} done
+                </span>
+              )}
+            </div>
+            <ChecklistEditor task={task} />
+          </div>
+
+          {/* Time Tracking */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Label className="text-foreground">Time tracked</Label>
+                <TaskTimerButton task={task} />
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {formatMinutes(task.timeSpentMinutes || 0)}
+                {estimateMinutes ? ` of ${formatMinutes(estimateMinutes)} estimated` : ''}
+              </span>
+            </div>
+            <TimeEntriesEditor task={task} />
+          </div>
+
+          {/* Subtasks */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-foreground">Subtasks</Label>
+              {rollup && (
+                <span className="text-xs text-muted-foreground">
+                  {rollup.completedSubtasks}/{rollup.totalSubtasks} done
+                  {rollup.estimateMinutes > 0 && ` · ${rollup.estimateMinutes}m estimated in total`}
+                </span>
+              )}
+            </div>
+            {subtasks.length > 0 && (
+              <div className="space-y-1">
+                {subtasks.map(subtask => (
+                  <div
+                    key={subtask.id}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-surface-2 border border-border text-sm"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => updateTaskStatus(subtask.id, subtask.status === 'done' ? 'todo' : 'done')}
+                      className={subtask.status === 'done' ? 'text-status-done' : 'text-muted-foreground hover:text-primary'}
+                    >
+                      {subtask.status === 'done' ? <CheckCircle2 className="h-4 w-4" /> : <Circle className="h-4 w-4" />}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedTaskId(subtask.id)}
+                      className={cn(
+                        'flex-1 text-left truncate hover:text-primary',
+                        subtask.status === 'done' ? 'line-through text-muted-foreground' : 'text-foreground'
+                      )}
+                    >
+                      {subtask.title}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Input
+                value={newSubtaskTitle}
+                onChange={(e) => setNewSubtaskTitle(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAddSubtask();
+                  }
+                }}
+                className="bg-surface-2 border-border text-foreground"
+                placeholder="Add a subtask..."
+              />
+              <Button type="button" variant="secondary" onClick={handleAddSubtask} disabled={!newSubtaskTitle.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Parent */}
+          <div className="space-y-2">
+            <Label className="text-foreground">Parent task</Label>
+            <Select value={task.parentTaskId || 'none'} onValueChange={handleParentChange}>
+              <SelectTrigger className="bg-surface-2 border-border text-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None (top-level task)</SelectItem>
+                {parentCandidates.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {projectTitle(candidate.projectId)} · {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Dependencies */}
+          <div className="space-y-2">
+            <Label className="text-foreground">Blocked by</Label>
+            {blockers.length > 0 && (
+              <div className="space-y-1">
+                {blockers.map(blocker => (
+                  <div
+                    key={blocker.id}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-surface-2 border border-border text-sm"
+                  >
+                    <Link2 className="h-3 w-3 text-muted-foreground shrink-0" />
+                    <span className={cn(
+                      'flex-1 truncate text-foreground',
+                      blocker.status === 'done' && 'line-through text-muted-foreground'
+                    )}>
+                      {blocker.title}
+                    </span>
+                    <span className="text-xs text-muted-foreground truncate">
+                      {projectTitle(blocker.projectId)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => removeTaskDependency(task.id, blocker.id)}
+                      className="text-muted-foreground hover:text-destructive"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <Select value="" onValueChange={handleAddBlocker}>
+              <SelectTrigger className="bg-surface-2 border-border text-foreground">
+                <SelectValue placeholder="Add a blocking task..." />
+              </SelectTrigger>
+              <SelectContent>
+                {blockerCandidates.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {projectTitle(candidate.projectId)} · {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Actions */}
           <div className="flex justify-end gap-2 pt-4">
             <Button
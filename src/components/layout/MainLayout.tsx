@@ -1,4 +1,7 @@
 import { Sidebar } from './Sidebar';
+import { CommandPalette } from '@/components/dialogs/CommandPalette';
+import { ShortcutsDialog } from '@/components/dialogs/ShortcutsDialog';
+import { SyncConflictDialog } from '@/components/dialogs/SyncConflictDialog';
 import { QuickAddDialog } from '@/components/dialogs/QuickAddDialog';
 import { TaskEditDialog } from '@/components/dialogs/TaskEditDialog';
 import { useApp } from '@/contexts/AppContext';
@@ -20,6 +23,9 @@ export function MainLayout({ children }: MainLayoutProps) {
       </main>
       <QuickAddDialog />
       <TaskEditDialog />
+      <CommandPalette />
+      <ShortcutsDialog />
+      <SyncConflictDialog />
     </div>
   );
 }
@@ -12,6 +12,7 @@ import {
   Plus,
   Inbox,
   LogOut,
+  Trash2,
 } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
 import { useAuth } from '@/contexts/AuthContext';
@@ -19,6 +20,7 @@ import { cn } from '@/lib/utils';
 import { ViewType } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { SyncIndicator } from './SyncIndicator';
 
 interface NavItem {
   id: ViewType;
@@ -36,6 +38,7 @@ export function Sidebar() {
     setQuickAddOpen,
     currentProfile,
     setSelectedProjectId,
+    trashItems,
   } = useApp();
   const { signOut, user } = useAuth();
 
@@ -61,6 +64,7 @@ export function Sidebar() {
 
   const bottomItems: NavItem[] = [
     { id: 'completed', label: 'Completed', icon: CheckCircle2 },
+    { id: 'trash', label: 'Trash', icon: Trash2, badge: trashItems.length },
     { id: 'settings', label: 'Settings', icon: Settings },
   ];
 
@@ -234,6 +238,7 @@ export function Sidebar() {
             </div>
           </div>
         )}
+        <SyncIndicator collapsed={sidebarCollapsed} />
         <Tooltip delayDuration={0}>
           <TooltipTrigger asChild>
             <Button
@@ -0,0 +1,90 @@
+import { useEffect, useRef } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Cloud, CloudAlert, CloudOff, CloudUpload, RefreshCw } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { SyncStatus } from '@/hooks/use-outbox-sync';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { ToastAction } from '@/components/ui/toast';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+const statusConfig: Record<SyncStatus, { icon: React.ElementType; label: string; className: string }> = {
+  synced: { icon: Cloud, label: 'All changes saved', className: 'text-muted-foreground' },
+  pending: { icon: CloudUpload, label: 'Saving changes', className: 'text-muted-foreground' },
+  syncing: { icon: RefreshCw, label: 'Syncing...', className: 'text-primary' },
+  offline: { icon: CloudOff, label: 'Offline', className: 'text-status-blocked' },
+  error: { icon: CloudAlert, label: 'Sync failed', className: 'text-destructive' },
+};
+
+interface SyncIndicatorProps {
+  collapsed: boolean;
+}
+
+/**
+ * Shows whether local changes have reached Supabase; click to retry.
+ * A failed save also raises a toast, once per failure.
+ */
+export function SyncIndicator({ collapsed }: SyncIndicatorProps) {
+  const { syncState, retrySync } = useApp();
+  const config = statusConfig[syncState.status];
+  const Icon = config.icon;
+  const previousStatusRef = useRef(syncState.status);
+
+  useEffect(() => {
+    const previousStatus = previousStatusRef.current;
+    previousStatusRef.current = syncState.status;
+    if (syncState.status !== 'error' || previousStatus === 'error') return;
+
+    toast({
+      title: 'Changes not saved',
+      description: syncState.error
+        ? `${syncState.error}. Your changes are kept on this device and will be retried.`
+        : 'Your changes are kept on this device and will be retried.',
+      variant: 'destructive',
+      action: (
+        <ToastAction altText="Retry saving" onClick={() => retrySync()}>
+          Retry
+        </ToastAction>
+      ),
+    });
+  }, [syncState.status, syncState.error, retrySync]);
+
+  const detail = syncState.pendingCount > 0
+    ? `${syncState.pendingCount} ${syncState.pendingCount === 1 ? 'change' : 'changes'} waiting to sync`
+    : syncState.lastSyncedAt
+      ? `Last synced ${formatDistanceToNow(new Date(syncState.lastSyncedAt), { addSuffix: true })}`
+      : 'Up to date';
+
+  return (
+    <Tooltip delayDuration={0}>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          onClick={() => retrySync()}
+          className={cn(
+            'w-full flex items-center gap-2 px-3 py-1.5 rounded-md text-xs hover:bg-sidebar-accent transition-colors',
+            collapsed && 'justify-center px-0',
+            config.className
+          )}
+        >
+          <Icon className={cn('h-4 w-4 shrink-0', syncState.status === 'syncing' && 'animate-spin')} />
+          {!collapsed && (
+            <span className="truncate">
+              {config.label}
+              {syncState.pendingCount > 0 && syncState.status !== 'syncing' && ` (${syncState.pendingCount})`}
+            </span>
+          )}
+        </button>
+      </TooltipTrigger>
+      <TooltipContent side="right">
+        <p>{collapsed ? `${config.label}. ${detail}` : detail}</p>
+        {syncState.status === 'error' && syncState.error && (
+          <p className="text-xs text-destructive">{syncState.error}</p>
+        )}
+        {(syncState.status === 'error' || syncState.status === 'offline') && (
+          <p className="text-xs text-muted-foreground">Changes are kept on this device. Click to retry.</p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarPlus, Copy, Download, Link, RefreshCw } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { CalendarFilter, buildCalendar } from '@/lib/ical';
+import {
+  deleteCalendarFeed,
+  getCalendarFeedToken,
+  getCalendarFeedUrl,
+  resetCalendarFeedToken,
+} from '@/lib/calendarFeed';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const ALL = '__all__';
+
+/**
+ * Due tasks and project dates as an .ics download or a calendar feed link,
+ * narrowed by area, project or tag
+ */
+export function CalendarExportPanel() {
+  const { user } = useAuth();
+  const { currentProfile } = useApp();
+  const [areaId, setAreaId] = useState(ALL);
+  const [projectId, setProjectId] = useState(ALL);
+  const [tagId, setTagId] = useState(ALL);
+  const [includeCompleted, setIncludeCompleted] = useState(false);
+  const [tasksAsEvents, setTasksAsEvents] = useState(false);
+  // undefined while loading, null when the user has no feed
+  const [token, setToken] = useState<string | null | undefined>(undefined);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    getCalendarFeedToken(user.id).then(value => {
+      if (!cancelled) setToken(value);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  if (!currentProfile) return null;
+  const projects = currentProfile.projects.filter(p => !p.archived);
+
+  const filter: CalendarFilter = {
+    areaIds: areaId === ALL ? undefined : [areaId],
+    projectIds: projectId === ALL ? undefined : [projectId],
+    tagIds: tagId === ALL ? undefined : [tagId],
+    includeCompleted,
+    tasksAsEvents,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+  const feedUrl = token ? getCalendarFeedUrl(token, currentProfile.id, filter) : null;
+
+  const handleDownload = () => {
+    const ics = buildCalendar(currentProfile, filter);
+    const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `life-pm-${format(new Date(), 'yyyy-MM-dd')}.ics`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast({ title: 'Calendar exported' });
+  };
+
+  const handleResetToken = async () => {
+    if (!user) return;
+    setBusy(true);
+    const value = await resetCalendarFeedToken(user.id);
+    setBusy(false);
+    if (value) {
+      setToken(value);
+      toast({ title: token ? 'Feed link replaced' : 'Feed link created', description: token ? 'The old link no longer works.' : undefined });
+    } else {
+      toast({ title: 'Failed to save feed link', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user) return;
+    setBusy(true);
+    const success = await deleteCalendarFeed(user.id);
+    setBusy(false);
+    if (success) {
+      setToken(null);
+      toast({ title: 'Calendar feed turned off' });
+    } else {
+      toast({ title: 'Failed to turn off feed', variant: 'destructive' });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: 'Feed link copied' });
+    } catch {
+      toast({ title: "Couldn't copy the link", variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1.5">
+          <Label>Area</Label>
+          <Select value={areaId} onValueChange={setAreaId}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All areas</SelectItem>
+              {currentProfile.areas.map(area => (
+                <SelectItem key={area.id} value={area.id}>{area.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Project</Label>
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All projects</SelectItem>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>{project.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Tag</Label>
+          <Select value={tagId} onValueChange={setTagId}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All tags</SelectItem>
+              {currentProfile.tags.map(tag => (
+                <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Include completed</Label>
+          <p className="text-sm text-muted-foreground">Also show done tasks and completed projects</p>
+        </div>
+        <Switch checked={includeCompleted} onCheckedChange={setIncludeCompleted} />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Tasks as events</Label>
+          <p className="text-sm text-muted-foreground">For calendars that don't show to-dos, like Google Calendar</p>
+        </div>
+        <Switch checked={tasksAsEvents} onCheckedChange={setTasksAsEvents} />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Download</Label>
+          <p className="text-sm text-muted-foreground">A one-off .ics file to import into any calendar</p>
+        </div>
+        <Button variant="secondary" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          Download .ics
+        </Button>
+      </div>
+
+      <div className="space-y-3 border-t border-border pt-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Subscribe</Label>
+            <p className="text-sm text-muted-foreground">
+              A private link your calendar app checks for changes. Anyone with it can see these dates.
+            </p>
+          </div>
+          {token === null && (
+            <Button variant="secondary" onClick={handleResetToken} disabled={busy || !user}>
+              <Link className="h-4 w-4 mr-2" />
+              Create Link
+            </Button>
+          )}
+        </div>
+
+        {token === undefined && <p className="text-sm text-muted-foreground">Loading feed...</p>}
+
+        {feedUrl && (
+          <div className="space-y-2 animate-fade-in">
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} onFocus={e => e.target.select()} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy feed link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The link includes the filters above; change them to get a different link.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={feedUrl.replace(/^https?:/, 'webcal:')}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Open in Calendar App
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleResetToken} disabled={busy}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Replace Link
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleDelete} disabled={busy} className="text-destructive hover:text-destructive">
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { GripVertical, ListTree, Plus, Trash2 } from 'lucide-react';
+import { ChecklistItem, Task } from '@/lib/types';
+import { useApp } from '@/contexts/AppContext';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+
+interface ChecklistEditorProps {
+  task: Task;
+}
+
+interface SortableChecklistRowProps {
+  taskId: string;
+  item: ChecklistItem;
+}
+
+function SortableChecklistRow({ taskId, item }: SortableChecklistRowProps) {
+  const { toggleChecklistItem, updateChecklistItem, deleteChecklistItem, promoteChecklistItem } = useApp();
+  const [content, setContent] = useState(item.content);
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: item.id });
+
+  const commitContent = () => {
+    const trimmed = content.trim();
+    if (!trimmed) {
+      setContent(item.content);
+      return;
+    }
+    if (trimmed !== item.content) {
+      updateChecklistItem(taskId, item.id, { content: trimmed });
+    }
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn(
+        'group flex items-center gap-2 px-2 py-1 rounded-md bg-surface-2 border border-border',
+        isDragging && 'opacity-50'
+      )}
+    >
+      <button
+        type="button"
+        className="text-muted-foreground cursor-grab active:cursor-grabbing"
+        {...attributes}
+        {...listeners}
+      >
+        <GripVertical className="h-4 w-4" />
+      </button>
+      <Checkbox
+        checked={item.done}
+        onCheckedChange={() => toggleChecklistItem(taskId, item.id)}
+      />
+      <input
+        value={content}
+        onChange={e => setContent(e.target.value)}
+        onBlur={commitContent}
+        onKeyDown={e => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            e.currentTarget.blur();
+          }
+        }}
+        className={cn(
+          'flex-1 bg-transparent text-sm outline-none',
+          item.done ? 'line-through text-muted-foreground' : 'text-foreground'
+        )}
+      />
+      <button
+        type="button"
+        onClick={() => promoteChecklistItem(taskId, item.id)}
+        className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-primary transition-opacity"
+        title="Convert to subtask"
+      >
+        <ListTree className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        onClick={() => deleteChecklistItem(taskId, item.id)}
+        className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity"
+        title="Delete item"
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Editable, drag-to-reorder checklist for a task
+ */
+export function ChecklistEditor({ task }: ChecklistEditorProps) {
+  const { addChecklistItem, reorderChecklistItems } = useApp();
+  const [newItem, setNewItem] = useState('');
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const handleAdd = () => {
+    if (!newItem.trim()) return;
+    addChecklistItem(task.id, newItem.trim());
+    setNewItem('');
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    const fromIndex = task.checklistItems.findIndex(i => i.id === active.id);
+    const toIndex = task.checklistItems.findIndex(i => i.id === over.id);
+    if (fromIndex === -1 || toIndex === -1) return;
+    reorderChecklistItems(task.id, fromIndex, toIndex);
+  };
+
+  return (
+    <div className="space-y-2">
+      {task.checklistItems.length > 0 && (
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+          <SortableContext items={task.checklistItems.map(i => i.id)} strategy={verticalListSortingStrategy}>
+            <div className="space-y-1">
+              {task.checklistItems.map(item => (
+                <SortableChecklistRow key={item.id} taskId={task.id} item={item} />
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={newItem}
+          onChange={e => setNewItem(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          className="bg-surface-2 border-border text-foreground"
+          placeholder="Add an item and press Enter..."
+        />
+        <Button type="button" variant="secondary" onClick={handleAdd} disabled={!newItem.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { FileSpreadsheet } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { CSV_COLUMNS, CsvEntity, CsvEntityItems, exportCsv } from '@/lib/csv';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface CsvExportButtonProps<E extends CsvEntity> {
+  entity: E;
+  // What the view shows, with its filters applied
+  items: CsvEntityItems[E][];
+  // Used in the file name, e.g. the view or project name
+  name: string;
+}
+
+/**
+ * Download the items a view shows as CSV, with a choice of columns
+ */
+export function CsvExportButton<E extends CsvEntity>({ entity, items, name }: CsvExportButtonProps<E>) {
+  const { currentProfile } = useApp();
+  const columns = CSV_COLUMNS[entity];
+  const [selected, setSelected] = useState(() => columns.filter(c => c.default).map(c => c.key));
+  const [open, setOpen] = useState(false);
+
+  const handleExport = () => {
+    if (!currentProfile) return;
+    const csv = exportCsv(currentProfile, entity, items, selected);
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    a.download = `life-pm-${slug || entity}-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+    setOpen(false);
+    toast({
+      title: 'CSV exported',
+      description: `${items.length} ${items.length === 1 ? 'row' : 'rows'} downloaded.`,
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64">
+        <p className="text-sm font-medium text-foreground mb-3">Columns</p>
+        <div className="max-h-[260px] overflow-y-auto space-y-2 mb-4">
+          {columns.map(column => (
+            <label key={column.key} className="flex items-center gap-2 text-sm text-foreground">
+              <Checkbox
+                checked={selected.includes(column.key)}
+                onCheckedChange={checked => setSelected(current =>
+                  checked === true ? [...current, column.key] : current.filter(key => key !== column.key)
+                )}
+              />
+              {column.label}
+            </label>
+          ))}
+        </div>
+        <Button size="sm" className="w-full" onClick={handleExport} disabled={selected.length === 0}>
+          Download {items.length} {items.length === 1 ? 'row' : 'rows'}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,253 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, GitMerge, Upload, XCircle } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import {
+  DEFAULT_EXTERNAL_IMPORT_OPTIONS,
+  EXTERNAL_SOURCE_LABELS,
+  ExternalData,
+  ExternalImportOptions,
+  PlannedProject,
+  ProjectConflictResolution,
+  planExternalImport,
+  readExternalFiles,
+} from '@/lib/externalImport';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+const NEW_AREA = '__new__';
+
+const actionLabels: Record<PlannedProject['action'], string> = {
+  create: 'New project',
+  merge: 'Add to existing',
+  skip: 'Skipped',
+};
+
+const resolutionOptions: { value: ProjectConflictResolution; label: string }[] = [
+  { value: 'merge', label: 'Add to existing project' },
+  { value: 'separate', label: 'Create a separate project' },
+  { value: 'skip', label: "Don't import" },
+];
+
+interface ExternalImportFormProps {
+  onCancel: () => void;
+}
+
+/**
+ * Import a Todoist, Trello or Things export into the current profile, with
+ * a preview of what will be added and the conflicts with existing projects
+ */
+export function ExternalImportForm({ onCancel }: ExternalImportFormProps) {
+  const { currentProfile, importExternalData } = useApp();
+  const [data, setData] = useState<ExternalData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [options, setOptions] = useState<ExternalImportOptions>(DEFAULT_EXTERNAL_IMPORT_OPTIONS);
+
+  const plan = useMemo(
+    () => (currentProfile && data ? planExternalImport(currentProfile, data, options) : null),
+    [currentProfile, data, options]
+  );
+
+  if (!currentProfile) return null;
+  const areas = currentProfile.areas.filter(a => !a.deletedAt);
+  const sourceLabel = data ? EXTERNAL_SOURCE_LABELS[data.source] : '';
+  const update = (changes: Partial<ExternalImportOptions>) => setOptions(current => ({ ...current, ...changes }));
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    try {
+      const texts = await Promise.all(Array.from(files, async file => ({ name: file.name, text: await file.text() })));
+      setData(readExternalFiles(texts));
+      setOptions(DEFAULT_EXTERNAL_IMPORT_OPTIONS);
+      setError(null);
+    } catch (err) {
+      setData(null);
+      setError(err instanceof Error ? err.message : 'These files could not be read');
+    }
+  };
+
+  const handleImport = () => {
+    if (!plan) return;
+    importExternalData(plan);
+    onCancel();
+  };
+
+  const checklistCount = plan?.tasks.reduce((sum, task) => sum + task.checklistItems.length, 0) ?? 0;
+  const summary = plan ? [
+    { label: 'New projects', value: plan.projects.length },
+    { label: 'Tasks', value: plan.tasks.length },
+    { label: 'Checklist items', value: checklistCount },
+    { label: 'New tags', value: plan.tags.length },
+    { label: 'New areas', value: plan.areas.length },
+  ] : [];
+
+  return (
+    <div className="space-y-3 animate-fade-in">
+      <label className="flex items-center justify-center gap-2 rounded-lg border border-dashed border-border p-6 text-sm text-muted-foreground cursor-pointer hover:bg-muted/50">
+        <Upload className="h-4 w-4" />
+        {data ? `${sourceLabel} export loaded. Choose other files` : 'Choose export files'}
+        <input
+          type="file"
+          multiple
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={e => handleFiles(e.target.files)}
+        />
+      </label>
+      {!data && !error && (
+        <p className="text-xs text-muted-foreground">
+          Todoist: the CSV files from an unzipped backup, or a JSON backup. Trello: the board's JSON export.
+          Things: a JSON export.
+        </p>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm">
+          <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+          <p className="text-foreground">{error}</p>
+        </div>
+      )}
+
+      {plan && (
+        <div className="space-y-4 rounded-lg border border-border bg-surface-2 p-4 animate-fade-in">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Area</Label>
+              <Select
+                value={options.areaId ?? NEW_AREA}
+                onValueChange={v => update({ areaId: v === NEW_AREA ? null : v })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_AREA}>{`"${sourceLabel}" area`}</SelectItem>
+                  {areas.map(area => (
+                    <SelectItem key={area.id} value={area.id}>{area.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">For items the export doesn't file in an area</p>
+            </div>
+            <div className="space-y-3">
+              <label className="flex items-center justify-between gap-2 text-sm text-foreground">
+                {data.source === 'trello' ? 'One project per list' : data.source === 'things' ? 'One project per heading' : 'One project per section'}
+                <Switch checked={options.splitSections} onCheckedChange={v => update({ splitSections: v })} />
+              </label>
+              <label className="flex items-center justify-between gap-2 text-sm text-foreground">
+                Include completed
+                <Switch checked={options.includeCompleted} onCheckedChange={v => update({ includeCompleted: v })} />
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+            {summary.map(({ label, value }) => (
+              <div key={label} className="rounded-md bg-card border border-border px-3 py-2">
+                <p className="text-lg font-semibold text-foreground">{value}</p>
+                <p className="text-xs text-muted-foreground">{label}</p>
+              </div>
+            ))}
+          </div>
+
+          {plan.reusedTags.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Uses your existing {plan.reusedTags.length === 1 ? 'tag' : 'tags'} {plan.reusedTags.join(', ')}
+            </p>
+          )}
+
+          {plan.planned.length > 0 && (
+            <div className="space-y-1">
+              {plan.planned.map(project => (
+                <div key={project.key} className="flex items-center gap-3 text-sm">
+                  <span className={cn('flex-1 min-w-0 truncate', project.action === 'skip' ? 'text-muted-foreground line-through' : 'text-foreground')}>
+                    {project.title}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {project.taskCount} {project.taskCount === 1 ? 'task' : 'tasks'}
+                  </span>
+                  <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded-full">
+                    {actionLabels[project.action]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {plan.conflicts.length > 0 && (
+            <div className="space-y-3 border-t border-border pt-4">
+              <p className="text-sm text-foreground">
+                {plan.conflicts.length === 1 ? 'A project with this name already exists' : 'Projects with these names already exist'}:
+              </p>
+              {plan.conflicts.map(conflict => (
+                <div key={conflict.key} className="space-y-1">
+                  <div className="flex items-center gap-3">
+                    <GitMerge className="h-4 w-4 shrink-0 text-priority-high" />
+                    <span className="flex-1 min-w-0 truncate text-sm font-medium text-foreground">{conflict.title}</span>
+                    <Select
+                      value={conflict.resolution}
+                      onValueChange={v => update({
+                        resolutions: { ...options.resolutions, [conflict.key]: v as ProjectConflictResolution },
+                      })}
+                    >
+                      <SelectTrigger className="w-[200px] h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {resolutionOptions.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {conflict.resolution === 'merge' && conflict.duplicateTitles.length > 0 && (
+                    <p className="pl-7 text-xs text-muted-foreground">
+                      Already in the project: {conflict.duplicateTitles.join(', ')}
+                    </p>
+                  )}
+                </div>
+              ))}
+              {plan.conflicts.some(c => c.resolution === 'merge' && c.duplicateTitles.length > 0) && (
+                <label className="flex items-center justify-between gap-2 text-sm text-foreground">
+                  Leave out tasks that are already in the project
+                  <Switch checked={options.skipDuplicateTasks} onCheckedChange={v => update({ skipDuplicateTasks: v })} />
+                </label>
+              )}
+            </div>
+          )}
+
+          {plan.issues.length > 0 && (
+            <ul className="max-h-[160px] overflow-y-auto space-y-1.5 text-sm border-t border-border pt-4">
+              {plan.issues.map((issue, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-priority-high" />
+                  <span>
+                    <span className="text-muted-foreground mr-2">{issue.item}</span>
+                    <span className="text-foreground">{issue.message}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleImport} disabled={!plan || plan.tasks.length + plan.projects.length === 0}>
+          {data ? `Import from ${sourceLabel}` : 'Import'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Wrench, XCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApp } from '@/contexts/AppContext';
+import { ImportReport, ImportSummary, checkImport } from '@/lib/importValidation';
+import { MergeOptions, createDefaultMergeOptions } from '@/lib/importMerge';
+import { importData } from '@/lib/supabaseStorage';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { MergeImportOptions } from './MergeImportOptions';
+import { cn } from '@/lib/utils';
+
+const summaryLabels: { key: keyof ImportSummary; label: string }[] = [
+  { key: 'profiles', label: 'Profiles' },
+  { key: 'areas', label: 'Areas' },
+  { key: 'projects', label: 'Projects' },
+  { key: 'tasks', label: 'Tasks' },
+  { key: 'checklistItems', label: 'Checklist items' },
+  { key: 'ideas', label: 'Ideas' },
+  { key: 'tags', label: 'Tags' },
+];
+
+/**
+ * Dry-run result of an import: what it contains and what is wrong with it
+ */
+function ImportReportPanel({ report, merge }: { report: ImportReport; merge: boolean }) {
+  const unfixableCount = report.issues.filter(issue => !issue.fixable).length;
+  const fixableCount = report.issues.length - unfixableCount;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border bg-surface-2 p-4 animate-fade-in">
+      <div className="flex items-start gap-2 text-sm">
+        {!report.data ? (
+          <>
+            <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+            <p className="text-foreground">
+              This backup can't be imported. Fix the problems marked below in the file and check it again.
+            </p>
+          </>
+        ) : fixableCount > 0 ? (
+          <>
+            <Wrench className="h-4 w-4 mt-0.5 shrink-0 text-priority-high" />
+            <p className="text-foreground">
+              {fixableCount} {fixableCount === 1 ? 'problem' : 'problems'} can be repaired automatically:
+              invalid values are reset to defaults and links to missing items are removed.
+            </p>
+          </>
+        ) : (
+          <>
+            <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-status-done" />
+            <p className="text-foreground">This backup is valid.</p>
+          </>
+        )}
+      </div>
+
+      {report.summary && (
+        <div>
+          <p className="text-xs text-muted-foreground mb-2">
+            {merge ? 'This backup contains:' : 'Importing replaces all your data with:'}
+          </p>
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {summaryLabels.map(({ key, label }) => (
+              <div key={key} className="rounded-md bg-card border border-border px-3 py-2">
+                <p className="text-lg font-semibold text-foreground">{report.summary![key]}</p>
+                <p className="text-xs text-muted-foreground">{label}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {report.issues.length > 0 && (
+        <ul className="max-h-[240px] overflow-y-auto space-y-1.5 text-sm">
+          {report.issues.map((issue, index) => (
+            <li key={`${issue.path}-${index}`} className="flex items-start gap-2">
+              <AlertTriangle
+                className={cn(
+                  'h-3.5 w-3.5 mt-0.5 shrink-0',
+                  issue.fixable ? 'text-priority-high' : 'text-destructive'
+                )}
+              />
+              <span className="min-w-0">
+                {issue.path && <code className="font-mono text-xs text-muted-foreground mr-2">{issue.path}</code>}
+                <span className="text-foreground">{issue.message}</span>
+                {!issue.fixable && <span className="ml-2 text-xs text-destructive">Must be fixed in the file</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface JsonImportFormProps {
+  onCancel: () => void;
+}
+
+/**
+ * Paste a JSON backup, check it, then replace all data with it or merge
+ * the chosen parts into the existing data
+ */
+export function JsonImportForm({ onCancel }: JsonImportFormProps) {
+  const { user } = useAuth();
+  const { currentProfile } = useApp();
+  const [importJson, setImportJson] = useState('');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [mode, setMode] = useState<'replace' | 'merge'>('replace');
+  const [mergeOptions, setMergeOptions] = useState<MergeOptions | null>(null);
+
+  const handleCheck = () => {
+    const checked = checkImport(importJson);
+    setReport(checked);
+    setMergeOptions(checked.data && currentProfile ? createDefaultMergeOptions(checked.data, currentProfile) : null);
+  };
+
+  const merging = mode === 'merge' && !!mergeOptions;
+
+  const handleImport = async () => {
+    if (!user) return;
+    // Only reached after a dry run, so accepting its repairs is the user's choice
+    const result = await importData(user.id, importJson, { repair: true, merge: merging ? mergeOptions : undefined });
+    if (result.success) {
+      toast({
+        title: 'Data imported',
+        description: merging
+          ? 'The selected items have been added to your data. Refreshing...'
+          : 'Your data has been imported successfully. Refreshing...',
+      });
+      setTimeout(() => window.location.reload(), 1000);
+    } else {
+      toast({
+        title: 'Import failed',
+        description: result.error,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3 animate-fade-in">
+      <Textarea
+        placeholder="Paste your JSON data here..."
+        value={importJson}
+        onChange={e => {
+          setImportJson(e.target.value);
+          setReport(null);
+        }}
+        className="bg-surface-2 border-border min-h-[150px] font-mono text-sm"
+      />
+      <RadioGroup
+        value={mode}
+        onValueChange={value => setMode(value as 'replace' | 'merge')}
+        className="flex gap-6"
+      >
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <RadioGroupItem value="replace" />
+          Replace all my data
+        </label>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <RadioGroupItem value="merge" />
+          Merge into my data
+        </label>
+      </RadioGroup>
+      {report && <ImportReportPanel report={report} merge={mode === 'merge'} />}
+      {report?.data && merging && (
+        <MergeImportOptions source={report.data} value={mergeOptions} onChange={setMergeOptions} />
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        {report ? (
+          <Button onClick={handleImport} disabled={!report.data || (merging && mergeOptions.target.type === 'new' && !mergeOptions.target.name.trim())}>
+            {report.issues.length > 0 ? 'Repair and Import' : 'Import Data'}
+          </Button>
+        ) : (
+          <Button onClick={handleCheck} disabled={!importJson.trim()}>
+            Check Data
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Download, FileText, FolderOpen, GitMerge } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { MarkdownChange, MarkdownResolution, VaultFile, planMarkdownImport } from '@/lib/markdown';
+import { createZip } from '@/lib/zip';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const fieldLabels: Record<string, string> = {
+  title: 'title',
+  status: 'status',
+  priority: 'priority',
+  areaId: 'area',
+  projectId: 'project',
+  parentTaskId: 'parent task',
+  startDate: 'start date',
+  dueDate: 'due date',
+  completedAt: 'completion date',
+  tags: 'tags',
+  description: 'description',
+  checklistItems: 'checklist',
+};
+
+const describeChange = (change: MarkdownChange) =>
+  change.fields.map(field => fieldLabels[field] ?? field).join(', ');
+
+interface MarkdownImportFormProps {
+  onCancel: () => void;
+}
+
+/**
+ * Read back an edited Markdown vault and apply its changes by ID, letting
+ * the user choose for records that were also changed in the app
+ */
+export function MarkdownImportForm({ onCancel }: MarkdownImportFormProps) {
+  const { currentProfile, applyMarkdownImport } = useApp();
+  const [files, setFiles] = useState<VaultFile[] | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, MarkdownResolution>>({});
+  // Files with block IDs for their new lines, offered once the import is applied
+  const [updatedFiles, setUpdatedFiles] = useState<VaultFile[] | null>(null);
+
+  const plan = useMemo(
+    () => (currentProfile && files ? planMarkdownImport(currentProfile, files, resolutions) : null),
+    [currentProfile, files, resolutions]
+  );
+
+  if (!currentProfile) return null;
+
+  const handleFiles = async (list: FileList | null) => {
+    if (!list) return;
+    const markdown = Array.from(list).filter(file => file.name.toLowerCase().endsWith('.md'));
+    setFiles(await Promise.all(markdown.map(async file => ({
+      path: file.webkitRelativePath || file.name,
+      content: await file.text(),
+    }))));
+    setResolutions({});
+  };
+
+  const handleApply = () => {
+    if (!plan) return;
+    applyMarkdownImport(plan);
+    if (plan.files.length > 0) {
+      setUpdatedFiles(plan.files);
+    } else {
+      onCancel();
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(createZip(updatedFiles));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `life-pm-vault-ids-${new Date().toISOString().split('T')[0]}.zip`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (updatedFiles) {
+    return (
+      <div className="space-y-3 animate-fade-in">
+        <p className="text-sm text-foreground">
+          {updatedFiles.length} {updatedFiles.length === 1 ? 'file has' : 'files have'} new lines. Download them
+          with the IDs the import gave those lines and replace the files in your vault, so later imports update
+          the same tasks.
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onCancel}>
+            Done
+          </Button>
+          <Button onClick={handleDownload}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Updated Files
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const changes = plan?.changes.filter(c => !c.conflict) ?? [];
+  const conflicts = plan?.changes.filter(c => c.conflict) ?? [];
+  const applied = plan ? plan.projects.length + plan.tasks.length + plan.newTasks.length : 0;
+
+  return (
+    <div className="space-y-3 animate-fade-in">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex items-center justify-center gap-2 rounded-lg border border-dashed border-border p-4 text-sm text-muted-foreground cursor-pointer hover:bg-muted/50">
+          <FolderOpen className="h-4 w-4" />
+          Choose vault folder
+          <input
+            type="file"
+            className="hidden"
+            ref={input => input?.setAttribute('webkitdirectory', '')}
+            onChange={e => handleFiles(e.target.files)}
+          />
+        </label>
+        <label className="flex items-center justify-center gap-2 rounded-lg border border-dashed border-border p-4 text-sm text-muted-foreground cursor-pointer hover:bg-muted/50">
+          <FileText className="h-4 w-4" />
+          Choose Markdown files
+          <input
+            type="file"
+            multiple
+            accept=".md,text/markdown"
+            className="hidden"
+            onChange={e => handleFiles(e.target.files)}
+          />
+        </label>
+      </div>
+      {files && (
+        <p className="text-xs text-muted-foreground">
+          {files.length} Markdown {files.length === 1 ? 'file' : 'files'} read
+        </p>
+      )}
+
+      {plan && (
+        <div className="space-y-4 rounded-lg border border-border bg-surface-2 p-4 animate-fade-in">
+          <p className="text-sm text-foreground">
+            {applied === 0 && conflicts.length === 0
+              ? 'No changes to apply.'
+              : `${plan.projects.length} ${plan.projects.length === 1 ? 'project' : 'projects'} and ${plan.tasks.length} ${plan.tasks.length === 1 ? 'task' : 'tasks'} will be updated` +
+                (plan.newTasks.length > 0 ? `, and ${plan.newTasks.length} new ${plan.newTasks.length === 1 ? 'task' : 'tasks'} added` : '') +
+                (plan.tags.length > 0 ? ` with ${plan.tags.length} new ${plan.tags.length === 1 ? 'tag' : 'tags'}` : '') +
+                '.'}
+          </p>
+
+          {changes.length > 0 && (
+            <ul className="max-h-[200px] overflow-y-auto space-y-1 text-sm">
+              {changes.map(change => (
+                <li key={change.key} className="flex items-center gap-3">
+                  <span className="flex-1 min-w-0 truncate text-foreground">{change.title}</span>
+                  <span className="text-xs text-muted-foreground">{describeChange(change)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="space-y-2 border-t border-border pt-4">
+              <p className="text-sm text-foreground">
+                Changed in the app since the export. Choose which version to keep:
+              </p>
+              {conflicts.map(conflict => (
+                <div key={conflict.key} className="flex items-center gap-3">
+                  <GitMerge className="h-4 w-4 shrink-0 text-priority-high" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{conflict.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">File changes {describeChange(conflict)}</p>
+                  </div>
+                  <Select
+                    value={conflict.resolution}
+                    onValueChange={v => setResolutions(current => ({ ...current, [conflict.key]: v as MarkdownResolution }))}
+                  >
+                    <SelectTrigger className="w-[170px] h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="app">Keep app version</SelectItem>
+                      <SelectItem value="file">Use the file</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {plan.issues.length > 0 && (
+            <ul className="max-h-[160px] overflow-y-auto space-y-1.5 text-sm border-t border-border pt-4">
+              {plan.issues.map((issue, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-priority-high" />
+                  <span>
+                    {issue.path && <span className="text-muted-foreground mr-2">{issue.path}</span>}
+                    <span className="text-foreground">{issue.message}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleApply} disabled={applied === 0 && !plan?.files.length}>
+          Apply Changes
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useMemo } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import { AppData, Area, Profile, Project } from '@/lib/types';
+import { MergeOptions, MergeSelection, mergeAppData } from '@/lib/importMerge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const CREATE_AREA = '__new__';
+
+const toggle = (ids: string[], id: string, on: boolean) =>
+  on ? [...new Set([...ids, id])] : ids.filter(existing => existing !== id);
+
+interface MergeImportOptionsProps {
+  source: AppData;
+  value: MergeOptions;
+  onChange: (value: MergeOptions) => void;
+}
+
+/**
+ * Choose what a merge import brings in and where it goes, with a preview of
+ * what will be added
+ */
+export function MergeImportOptions({ source, value, onChange }: MergeImportOptionsProps) {
+  const { data, currentProfile } = useApp();
+  const { selection, areaMapping, target } = value;
+  const targetAreas = currentProfile?.areas ?? [];
+
+  const added = useMemo(
+    () => (data ? mergeAppData(data, source, value)?.added : undefined),
+    [data, source, value]
+  );
+
+  const setSelection = (changes: Partial<MergeSelection>) =>
+    onChange({ ...value, selection: { ...selection, ...changes } });
+
+  const toggleArea = (area: Area, projects: Project[], on: boolean) => {
+    const projectIds = projects.reduce((ids, project) => toggle(ids, project.id, on), selection.projectIds);
+    setSelection({ areaIds: toggle(selection.areaIds, area.id, on), projectIds });
+  };
+
+  const renderProjects = (projects: Project[]) => projects.map(project => (
+    <label key={project.id} className="flex items-center gap-2 pl-6 text-sm text-foreground">
+      <Checkbox
+        checked={selection.projectIds.includes(project.id)}
+        onCheckedChange={checked => setSelection({ projectIds: toggle(selection.projectIds, project.id, checked === true) })}
+      />
+      <span className="truncate">{project.title}</span>
+    </label>
+  ));
+
+  const renderProfile = (profile: Profile) => {
+    const areas = profile.areas.filter(a => !a.deletedAt);
+    const projects = profile.projects.filter(p => !p.deletedAt);
+    const areaIds = new Set(areas.map(a => a.id));
+    const projectsWithoutArea = projects.filter(p => !areaIds.has(p.areaId));
+
+    return (
+      <div key={profile.id} className="space-y-3">
+        {source.profiles.length > 1 && (
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">{profile.name}</p>
+        )}
+        {areas.map(area => {
+          const areaProjects = projects.filter(p => p.areaId === area.id);
+          return (
+            <div key={area.id} className="space-y-1.5">
+              <div className="flex items-center justify-between gap-3">
+                <label className="flex items-center gap-2 text-sm font-medium text-foreground min-w-0">
+                  <Checkbox
+                    checked={selection.areaIds.includes(area.id)}
+                    onCheckedChange={checked => toggleArea(area, areaProjects, checked === true)}
+                  />
+                  <span className="truncate">{area.name}</span>
+                </label>
+                {target.type === 'current' && (
+                  <Select
+                    value={areaMapping[area.id] ?? CREATE_AREA}
+                    onValueChange={mapped => {
+                      const nextMapping = { ...areaMapping };
+                      if (mapped === CREATE_AREA) delete nextMapping[area.id];
+                      else nextMapping[area.id] = mapped;
+                      onChange({ ...value, areaMapping: nextMapping });
+                    }}
+                  >
+                    <SelectTrigger className="w-[180px] h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CREATE_AREA}>Create new area</SelectItem>
+                      {targetAreas.map(existing => (
+                        <SelectItem key={existing.id} value={existing.id}>Into {existing.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              {renderProjects(areaProjects)}
+            </div>
+          );
+        })}
+        {projectsWithoutArea.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-sm font-medium text-muted-foreground">No area</p>
+            {renderProjects(projectsWithoutArea)}
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <Checkbox
+            checked={selection.unfiledProfileIds.includes(profile.id)}
+            onCheckedChange={checked => setSelection({ unfiledProfileIds: toggle(selection.unfiledProfileIds, profile.id, checked === true) })}
+          />
+          Tasks and ideas without a project or area
+        </label>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border bg-surface-2 p-4 animate-fade-in">
+      <div className="space-y-2">
+        <Label>Add to</Label>
+        <RadioGroup
+          value={target.type}
+          onValueChange={type => onChange({
+            ...value,
+            target: type === 'new'
+              ? { type: 'new', name: source.profiles[0]?.name || 'Imported' }
+              : { type: 'current', profileId: currentProfile?.id ?? '' },
+          })}
+        >
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <RadioGroupItem value="current" />
+            This profile ({currentProfile?.name})
+          </label>
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <RadioGroupItem value="new" />
+            A new profile
+          </label>
+        </RadioGroup>
+        {target.type === 'new' && (
+          <Input
+            value={target.name}
+            onChange={e => onChange({ ...value, target: { type: 'new', name: e.target.value } })}
+            placeholder="Profile name"
+            className="bg-card border-border"
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Bring in</Label>
+        <div className="max-h-[280px] overflow-y-auto space-y-4 pr-1">
+          {source.profiles.map(renderProfile)}
+        </div>
+      </div>
+
+      {added && (
+        <p className="text-sm text-muted-foreground">
+          Adds {added.projects} projects, {added.tasks} tasks, {added.ideas} ideas,{' '}
+          {added.areas} new areas and {added.tags} new tags
+          {added.profiles > 0 && ' in a new profile'}. Existing items are kept.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { format } from 'date-fns';
+import { CalendarIcon, Repeat } from 'lucide-react';
+import { RecurrenceFrequency, RecurrenceRule } from '@/lib/types';
+import { WEEKDAY_LABELS, describeRecurrence } from '@/lib/recurrence';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface RecurrenceEditorProps {
+  value?: RecurrenceRule;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+  referenceDate?: Date; // Used to pick sensible defaults (weekday, day of month)
+}
+
+const frequencyOptions: { value: RecurrenceFrequency | 'none'; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'after-completion', label: 'After completion' },
+];
+
+const intervalUnits: Record<RecurrenceFrequency, [string, string]> = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+  'after-completion': ['day', 'days'],
+};
+
+const weekOptions = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+export function RecurrenceEditor({ value, onChange, referenceDate }: RecurrenceEditorProps) {
+  const reference = referenceDate || new Date();
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(undefined);
+      return;
+    }
+    const rule: RecurrenceRule = { frequency, interval: value?.interval || 1, until: value?.until };
+    if (frequency === 'weekly') rule.weekdays = [reference.getDay()];
+    if (frequency === 'monthly') rule.monthDay = reference.getDate();
+    onChange(rule);
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const current = value.weekdays || [];
+    const weekdays = current.includes(day)
+      ? current.filter(d => d !== day)
+      : [...current, day].sort((a, b) => a - b);
+    // Always keep at least one weekday selected
+    if (weekdays.length === 0) return;
+    onChange({ ...value, weekdays });
+  };
+
+  const setMonthlyMode = (mode: 'day' | 'weekday') => {
+    if (!value) return;
+    if (mode === 'day') {
+      onChange({ ...value, monthDay: value.monthDay || reference.getDate(), monthWeekday: undefined });
+    } else {
+      onChange({
+        ...value,
+        monthDay: undefined,
+        monthWeekday: value.monthWeekday || { weekday: reference.getDay(), week: 1 },
+      });
+    }
+  };
+
+  const until = value?.until ? new Date(value.until) : undefined;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          value={value?.frequency || 'none'}
+          onValueChange={v => handleFrequencyChange(v as RecurrenceFrequency | 'none')}
+        >
+          <SelectTrigger className="bg-surface-2 border-border text-foreground">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {frequencyOptions.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {value && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Every</span>
+            <Input
+              type="number"
+              min="1"
+              value={value.interval}
+              onChange={e => {
+                const interval = parseInt(e.target.value, 10);
+                onChange({ ...value, interval: interval > 0 ? interval : 1 });
+              }}
+              className="bg-surface-2 border-border text-foreground w-20"
+            />
+            <span className="text-sm text-muted-foreground">
+              {intervalUnits[value.frequency][value.interval === 1 ? 0 : 1]}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Weekly: weekday picker */}
+      {value?.frequency === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={cn(
+                'flex-1 px-2 py-1.5 rounded-md border text-xs font-medium transition-colors',
+                value.weekdays?.includes(day)
+                  ? 'bg-primary/10 border-primary text-primary'
+                  : 'bg-surface-2 border-border text-muted-foreground hover:border-muted-foreground'
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Monthly: day of month or nth weekday */}
+      {value?.frequency === 'monthly' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={value.monthWeekday ? 'weekday' : 'day'}
+            onValueChange={v => setMonthlyMode(v as 'day' | 'weekday')}
+          >
+            <SelectTrigger className="w-[140px] bg-surface-2 border-border text-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">On day</SelectItem>
+              <SelectItem value="weekday">On the</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {value.monthWeekday ? (
+            <>
+              <Select
+                value={String(value.monthWeekday.week)}
+                onValueChange={v => onChange({
+                  ...value,
+                  monthWeekday: { ...value.monthWeekday!, week: parseInt(v, 10) },
+                })}
+              >
+                <SelectTrigger className="w-[110px] bg-surface-2 border-border text-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {weekOptions.map(option => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={String(value.monthWeekday.weekday)}
+                onValueChange={v => onChange({
+                  ...value,
+                  monthWeekday: { ...value.monthWeekday!, weekday: parseInt(v, 10) },
+                })}
+              >
+                <SelectTrigger className="w-[100px] bg-surface-2 border-border text-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <SelectItem key={label} value={String(day)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          ) : (
+            <Input
+              type="number"
+              min="1"
+              max="31"
+              value={value.monthDay || ''}
+              onChange={e => {
+                const day = parseInt(e.target.value, 10);
+                onChange({ ...value, monthDay: day >= 1 && day <= 31 ? day : undefined });
+              }}
+              className="bg-surface-2 border-border text-foreground w-20"
+            />
+          )}
+        </div>
+      )}
+
+      {value && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Repeat className="h-3 w-3" />
+            {describeRecurrence(value)}
+          </p>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className={cn('text-xs', !until && 'text-muted-foreground')}
+              >
+                <CalendarIcon className="mr-1 h-3 w-3" />
+                {until ? `Ends ${format(until, 'MMM d, yyyy')}` : 'No end date'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0 bg-card border-border" align="end">
+              <Calendar
+                mode="single"
+                selected={until}
+                onSelect={date => onChange({ ...value, until: date ? date.toISOString() : undefined })}
+                initialFocus
+              />
+              {until && (
+                <div className="p-3 border-t border-border">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => onChange({ ...value, until: undefined })}
+                  >
+                    Clear end date
+                  </Button>
+                </div>
+              )}
+            </PopoverContent>
+          </Popover>
+        </div>
+      )}
+    </div>
+  );
+}
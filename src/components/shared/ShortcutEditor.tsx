@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { toast } from '@/hooks/use-toast';
+import {
+  MAX_SEQUENCE_LENGTH,
+  SEQUENCE_TIMEOUT_MS,
+  SHORTCUT_DEFINITIONS,
+  ShortcutAction,
+  findShortcutConflict,
+  getEventKey,
+  getShortcutBindings,
+} from '@/lib/shortcuts';
+import { ShortcutKeys } from '@/components/shared/ShortcutKeys';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+/**
+ * Lists every shortcut and lets the user record a new key sequence for it.
+ * Escape cancels recording, Backspace unbinds.
+ */
+export function ShortcutEditor() {
+  const { currentProfile, updateSettings } = useApp();
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [recordedKeys, setRecordedKeys] = useState<string[]>([]);
+  const finishTimerRef = useRef<number>();
+
+  const overrides = currentProfile.settings.shortcuts || {};
+  const bindings = getShortcutBindings(currentProfile.settings);
+
+  const saveBinding = (action: ShortcutAction, keys: string) => {
+    const definition = SHORTCUT_DEFINITIONS.find(d => d.action === action);
+    const next = { ...overrides };
+    if (keys === definition?.defaultKeys) {
+      delete next[action];
+    } else {
+      next[action] = keys;
+    }
+    updateSettings({ shortcuts: next });
+  };
+
+  // Keys another action already uses are refused with a toast
+  const saveBindingIfFree = (action: ShortcutAction, sequence: string) => {
+    const conflict = sequence && findShortcutConflict(bindings, action, sequence);
+    if (conflict) {
+      const label = SHORTCUT_DEFINITIONS.find(d => d.action === conflict)?.label;
+      toast({
+        title: 'Shortcut already in use',
+        description: `"${sequence}" clashes with "${label}". Rebind that one first.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    saveBinding(action, sequence);
+  };
+
+  // `null` keys unbind the action; an empty sequence cancels
+  const finishRecording = (action: ShortcutAction, keys: string[] | null) => {
+    setRecording(null);
+    setRecordedKeys([]);
+    if (keys === null) return saveBinding(action, '');
+    if (keys.length === 0) return;
+    saveBindingIfFree(action, keys.join(' '));
+  };
+
+  // The listener is re-registered per recording; the ref keeps the latest handler
+  const finishRecordingRef = useRef(finishRecording);
+  finishRecordingRef.current = finishRecording;
+
+  useEffect(() => {
+    if (!recording) return;
+    let keys: string[] = [];
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = getEventKey(e);
+      if (!key || e.ctrlKey || e.metaKey || e.altKey) return;
+      e.preventDefault();
+      e.stopPropagation();
+      window.clearTimeout(finishTimerRef.current);
+
+      if (key === 'Escape') {
+        finishRecordingRef.current(recording, []);
+        return;
+      }
+      if (key === 'Backspace' && keys.length === 0) {
+        finishRecordingRef.current(recording, null);
+        return;
+      }
+
+      keys = [...keys, key];
+      setRecordedKeys(keys);
+      if (keys.length >= MAX_SEQUENCE_LENGTH) {
+        finishRecordingRef.current(recording, keys);
+      } else {
+        finishTimerRef.current = window.setTimeout(
+          () => finishRecordingRef.current(recording, keys),
+          SEQUENCE_TIMEOUT_MS
+        );
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.clearTimeout(finishTimerRef.current);
+    };
+  }, [recording]);
+
+  const hasOverrides = Object.keys(overrides).length > 0;
+
+  return (
+    <div className="space-y-1">
+      {SHORTCUT_DEFINITIONS.map(definition => {
+        const isRecording = recording === definition.action;
+        const isCustom = definition.action in overrides;
+        return (
+          <div key={definition.action} className="flex items-center justify-between py-1.5">
+            <p className="text-sm text-foreground">{definition.label}</p>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setRecordedKeys([]);
+                  setRecording(isRecording ? null : definition.action);
+                }}
+                className={cn(
+                  'min-w-[120px] h-8 px-2 rounded-md border text-xs flex items-center justify-center',
+                  isRecording
+                    ? 'border-primary bg-primary/10 text-primary'
+                    : 'border-border bg-surface-2 hover:border-muted-foreground/30'
+                )}
+                title="Click, then press the new keys"
+              >
+                {isRecording ? (
+                  recordedKeys.length > 0 ? <ShortcutKeys keys={recordedKeys.join(' ')} /> : 'Press keys...'
+                ) : bindings[definition.action] ? (
+                  <ShortcutKeys keys={bindings[definition.action]} />
+                ) : (
+                  <span className="text-muted-foreground">Unbound</span>
+                )}
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn('h-8 w-8', !isCustom && 'invisible')}
+                onClick={() => saveBindingIfFree(definition.action, definition.defaultKeys)}
+                title="Reset to default"
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+      {hasOverrides && (
+        <div className="pt-2">
+          <Button variant="secondary" size="sm" onClick={() => updateSettings({ shortcuts: {} })}>
+            Reset all shortcuts
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { formatShortcutKeys } from '@/lib/shortcuts';
+
+interface ShortcutKeysProps {
+  keys: string;
+}
+
+/**
+ * Renders a key binding like "g t" as keycaps
+ */
+export function ShortcutKeys({ keys }: ShortcutKeysProps) {
+  return (
+    <span className="inline-flex items-center gap-1">
+      {formatShortcutKeys(keys).map((key, i) => (
+        <kbd
+          key={i}
+          className="min-w-6 px-1.5 py-0.5 rounded border border-border bg-surface-2 text-xs font-mono text-foreground text-center"
+        >
+          {key}
+        </kbd>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,229 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Camera, Eye, RotateCcw } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppData } from '@/lib/types';
+import {
+  SNAPSHOT_RETENTION_DAYS,
+  SnapshotCollection,
+  SnapshotInfo,
+  SnapshotReason,
+  createSnapshot,
+  diffSnapshot,
+  listSnapshots,
+  loadSnapshot,
+} from '@/lib/snapshots';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+const reasonLabels: Record<SnapshotReason, string> = {
+  daily: 'Daily',
+  manual: 'Manual',
+  reset: 'Before reset',
+  import: 'Before import',
+  restore: 'Before restore',
+};
+
+const diffLabels: { key: SnapshotCollection; label: string }[] = [
+  { key: 'profiles', label: 'Profiles' },
+  { key: 'areas', label: 'Areas' },
+  { key: 'projects', label: 'Projects' },
+  { key: 'tasks', label: 'Tasks' },
+  { key: 'ideas', label: 'Ideas' },
+  { key: 'tags', label: 'Tags' },
+];
+
+const ALL_PROFILES = '__all__';
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * What restoring a snapshot would change, with buttons to restore all of it
+ * or one of its profiles
+ */
+function SnapshotPreview({ snapshot, onRestored }: { snapshot: AppData; onRestored: () => void }) {
+  const { data, restoreSnapshot } = useApp();
+  const [profileId, setProfileId] = useState(ALL_PROFILES);
+  const [restoring, setRestoring] = useState(false);
+
+  if (!data) return null;
+  const scope = profileId === ALL_PROFILES ? undefined : profileId;
+  const diff = diffSnapshot(data, snapshot, scope);
+  const rows = diffLabels.filter(({ key }) => diff[key].added + diff[key].changed + diff[key].removed > 0);
+
+  const handleRestore = async () => {
+    setRestoring(true);
+    await restoreSnapshot(snapshot, scope);
+    setRestoring(false);
+    onRestored();
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border bg-surface-2 p-4 animate-fade-in">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-foreground">Restoring changes your current data like this:</p>
+        <Select value={profileId} onValueChange={setProfileId}>
+          <SelectTrigger className="w-[180px] h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_PROFILES}>All profiles</SelectItem>
+            {snapshot.profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>Only {profile.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rows.length > 0 ? (
+        <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-4 gap-y-1 text-sm">
+          {rows.map(({ key, label }) => (
+            <div key={key} className="contents">
+              <span className="text-muted-foreground">{label}</span>
+              <span className={cn(diff[key].added > 0 ? 'text-status-done' : 'text-muted-foreground/50')}>
+                +{diff[key].added}
+              </span>
+              <span className={cn(diff[key].changed > 0 ? 'text-priority-high' : 'text-muted-foreground/50')}>
+                ~{diff[key].changed}
+              </span>
+              <span className={cn(diff[key].removed > 0 ? 'text-destructive' : 'text-muted-foreground/50')}>
+                −{diff[key].removed}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No differences from your current data.</p>
+      )}
+
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleRestore} disabled={restoring || rows.length === 0}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          {scope ? 'Restore this profile' : 'Restore everything'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Automatic and manual snapshots of all data, with preview and restore
+ */
+export function SnapshotsPanel() {
+  const { user } = useAuth();
+  const { data } = useApp();
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<AppData | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setSnapshots(await listSnapshots(user.id));
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleCreate = async () => {
+    if (!user || !data) return;
+    setBusy(true);
+    const success = await createSnapshot(user.id, data, 'manual');
+    setBusy(false);
+    if (success) {
+      toast({ title: 'Snapshot saved' });
+      refresh();
+    } else {
+      toast({ title: 'Failed to save snapshot', variant: 'destructive' });
+    }
+  };
+
+  const handlePreview = async (id: string) => {
+    if (!user) return;
+    if (previewId === id) {
+      setPreviewId(null);
+      return;
+    }
+    setPreviewId(id);
+    setPreview(null);
+    try {
+      const snapshot = await loadSnapshot(user.id, id);
+      if (!snapshot) throw new Error('Failed to load snapshot');
+      setPreview(snapshot);
+    } catch (error) {
+      setPreviewId(null);
+      toast({
+        title: "Can't open snapshot",
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Taken daily and before every reset, import and restore. Kept for {SNAPSHOT_RETENTION_DAYS} days.
+        </p>
+        <Button variant="secondary" onClick={handleCreate} disabled={busy || !data}>
+          <Camera className="h-4 w-4 mr-2" />
+          Take Snapshot
+        </Button>
+      </div>
+
+      {snapshots === null ? (
+        <p className="text-sm text-muted-foreground">Loading snapshots...</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No snapshots yet</p>
+      ) : (
+        <div className="space-y-2">
+          {snapshots.map(snapshot => (
+            <div key={snapshot.id} className="space-y-2">
+              <div className="flex items-center gap-3 rounded-lg border border-border px-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground">
+                    {format(new Date(snapshot.createdAt), 'PPp')}
+                    <span className="ml-2 text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded-full">
+                      {reasonLabels[snapshot.reason] ?? snapshot.reason}
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {snapshot.summary.profiles} profiles · {snapshot.summary.projects} projects ·{' '}
+                    {snapshot.summary.tasks} tasks · {snapshot.summary.ideas} ideas · {formatSize(snapshot.sizeBytes)}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handlePreview(snapshot.id)}>
+                  <Eye className="h-4 w-4 mr-2" />
+                  {previewId === snapshot.id ? 'Close' : 'Preview'}
+                </Button>
+              </div>
+              {previewId === snapshot.id && (preview ? (
+                <SnapshotPreview
+                  snapshot={preview}
+                  onRestored={() => {
+                    setPreviewId(null);
+                    refresh();
+                  }}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground px-4">Loading snapshot...</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
+import { useState } from 'react';
 import { format, isToday, isTomorrow, isPast } from 'date-fns';
-import { Calendar, CheckCircle2, Circle, Clock, GripVertical, MoreHorizontal, Sun } from 'lucide-react';
+import { Calendar, CheckCircle2, ChevronDown, ChevronRight, Circle, Clock, CornerDownRight, GripVertical, Link2, ListTree, MoreHorizontal, Plus, Repeat, Sun } from 'lucide-react';
 import { Task, Priority } from '@/lib/types';
 import { useApp } from '@/contexts/AppContext';
 import { cn } from '@/lib/utils';
+import { describeRecurrence } from '@/lib/recurrence';
+import { getDependents, getOpenBlockers } from '@/lib/dependencies';
+import { getChildTasks, getTaskRollup } from '@/lib/subtasks';
+import { formatMinutes } from '@/lib/timeTracking';
+import { TaskTimerButton } from '@/components/shared/TaskTimerButton';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,6 +23,7 @@ import {
 interface TaskCardProps {
   task: Task;
   showProject?: boolean;
+  isDraggable?: boolean;
 }
 
 const priorityColors: Record<Priority, string> = {
@@ -31,8 +40,21 @@ const priorityDots: Record<Priority, string> = {
   low: 'bg-priority-low',
 };
 
-export function TaskCard({ task, showProject = true }: TaskCardProps) {
-  const { currentProfile, updateTaskStatus, toggleTaskToday, deleteTask, setSelectedTaskId } = useApp();
+export function TaskCard({ task, showProject = true, isDraggable = true }: TaskCardProps) {
+  const {
+    currentProfile,
+    updateTaskStatus,
+    toggleTaskToday,
+    deleteTask,
+    setSelectedTaskId,
+    highlightedTaskId,
+    setHighlightedTaskId,
+    createSubtask,
+    toggleChecklistItem,
+  } = useApp();
+  const [showAddSubtask, setShowAddSubtask] = useState(false);
+  const [checklistExpanded, setChecklistExpanded] = useState(false);
+  const [subtaskTitle, setSubtaskTitle] = useState('');
 
   const project = task.projectId 
     ? currentProfile.projects.find(p => p.id === task.projectId)
@@ -43,6 +65,15 @@ export function TaskCard({ task, showProject = true }: TaskCardProps) {
     : null;
 
   const isDone = task.status === 'done';
+  const openBlockers = getOpenBlockers(task, currentProfile.tasks);
+  const dependents = getDependents(task.id, currentProfile.tasks).filter(t => t.status !== 'done');
+  const hasSubtasks = getChildTasks(task.id, currentProfile.tasks).length > 0;
+  const rollup = hasSubtasks ? getTaskRollup(task, currentProfile.tasks) : null;
+  const estimateMinutes = rollup ? rollup.estimateMinutes : task.estimateMinutes;
+  const spentMinutes = rollup ? rollup.timeSpentMinutes : task.timeSpentMinutes;
+  const parentTask = task.parentTaskId
+    ? currentProfile.tasks.find(t => t.id === task.parentTaskId)
+    : null;
 
   const formatDueDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -57,6 +88,13 @@ export function TaskCard({ task, showProject = true }: TaskCardProps) {
     updateTaskStatus(task.id, isDone ? 'todo' : 'done');
   };
 
+  const handleAddSubtask = () => {
+    if (!subtaskTitle.trim()) return;
+    createSubtask(task.id, subtaskTitle.trim());
+    setSubtaskTitle('');
+    setShowAddSubtask(false);
+  };
+
   const handleDoubleClick = (e: React.MouseEvent) => {
     // Prevent double-click from triggering drag
     e.stopPropagation();
@@ -71,8 +109,11 @@ export function TaskCard({ task, showProject = true }: TaskCardProps) {
         priorityColors[task.priority],
         'border-l-2',
         isDone && 'opacity-60',
-        'cursor-grab active:cursor-grabbing'
+        isDraggable && 'cursor-grab active:cursor-grabbing',
+        highlightedTaskId === task.id && 'ring-2 ring-primary/60'
       )}
+      data-task-id={task.id}
+      onClick={() => setHighlightedTaskId(task.id)}
       onDoubleClick={handleDoubleClick}
     >
       <div className="flex gap-3">
@@ -123,19 +164,47 @@ export function TaskCard({ task, showProject = true }: TaskCardProps) {
                   <Sun className="h-4 w-4 mr-2" />
                   {task.isToday ? 'Remove from Today' : 'Add to Today'}
                 </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem 
-                  onClick={() => deleteTask(task.id)}
-                  className="text-destructive focus:text-destructive"
-                >
-                  Delete
+                <DropdownMenuItem onClick={() => setShowAddSubtask(true)}>
+                  <ListTree className="h-4 w-4 mr-2" />
+                  Add Subtask
                 </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {hasSubtasks ? (
+                  <>
+                    <DropdownMenuItem 
+                      onClick={() => deleteTask(task.id, { keepSubtasks: true })}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      Delete, keep subtasks
+                    </DropdownMenuItem>
+                    <DropdownMenuItem 
+                      onClick={() => deleteTask(task.id)}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      Delete with subtasks
+                    </DropdownMenuItem>
+                  </>
+                ) : (
+                  <DropdownMenuItem 
+                    onClick={() => deleteTask(task.id)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    Delete
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
 
           {/* Meta Info */}
           <div className="flex flex-wrap items-center gap-2 mt-2">
+            {parentTask && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <CornerDownRight className="h-3 w-3" />
+                {parentTask.title}
+              </span>
+            )}
+
             {showProject && project && (
               <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded">
                 {project.title}
@@ -152,6 +221,35 @@ export function TaskCard({ task, showProject = true }: TaskCardProps) {
               </span>
             )}
 
+            {task.recurrence && (
+              <span
+                className="flex items-center gap-1 text-xs text-muted-foreground"
+                title={describeRecurrence(task.recurrence)}
+              >
+                <Repeat className="h-3 w-3" />
+              </span>
+            )}
+
+            {openBlockers.length > 0 && (
+              <span
+                className="flex items-center gap-1 text-xs text-status-blocked"
+                title={`Waiting on: ${openBlockers.map(t => t.title).join(', ')}`}
+              >
+                <Link2 className="h-3 w-3" />
+                Blocked by {openBlockers.length === 1 ? openBlockers[0].title : `${openBlockers.length} tasks`}
+              </span>
+            )}
+
+            {dependents.length > 0 && !isDone && (
+              <span
+                className="flex items-center gap-1 text-xs text-muted-foreground"
+                title={`Blocking: ${dependents.map(t => t.title).join(', ')}`}
+              >
+                <Link2 className="h-3 w-3" />
+                Blocks {dependents.length}
+              </span>
+            )}
+
             {task.isToday && !isDone && (
               <span className="flex items-center gap-1 text-xs text-primary">
                 <Sun className="h-3 w-3" />
@@ -159,10 +257,27 @@ export function TaskCard({ task, showProject = true }: TaskCardProps) {
               </span>
             )}
 
-            {task.estimateMinutes && (
-              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            {(estimateMinutes > 0 || spentMinutes > 0) && (
+              <span
+                className={cn(
+                  'flex items-center gap-1 text-xs',
+                  estimateMinutes > 0 && spentMinutes > estimateMinutes ? 'text-destructive' : 'text-muted-foreground'
+                )}
+                title={spentMinutes > 0 ? 'Tracked / estimated' : 'Estimated'}
+              >
                 <Clock className="h-3 w-3" />
-                {task.estimateMinutes}m
+                {spentMinutes > 0 && formatMinutes(spentMinutes)}
+                {spentMinutes > 0 && estimateMinutes > 0 && ' / '}
+                {estimateMinutes > 0 && formatMinutes(estimateMinutes)}
+              </span>
+            )}
+
+            {!isDone && <TaskTimerButton task={task} />}
+
+            {rollup && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <ListTree className="h-3 w-3" />
+                {rollup.completedSubtasks}/{rollup.totalSubtasks}
               </span>
             )}
 
@@ -170,9 +285,43 @@ export function TaskCard({ task, showProject = true }: TaskCardProps) {
             <span className={cn('h-2 w-2 rounded-full', priorityDots[task.priority])} />
           </div>
 
+          {/* Inline subtask form */}
+          {showAddSubtask && (
+            <div
+              className="mt-2 flex gap-2"
+              onMouseDown={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => e.stopPropagation()}
+            >
+              <Input
+                placeholder="Subtask title..."
+                value={subtaskTitle}
+                onChange={e => setSubtaskTitle(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') handleAddSubtask();
+                  if (e.key === 'Escape') setShowAddSubtask(false);
+                }}
+                autoFocus
+                className="h-8 bg-surface-2 border-border text-sm"
+              />
+              <Button size="sm" className="h-8" onClick={handleAddSubtask} disabled={!subtaskTitle.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
           {/* Checklist Progress */}
           {checklistProgress !== null && (
-            <div className="mt-2 flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setChecklistExpanded(!checklistExpanded)}
+              onMouseDown={(e) => e.stopPropagation()}
+              className="mt-2 w-full flex items-center gap-2"
+            >
+              {checklistExpanded ? (
+                <ChevronDown className="h-3 w-3 text-muted-foreground" />
+              ) : (
+                <ChevronRight className="h-3 w-3 text-muted-foreground" />
+              )}
               <div className="flex-1 h-1 bg-muted rounded-full overflow-hidden">
                 <div 
                   className="h-full bg-primary rounded-full transition-all duration-300"
@@ -182,6 +331,27 @@ export function TaskCard({ task, showProject = true }: TaskCardProps) {
               <span className="text-xs text-muted-foreground">
                 {task.checklistItems.filter(c => c.done).length}/{task.checklistItems.length}
               </span>
+            </button>
+          )}
+
+          {/* Expanded checklist with inline ticking */}
+          {checklistExpanded && task.checklistItems.length > 0 && (
+            <div
+              className="mt-2 space-y-1.5"
+              onMouseDown={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => e.stopPropagation()}
+            >
+              {task.checklistItems.map(item => (
+                <label key={item.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={item.done}
+                    onCheckedChange={() => toggleChecklistItem(task.id, item.id)}
+                  />
+                  <span className={cn(item.done ? 'line-through text-muted-foreground' : 'text-foreground')}>
+                    {item.content}
+                  </span>
+                </label>
+              ))}
             </div>
           )}
         </div>
@@ -0,0 +1,51 @@
+import { Play, Square } from 'lucide-react';
+import { Task } from '@/lib/types';
+import { useApp } from '@/contexts/AppContext';
+import { useNow } from '@/hooks/use-now';
+import { formatDuration, getEntryDurationMs } from '@/lib/timeTracking';
+import { cn } from '@/lib/utils';
+
+interface TaskTimerButtonProps {
+  task: Task;
+  className?: string;
+}
+
+/**
+ * Start/stop control for a task's time tracker, showing elapsed time while running
+ */
+export function TaskTimerButton({ task, className }: TaskTimerButtonProps) {
+  const { startTimer, stopTimer } = useApp();
+  const runningEntry = task.timeEntries?.find(e => !e.end);
+  const now = useNow(!!runningEntry);
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (runningEntry) {
+          stopTimer();
+        } else {
+          startTimer(task.id);
+        }
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      className={cn(
+        'flex items-center gap-1 text-xs transition-colors',
+        runningEntry ? 'text-primary' : 'text-muted-foreground hover:text-primary',
+        className
+      )}
+      title={runningEntry ? 'Stop timer' : 'Start timer'}
+    >
+      {runningEntry ? (
+        <>
+          <Square className="h-3 w-3 fill-current" />
+          <span className="tabular-nums">{formatDuration(getEntryDurationMs(runningEntry, now))}</span>
+        </>
+      ) : (
+        <Play className="h-3 w-3" />
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,60 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Task } from '@/lib/types';
+import { buildTaskTree } from '@/lib/subtasks';
+import { TaskCard } from '@/components/shared/TaskCard';
+
+interface TaskTreeListProps {
+  tasks: Task[];
+  showProject?: boolean;
+}
+
+/**
+ * Renders a task list with subtasks indented under their parents
+ */
+export function TaskTreeList({ tasks, showProject = true }: TaskTreeListProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const nodes = useMemo(() => buildTaskTree(tasks), [tasks]);
+
+  // Hide every node that sits below a collapsed ancestor
+  const visibleNodes = useMemo(() => {
+    let hiddenBelowDepth: number | null = null;
+    return nodes.filter(node => {
+      if (hiddenBelowDepth !== null && node.depth > hiddenBelowDepth) return false;
+      hiddenBelowDepth = collapsed.has(node.task.id) ? node.depth : null;
+      return true;
+    });
+  }, [nodes, collapsed]);
+
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {visibleNodes.map(({ task, depth, hasChildren }) => (
+        <div key={task.id} className="flex items-start gap-1" style={{ paddingLeft: depth * 24 }}>
+          <button
+            onClick={() => toggleCollapsed(task.id)}
+            className="mt-3.5 h-4 w-4 shrink-0 text-muted-foreground hover:text-foreground disabled:invisible"
+            disabled={!hasChildren}
+          >
+            {collapsed.has(task.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </button>
+          <div className="flex-1 min-w-0">
+            <TaskCard task={task} showProject={showProject} isDraggable={false} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { format } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { Task } from '@/lib/types';
+import { useApp } from '@/contexts/AppContext';
+import { formatMinutes, getEntryDurationMs } from '@/lib/timeTracking';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface TimeEntriesEditorProps {
+  task: Task;
+}
+
+const toInputValue = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+/**
+ * Editable list of a task's recorded time entries
+ */
+export function TimeEntriesEditor({ task }: TimeEntriesEditorProps) {
+  const { addTimeEntry, updateTimeEntry, deleteTimeEntry } = useApp();
+  const entries = [...(task.timeEntries || [])].sort(
+    (a, b) => new Date(b.start).getTime() - new Date(a.start).getTime()
+  );
+
+  const handleAdd = () => {
+    // Manual entries default to the last 30 minutes
+    const end = new Date();
+    const start = new Date(end.getTime() - 30 * 60000);
+    addTimeEntry(task.id, { start: start.toISOString(), end: end.toISOString() });
+  };
+
+  const handleTimeChange = (entryId: string, field: 'start' | 'end', value: string) => {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return;
+    updateTimeEntry(task.id, entryId, { [field]: date.toISOString() });
+  };
+
+  return (
+    <div className="space-y-2">
+      {entries.map(entry => (
+        <div key={entry.id} className="space-y-1 px-3 py-2 rounded-md bg-surface-2 border border-border">
+          <div className="flex items-center gap-2">
+            <Input
+              type="datetime-local"
+              value={toInputValue(entry.start)}
+              onChange={e => handleTimeChange(entry.id, 'start', e.target.value)}
+              className="h-8 bg-card border-border text-xs"
+            />
+            <span className="text-muted-foreground text-xs">→</span>
+            {entry.end ? (
+              <Input
+                type="datetime-local"
+                value={toInputValue(entry.end)}
+                onChange={e => handleTimeChange(entry.id, 'end', e.target.value)}
+                className="h-8 bg-card border-border text-xs"
+              />
+            ) : (
+              <span className="flex-1 text-xs text-primary">Running</span>
+            )}
+            <span className="w-16 text-right text-xs text-muted-foreground tabular-nums">
+              {formatMinutes(Math.round(getEntryDurationMs(entry) / 60000))}
+            </span>
+            <button
+              type="button"
+              onClick={() => deleteTimeEntry(task.id, entry.id)}
+              className="text-muted-foreground hover:text-destructive"
+              title="Delete entry"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <input
+            defaultValue={entry.note || ''}
+            onBlur={e => {
+              const note = e.target.value.trim() || undefined;
+              if (note !== entry.note) updateTimeEntry(task.id, entry.id, { note });
+            }}
+            placeholder="Add a note..."
+            className="w-full bg-transparent text-xs text-foreground outline-none placeholder:text-muted-foreground"
+          />
+        </div>
+      ))}
+      <Button type="button" variant="ghost" size="sm" onClick={handleAdd}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add time entry
+      </Button>
+    </div>
+  );
+}
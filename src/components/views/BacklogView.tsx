@@ -1,7 +1,8 @@
 import { useMemo } from 'react';
 import { Inbox, Plus } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
-import { TaskCard } from '@/components/shared/TaskCard';
+import { TaskTreeList } from '@/components/shared/TaskTreeList';
+import { CsvExportButton } from '@/components/shared/CsvExportButton';
 import { Button } from '@/components/ui/button';
 
 export function BacklogView() {
@@ -31,19 +32,18 @@ export function BacklogView() {
             <p className="text-muted-foreground">Unscheduled tasks waiting to be planned</p>
           </div>
         </div>
-        <Button onClick={() => setQuickAddOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Task
-        </Button>
+        <div className="flex items-center gap-2">
+          <CsvExportButton entity="tasks" items={backlogTasks} name="Backlog" />
+          <Button onClick={() => setQuickAddOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Task
+          </Button>
+        </div>
       </div>
 
       {/* Tasks */}
       {backlogTasks.length > 0 ? (
-        <div className="space-y-2">
-          {backlogTasks.map(task => (
-            <TaskCard key={task.id} task={task} isDraggable={false} />
-          ))}
-        </div>
+        <TaskTreeList tasks={backlogTasks} />
       ) : (
         <div className="text-center py-16 bg-card rounded-xl border border-border">
           <Inbox className="h-16 w-16 text-muted-foreground/20 mx-auto mb-4" />
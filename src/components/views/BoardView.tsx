@@ -1,9 +1,10 @@
-import React, { useMemo, useState, useEffect } from 'react';
+import { useMemo, useState, useEffect } from 'react';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 import { CheckSquare, Filter } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
 import { Task, TaskStatus } from '@/lib/types';
 import { TaskCard } from '@/components/shared/TaskCard';
+import { CsvExportButton } from '@/components/shared/CsvExportButton';
 import { cn } from '@/lib/utils';
 import {
   Select,
@@ -23,35 +24,17 @@ const COLUMNS: { id: TaskStatus; label: string; color: string }[] = [
 
 
 export function BoardView() {
-  const { currentProfile, updateTaskStatus, updateTask } = useApp();
+  const { currentProfile, updateTaskStatus, updateTask, batch } = useApp();
   const [projectFilter, setProjectFilter] = useState<string>('all');
   const [areaFilter, setAreaFilter] = useState<string>('all');
-  // Local optimistic state for tasks
-  const [localTasks, setLocalTasks] = useState<Task[]>(currentProfile.tasks);
-  const lastTaskCountRef = React.useRef(currentProfile.tasks.length);
+  // Optimistic copy of the tasks for a drop that is being saved; the context
+  // tasks take over again as soon as they change
+  const [droppedTasks, setDroppedTasks] = useState<Task[] | null>(null);
+  const localTasks = droppedTasks ?? currentProfile.tasks;
 
-  // Sync local tasks with context when tasks are added/removed (not reordered)
   useEffect(() => {
-    const currentTaskCount = currentProfile.tasks.length;
-    
-    // If task count changed, sync (task was added or deleted)
-    if (currentTaskCount !== lastTaskCountRef.current) {
-      setLocalTasks(currentProfile.tasks);
-      lastTaskCountRef.current = currentTaskCount;
-      return;
-    }
-
-    // Check if any task IDs are missing (task was deleted)
-    const localTaskIds = new Set(localTasks.map(t => t.id));
-    const contextTaskIds = new Set(currentProfile.tasks.map(t => t.id));
-    const hasMissingTasks = Array.from(localTaskIds).some(id => !contextTaskIds.has(id));
-    const hasNewTasks = Array.from(contextTaskIds).some(id => !localTaskIds.has(id));
-
-    if (hasMissingTasks || hasNewTasks) {
-      setLocalTasks(currentProfile.tasks);
-      lastTaskCountRef.current = currentTaskCount;
-    }
-  }, [currentProfile.tasks, localTasks]);
+    setDroppedTasks(null);
+  }, [currentProfile.tasks]);
 
   const filteredTasks = useMemo(() => {
     return localTasks.filter(task => {
@@ -213,10 +196,10 @@ export function BoardView() {
     }
 
     // Optimistically update local state immediately
-    setLocalTasks(updatedTasks);
+    setDroppedTasks(updatedTasks);
 
-    // Then persist changes to context (async) - batch updates
-    updatedTasks.forEach(updatedTask => {
+    // Then persist all changes to context as one atomic update
+    batch(() => updatedTasks.forEach(updatedTask => {
       const originalTask = currentProfile.tasks.find(t => t.id === updatedTask.id);
       if (originalTask) {
         // If status changed, use updateTaskStatus (which also updates order if needed)
@@ -231,7 +214,7 @@ export function BoardView() {
           updateTask(updatedTask.id, { order: updatedTask.order });
         }
       }
-    });
+    }), 'Move task');
   };
 
   return (
@@ -279,6 +262,8 @@ export function BoardView() {
                 ))}
               </SelectContent>
             </Select>
+
+            <CsvExportButton entity="tasks" items={filteredTasks} name="Board" />
           </div>
         </div>
       </div>
@@ -2,6 +2,7 @@ import { useMemo, useState } from 'react';
 import { Lightbulb, Plus, Search, Archive } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
 import { IdeaCard } from '@/components/shared/IdeaCard';
+import { CsvExportButton } from '@/components/shared/CsvExportButton';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 
@@ -42,10 +43,13 @@ export function IdeasView() {
             <p className="text-muted-foreground">Capture and organize your ideas</p>
           </div>
         </div>
-        <Button onClick={() => setQuickAddOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Idea
-        </Button>
+        <div className="flex items-center gap-2">
+          <CsvExportButton entity="ideas" items={ideas} name="Ideas" />
+          <Button onClick={() => setQuickAddOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Idea
+          </Button>
+        </div>
       </div>
 
       {/* Search & Filter */}
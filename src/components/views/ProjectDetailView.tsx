@@ -1,12 +1,16 @@
 import { useMemo, useState } from 'react';
-import { ArrowLeft, Plus, MoreHorizontal, Edit, Trash2 } from 'lucide-react';
+import { ArrowLeft, Plus, MoreHorizontal, Edit, Trash2, Link2, CheckCircle2, Circle, Upload } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
-import { TaskCard } from '@/components/shared/TaskCard';
+import { TaskTreeList } from '@/components/shared/TaskTreeList';
+import { CsvExportButton } from '@/components/shared/CsvExportButton';
+import { CsvImportDialog } from '@/components/dialogs/CsvImportDialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Input } from '@/components/ui/input';
 import { ProjectStatus, Priority } from '@/lib/types';
+import { getDependencyChain } from '@/lib/dependencies';
+import { cn } from '@/lib/utils';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -40,10 +44,12 @@ export function ProjectDetailView() {
     createTask,
     updateProject,
     deleteProject,
+    setSelectedTaskId,
   } = useApp();
 
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [showAddTask, setShowAddTask] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
 
   const project = currentProfile.projects.find(p => p.id === selectedProjectId);
   
@@ -61,6 +67,14 @@ export function ProjectDetailView() {
       });
   }, [project, currentProfile.tasks]);
 
+  // Tasks in this project with upstream dependencies, along with their full chain
+  const dependencyChains = useMemo(() => {
+    return tasks
+      .filter(t => t.blockedBy && t.blockedBy.length > 0 && t.status !== 'done')
+      .map(task => ({ task, chain: getDependencyChain(task, currentProfile.tasks) }))
+      .filter(entry => entry.chain.length > 0);
+  }, [tasks, currentProfile.tasks]);
+
   const area = project ? currentProfile.areas.find(a => a.id === project.areaId) : null;
   const completedTasks = tasks.filter(t => t.status === 'done').length;
   const progress = tasks.length > 0 ? (completedTasks / tasks.length) * 100 : 0;
@@ -200,15 +214,79 @@ export function ProjectDetailView() {
         </div>
       </div>
 
+      {/* Dependencies */}
+      {dependencyChains.length > 0 && (
+        <section className="bg-card rounded-xl border border-border p-6 mb-6">
+          <div className="flex items-center gap-2 mb-4">
+            <Link2 className="h-4 w-4 text-muted-foreground" />
+            <h2 className="text-lg font-semibold text-foreground">Dependencies</h2>
+          </div>
+          <div className="space-y-4">
+            {dependencyChains.map(({ task, chain }) => (
+              <div key={task.id}>
+                <button
+                  onClick={() => setSelectedTaskId(task.id)}
+                  className="text-sm font-medium text-foreground hover:text-primary"
+                >
+                  {task.title}
+                </button>
+                <div className="mt-1 space-y-1">
+                  {chain.map(({ task: blocker, depth }) => {
+                    const blockerProject = blocker.projectId !== project.id
+                      ? currentProfile.projects.find(p => p.id === blocker.projectId)
+                      : null;
+                    return (
+                      <div
+                        key={blocker.id}
+                        className="flex items-center gap-2 text-sm"
+                        style={{ paddingLeft: depth * 16 }}
+                      >
+                        {blocker.status === 'done' ? (
+                          <CheckCircle2 className="h-3.5 w-3.5 text-status-done shrink-0" />
+                        ) : (
+                          <Circle className="h-3.5 w-3.5 text-status-blocked shrink-0" />
+                        )}
+                        <button
+                          onClick={() => setSelectedTaskId(blocker.id)}
+                          className={cn(
+                            'truncate hover:text-primary',
+                            blocker.status === 'done' ? 'line-through text-muted-foreground' : 'text-foreground'
+                          )}
+                        >
+                          {blocker.title}
+                        </button>
+                        {blockerProject && (
+                          <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded">
+                            {blockerProject.title}
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Tasks Section */}
       <section>
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-semibold text-foreground">Tasks</h2>
-          <Button size="sm" onClick={() => setShowAddTask(true)}>
-            <Plus className="h-4 w-4 mr-1" />
-            Add Task
-          </Button>
+          <div className="flex items-center gap-2">
+            <CsvExportButton entity="tasks" items={tasks} name={project.title} />
+            <Button variant="outline" size="sm" onClick={() => setShowCsvImport(true)}>
+              <Upload className="h-4 w-4 mr-1" />
+              Import CSV
+            </Button>
+            <Button size="sm" onClick={() => setShowAddTask(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Task
+            </Button>
+          </div>
         </div>
+        <CsvImportDialog key={project.id} open={showCsvImport} onOpenChange={setShowCsvImport} projectId={project.id} />
 
         {/* Add Task Form */}
         {showAddTask && (
@@ -230,11 +308,7 @@ export function ProjectDetailView() {
 
         {/* Task List */}
         {tasks.length > 0 ? (
-          <div className="space-y-2">
-            {tasks.map(task => (
-              <TaskCard key={task.id} task={task} showProject={false} isDraggable={false} />
-            ))}
-          </div>
+          <TaskTreeList tasks={tasks} showProject={false} />
         ) : (
           <div className="text-center py-12 bg-card rounded-xl border border-border">
             <p className="text-muted-foreground mb-4">No tasks yet</p>
@@ -2,6 +2,7 @@ import { useMemo, useState } from 'react';
 import { FolderKanban, Plus, Search, LayoutGrid, List, Archive } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
 import { ProjectCard } from '@/components/shared/ProjectCard';
+import { CsvExportButton } from '@/components/shared/CsvExportButton';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ProjectStatus } from '@/lib/types';
@@ -60,10 +61,13 @@ export function ProjectsView() {
             <p className="text-muted-foreground">Manage your projects and goals</p>
           </div>
         </div>
-        <Button onClick={() => setQuickAddOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          New Project
-        </Button>
+        <div className="flex items-center gap-2">
+          <CsvExportButton entity="projects" items={projects} name="Projects" />
+          <Button onClick={() => setQuickAddOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Project
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -8,13 +8,16 @@ import {
   Trash2, 
   User,
   Palette,
+  Target,
+  Keyboard,
+  History,
+  CalendarDays,
 } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -33,9 +36,34 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { exportData, importData } from '@/lib/supabaseStorage';
+import { exportData } from '@/lib/supabaseStorage';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
+import { getFocusSettings } from '@/lib/focus';
+import { getTrashRetentionDays } from '@/lib/trash';
+import { exportMarkdownVault } from '@/lib/markdown';
+import { createZip } from '@/lib/zip';
+import { FocusSettings } from '@/lib/types';
+import { ShortcutEditor } from '@/components/shared/ShortcutEditor';
+import { JsonImportForm } from '@/components/shared/JsonImportForm';
+import { ExternalImportForm } from '@/components/shared/ExternalImportForm';
+import { MarkdownImportForm } from '@/components/shared/MarkdownImportForm';
+import { SnapshotsPanel } from '@/components/shared/SnapshotsPanel';
+import { CalendarExportPanel } from '@/components/shared/CalendarExportPanel';
+
+const focusFields: { key: keyof FocusSettings; label: string; description: string; max: number }[] = [
+  { key: 'workMinutes', label: 'Focus length', description: 'Minutes per work interval', max: 180 },
+  { key: 'shortBreakMinutes', label: 'Short break', description: 'Minutes between intervals', max: 60 },
+  { key: 'longBreakMinutes', label: 'Long break', description: 'Minutes for the longer rest', max: 120 },
+  { key: 'longBreakEvery', label: 'Long break every', description: 'Work intervals before a long break', max: 12 },
+];
+
+const trashRetentionOptions = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Never' },
+];
 
 export function SettingsView() {
   const { user } = useAuth();
@@ -50,8 +78,8 @@ export function SettingsView() {
   }
   
   const [profileName, setProfileName] = useState(currentProfile.name);
-  const [importJson, setImportJson] = useState('');
-  const [showImport, setShowImport] = useState(false);
+  const [showImport, setShowImport] = useState<'json' | 'apps' | 'markdown' | null>(null);
+  const focusSettings = getFocusSettings(currentProfile.settings);
 
   const handleExport = async () => {
     if (!user) return;
@@ -69,22 +97,21 @@ export function SettingsView() {
     });
   };
 
-  const handleImport = async () => {
-    if (!user) return;
-    const result = await importData(user.id, importJson);
-    if (result.success) {
-      toast({
-        title: 'Data imported',
-        description: 'Your data has been imported successfully. Refreshing...',
-      });
-      setTimeout(() => window.location.reload(), 1000);
-    } else {
-      toast({
-        title: 'Import failed',
-        description: result.error,
-        variant: 'destructive',
-      });
-    }
+  const handleExportMarkdown = () => {
+    const blob = createZip(exportMarkdownVault(currentProfile).map(file => ({
+      ...file,
+      path: `${currentProfile.name.replace(/[\\/:*?"<>|]/g, '').trim() || 'Life PM'}/${file.path}`,
+    })));
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `life-pm-vault-${new Date().toISOString().split('T')[0]}.zip`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast({
+      title: 'Vault exported',
+      description: 'Unzip it into your Obsidian vault or any Markdown folder.',
+    });
   };
 
   const handleRename = () => {
@@ -189,6 +216,50 @@ export function SettingsView() {
           </div>
         </section>
 
+        {/* Focus Mode */}
+        <section className="bg-card rounded-xl border border-border p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <Target className="h-5 w-5 text-muted-foreground" />
+            <h2 className="font-semibold text-foreground">Focus Mode</h2>
+          </div>
+
+          <div className="space-y-4">
+            {focusFields.map(field => (
+              <div key={field.key} className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-foreground">{field.label}</p>
+                  <p className="text-sm text-muted-foreground">{field.description}</p>
+                </div>
+                <Input
+                  type="number"
+                  min="1"
+                  max={field.max}
+                  value={focusSettings[field.key]}
+                  onChange={e => {
+                    const value = parseInt(e.target.value, 10);
+                    if (value >= 1 && value <= field.max) {
+                      updateSettings({ focus: { ...focusSettings, [field.key]: value } });
+                    }
+                  }}
+                  className="w-[120px] bg-surface-2 border-border"
+                />
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Keyboard Shortcuts */}
+        <section className="bg-card rounded-xl border border-border p-6">
+          <div className="flex items-center gap-2 mb-1">
+            <Keyboard className="h-5 w-5 text-muted-foreground" />
+            <h2 className="font-semibold text-foreground">Keyboard Shortcuts</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Click a binding and press the new key or two-key sequence. Press ? anywhere to see them all.
+          </p>
+          <ShortcutEditor />
+        </section>
+
         {/* Data Management */}
         <section className="bg-card rounded-xl border border-border p-6">
           <div className="flex items-center gap-2 mb-4">
@@ -198,6 +269,26 @@ export function SettingsView() {
 
           <div className="space-y-4">
             <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium text-foreground">Empty trash after</p>
+                <p className="text-sm text-muted-foreground">Deleted items are purged once they've been in the trash this long</p>
+              </div>
+              <Select
+                value={String(getTrashRetentionDays(currentProfile))}
+                onValueChange={v => updateSettings({ trashRetentionDays: Number(v) })}
+              >
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {trashRetentionOptions.map(option => (
+                    <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between border-t border-border pt-4">
               <div>
                 <p className="font-medium text-foreground">Export Data</p>
                 <p className="text-sm text-muted-foreground">Download all your data as JSON</p>
@@ -214,32 +305,69 @@ export function SettingsView() {
                   <p className="font-medium text-foreground">Import Data</p>
                   <p className="text-sm text-muted-foreground">Restore from a JSON backup</p>
                 </div>
-                <Button variant="secondary" onClick={() => setShowImport(!showImport)}>
+                <Button variant="secondary" onClick={() => setShowImport(showImport === 'json' ? null : 'json')}>
                   <Upload className="h-4 w-4 mr-2" />
                   Import
                 </Button>
               </div>
 
-              {showImport && (
-                <div className="space-y-3 animate-fade-in">
-                  <Textarea
-                    placeholder="Paste your JSON data here..."
-                    value={importJson}
-                    onChange={e => setImportJson(e.target.value)}
-                    className="bg-surface-2 border-border min-h-[150px] font-mono text-sm"
-                  />
-                  <div className="flex justify-end gap-2">
-                    <Button variant="ghost" onClick={() => setShowImport(false)}>
-                      Cancel
-                    </Button>
-                    <Button onClick={handleImport} disabled={!importJson.trim()}>
-                      Import Data
-                    </Button>
-                  </div>
+              {showImport === 'json' && <JsonImportForm onCancel={() => setShowImport(null)} />}
+            </div>
+
+            <div className="border-t border-border pt-4">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <p className="font-medium text-foreground">Import from Other Apps</p>
+                  <p className="text-sm text-muted-foreground">Bring in projects and tasks from Todoist, Trello or Things</p>
                 </div>
-              )}
+                <Button variant="secondary" onClick={() => setShowImport(showImport === 'apps' ? null : 'apps')}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+              </div>
+
+              {showImport === 'apps' && <ExternalImportForm onCancel={() => setShowImport(null)} />}
             </div>
+
+            <div className="border-t border-border pt-4">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <p className="font-medium text-foreground">Markdown Vault</p>
+                  <p className="text-sm text-muted-foreground">Notes for Obsidian: one per project and area, plus an inbox. Import applies your edits.</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="secondary" onClick={handleExportMarkdown}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
+                  <Button variant="secondary" onClick={() => setShowImport(showImport === 'markdown' ? null : 'markdown')}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                </div>
+              </div>
+
+              {showImport === 'markdown' && <MarkdownImportForm onCancel={() => setShowImport(null)} />}
+            </div>
+          </div>
+        </section>
+
+        {/* Calendar */}
+        <section className="bg-card rounded-xl border border-border p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <CalendarDays className="h-5 w-5 text-muted-foreground" />
+            <h2 className="font-semibold text-foreground">Calendar</h2>
+          </div>
+          <CalendarExportPanel />
+        </section>
+
+        {/* Snapshots */}
+        <section className="bg-card rounded-xl border border-border p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <History className="h-5 w-5 text-muted-foreground" />
+            <h2 className="font-semibold text-foreground">Snapshots</h2>
           </div>
+          <SnapshotsPanel />
         </section>
 
         {/* Danger Zone */}
@@ -262,16 +390,24 @@ export function SettingsView() {
                 <AlertDialogHeader>
                   <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                   <AlertDialogDescription>
-                    This action cannot be undone. This will permanently delete all your data
-                    including projects, tasks, ideas, and settings.
+                    This will delete all your data including projects, tasks, ideas, and settings.
+                    A snapshot is saved first, so you can restore it from Snapshots.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
                   <AlertDialogCancel>Cancel</AlertDialogCancel>
                   <AlertDialogAction
-                    onClick={() => {
-                      resetAllData();
-                      window.location.reload();
+                    onClick={async () => {
+                      try {
+                        await resetAllData();
+                        window.location.reload();
+                      } catch (error) {
+                        toast({
+                          title: 'Reset failed',
+                          description: error instanceof Error ? error.message : undefined,
+                          variant: 'destructive',
+                        });
+                      }
                     }}
                     className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                   >
@@ -1,15 +1,45 @@
 import { useMemo } from 'react';
-import { CalendarDays, ChevronRight } from 'lucide-react';
+import { CalendarDays, ChevronRight, Repeat } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
+import { Task } from '@/lib/types';
+import { describeRecurrence, getProjectedOccurrences } from '@/lib/recurrence';
 import { TaskCard } from '@/components/shared/TaskCard';
 import { addDays, format, isToday, isTomorrow, startOfDay } from 'date-fns';
 
+function ProjectedOccurrence({ task }: { task: Task }) {
+  const { setSelectedTaskId } = useApp();
+
+  return (
+    <div
+      className="flex items-center gap-3 px-3 py-2 rounded-lg border border-dashed border-border bg-card/50 text-muted-foreground cursor-pointer hover:border-muted-foreground/30"
+      onDoubleClick={() => setSelectedTaskId(task.id)}
+      title={describeRecurrence(task.recurrence!)}
+    >
+      <Repeat className="h-4 w-4 shrink-0" />
+      <span className="text-sm truncate">{task.title}</span>
+      <span className="ml-auto text-xs">Upcoming</span>
+    </div>
+  );
+}
+
 export function ThisWeekView() {
   const { currentProfile } = useApp();
 
   const weekDays = useMemo(() => {
     const today = startOfDay(new Date());
-    const days: { date: Date; label: string; tasks: typeof currentProfile.tasks }[] = [];
+    const weekEnd = addDays(today, 6);
+    const days: { date: Date; label: string; tasks: Task[]; projected: Task[] }[] = [];
+
+    // Project future occurrences of open recurring tasks into the week
+    const projections = new Map<number, Task[]>();
+    currentProfile.tasks
+      .filter(task => task.recurrence && task.status !== 'done')
+      .forEach(task => {
+        getProjectedOccurrences(task, today, weekEnd).forEach(date => {
+          const key = startOfDay(date).getTime();
+          projections.set(key, [...(projections.get(key) || []), task]);
+        });
+      });
 
     for (let i = 0; i < 7; i++) {
       const date = addDays(today, i);
@@ -23,7 +53,7 @@ export function ThisWeekView() {
         return dueDate.getTime() === date.getTime();
       });
 
-      days.push({ date, label, tasks });
+      days.push({ date, label, tasks, projected: projections.get(date.getTime()) || [] });
     }
 
     return days;
@@ -87,11 +117,14 @@ export function ThisWeekView() {
               )}
             </div>
 
-            {day.tasks.length > 0 ? (
+            {day.tasks.length > 0 || day.projected.length > 0 ? (
               <div className="space-y-2">
                 {day.tasks.map(task => (
                   <TaskCard key={task.id} task={task} isDraggable={false} />
                 ))}
+                {day.projected.map(task => (
+                  <ProjectedOccurrence key={task.id} task={task} />
+                ))}
               </div>
             ) : (
               <div className="py-4 px-4 bg-card/50 rounded-lg border border-border/50 text-center">
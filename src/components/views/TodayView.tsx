@@ -1,13 +1,21 @@
-import { useMemo } from 'react';
-import { Sun, Calendar, Plus, Star } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Sun, Calendar, Plus, Star, Target, Timer } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
 import { TaskCard } from '@/components/shared/TaskCard';
+import { TaskTreeList } from '@/components/shared/TaskTreeList';
 import { ProjectCard } from '@/components/shared/ProjectCard';
+import { TaskTimerButton } from '@/components/shared/TaskTimerButton';
+import { FocusSessionDialog } from '@/components/dialogs/FocusSessionDialog';
 import { Button } from '@/components/ui/button';
+import { findRunningTimer, formatMinutes } from '@/lib/timeTracking';
 import { format } from 'date-fns';
 
 export function TodayView() {
-  const { currentProfile, setQuickAddOpen } = useApp();
+  const { currentProfile, setQuickAddOpen, setSelectedTaskId } = useApp();
+
+  const [focusOpen, setFocusOpen] = useState(false);
+
+  const runningTimer = findRunningTimer(currentProfile.tasks);
 
   const todayTasks = useMemo(() => {
     return currentProfile.tasks
@@ -32,6 +40,16 @@ export function TodayView() {
     });
   }, [currentProfile.tasks]);
 
+  const trackedToday = useMemo(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const ms = currentProfile.tasks
+      .flatMap(t => t.timeEntries || [])
+      .filter(e => e.end && new Date(e.start) >= today)
+      .reduce((sum, e) => sum + new Date(e.end!).getTime() - new Date(e.start).getTime(), 0);
+    return Math.round(ms / 60000);
+  }, [currentProfile.tasks]);
+
   const focusProjects = useMemo(() => {
     return currentProfile.projects.filter(p => p.isFocus && !p.archived);
   }, [currentProfile.projects]);
@@ -46,11 +64,33 @@ export function TodayView() {
           </div>
           <div>
             <h1 className="text-2xl font-bold text-foreground">Today</h1>
-            <p className="text-muted-foreground">{format(new Date(), 'EEEE, MMMM d')}</p>
+            <p className="text-muted-foreground">
+              {format(new Date(), 'EEEE, MMMM d')}
+              {trackedToday > 0 && ` • ${formatMinutes(trackedToday)} tracked`}
+            </p>
           </div>
         </div>
       </div>
 
+      {/* Running Timer */}
+      {runningTimer && (
+        <section className="mb-8">
+          <div className="flex items-center gap-3 p-4 bg-primary/5 rounded-xl border border-primary/30">
+            <Timer className="h-5 w-5 text-primary shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-muted-foreground uppercase tracking-wider">Now tracking</p>
+              <button
+                onClick={() => setSelectedTaskId(runningTimer.task.id)}
+                className="text-sm font-medium text-foreground truncate hover:text-primary"
+              >
+                {runningTimer.task.title}
+              </button>
+            </div>
+            <TaskTimerButton task={runningTimer.task} className="text-sm" />
+          </div>
+        </section>
+      )}
+
       {/* Focus Projects */}
       {focusProjects.length > 0 && (
         <section className="mb-8">
@@ -76,18 +116,25 @@ export function TodayView() {
             </h2>
             <span className="text-sm text-muted-foreground">({todayTasks.length})</span>
           </div>
-          <Button variant="ghost" size="sm" onClick={() => setQuickAddOpen(true)}>
-            <Plus className="h-4 w-4 mr-1" />
-            Add Task
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setFocusOpen(true)}
+              disabled={todayTasks.length === 0}
+            >
+              <Target className="h-4 w-4 mr-1" />
+              Focus
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setQuickAddOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Task
+            </Button>
+          </div>
         </div>
 
         {todayTasks.length > 0 ? (
-          <div className="space-y-2">
-            {todayTasks.map(task => (
-              <TaskCard key={task.id} task={task} isDraggable={false} />
-            ))}
-          </div>
+          <TaskTreeList tasks={todayTasks} />
         ) : (
           <div className="text-center py-12 bg-card rounded-xl border border-border">
             <Sun className="h-12 w-12 text-muted-foreground/30 mx-auto mb-4" />
@@ -119,6 +166,10 @@ export function TodayView() {
           </div>
         </section>
       )}
+
+      {focusOpen && (
+        <FocusSessionDialog open={focusOpen} onOpenChange={setFocusOpen} tasks={todayTasks} />
+      )}
     </div>
   );
 }
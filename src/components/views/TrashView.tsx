@@ -0,0 +1,156 @@
+import { useMemo } from 'react';
+import { addDays, formatDistanceToNow } from 'date-fns';
+import {
+  CheckSquare,
+  FolderKanban,
+  Layers,
+  Lightbulb,
+  RotateCcw,
+  Tag as TagIcon,
+  Trash2,
+} from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { TrashCollection, TrashItem, getTrashRetentionDays } from '@/lib/trash';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+const collectionGroups: { collection: TrashCollection; label: string; icon: React.ElementType }[] = [
+  { collection: 'tasks', label: 'Tasks', icon: CheckSquare },
+  { collection: 'projects', label: 'Projects', icon: FolderKanban },
+  { collection: 'areas', label: 'Areas', icon: Layers },
+  { collection: 'ideas', label: 'Ideas', icon: Lightbulb },
+  { collection: 'tags', label: 'Tags', icon: TagIcon },
+];
+
+export function TrashView() {
+  const { currentProfile, trashItems, restoreTrashItem, purgeTrashItem, emptyTrash } = useApp();
+  const retentionDays = getTrashRetentionDays(currentProfile);
+
+  const groups = useMemo(() =>
+    collectionGroups
+      .map(group => ({ ...group, items: trashItems.filter(item => item.collection === group.collection) }))
+      .filter(group => group.items.length > 0),
+    [trashItems]
+  );
+
+  const describe = (item: TrashItem) => {
+    const deleted = `Deleted ${formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}`;
+    const cascaded = item.cascadedCount > 0
+      ? ` with ${item.cascadedCount} ${item.cascadedCount === 1 ? 'other item' : 'other items'}`
+      : '';
+    const purge = retentionDays > 0
+      ? ` · removed for good ${formatDistanceToNow(addDays(new Date(item.deletedAt), retentionDays), { addSuffix: true })}`
+      : '';
+    return deleted + cascaded + purge;
+  };
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto animate-fade-in">
+      {/* Header */}
+      <div className="mb-8 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-zinc-500 to-slate-600 flex items-center justify-center glow-sm">
+            <Trash2 className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Trash</h1>
+            <p className="text-muted-foreground">
+              {retentionDays > 0
+                ? `Items are removed for good after ${retentionDays} days`
+                : 'Items stay here until you empty the trash'}
+            </p>
+          </div>
+        </div>
+
+        {trashItems.length > 0 && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive">Empty Trash</Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Everything in the trash, including tasks deleted along with their projects,
+                  will be permanently deleted.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={emptyTrash}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Empty trash
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+
+      {/* Grouped Items */}
+      {groups.length > 0 ? (
+        <div className="space-y-8">
+          {groups.map(group => {
+            const Icon = group.icon;
+            return (
+              <section key={group.collection}>
+                <div className="flex items-center gap-2 mb-3 px-1">
+                  <Icon className="h-4 w-4 text-muted-foreground" />
+                  <h2 className="text-sm font-semibold text-muted-foreground">{group.label}</h2>
+                  <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded-full">
+                    {group.items.length}
+                  </span>
+                </div>
+                <div className="space-y-2">
+                  {group.items.map(item => (
+                    <div
+                      key={item.id}
+                      className="flex items-center gap-3 p-4 bg-card rounded-xl border border-border"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-foreground truncate">{item.title}</p>
+                        <p className="text-xs text-muted-foreground">{describe(item)}</p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => restoreTrashItem(item.id)}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => purgeTrashItem(item.id)}
+                      >
+                        Delete forever
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-16 bg-card rounded-xl border border-border">
+          <Trash2 className="h-16 w-16 text-muted-foreground/20 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-foreground mb-2">Trash is empty</h3>
+          <p className="text-muted-foreground">
+            Deleted tasks, projects, areas, ideas and tags show up here
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { SettingsView } from './SettingsView';
 import { ProjectDetailView } from './ProjectDetailView';
 import { AreaDetailView } from './AreaDetailView';
 import { BacklogView } from './BacklogView';
+import { TrashView } from './TrashView';
 
 export function ViewRouter() {
   const { currentView } = useApp();
@@ -33,6 +34,8 @@ export function ViewRouter() {
       return <CompletedView />;
     case 'settings':
       return <SettingsView />;
+    case 'trash':
+      return <TrashView />;
     case 'project-detail':
       return <ProjectDetailView />;
     case 'area-detail':
@@ -3,7 +3,7 @@
  * Manages all data and provides actions for CRUD operations
  */
 
-import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { 
   AppData, 
@@ -13,19 +13,58 @@ import {
   Idea, 
   Area, 
   Tag, 
+  ChecklistItem,
+  TimeEntry,
   ViewType,
   TaskStatus,
   ProjectStatus,
   Priority,
 } from '@/lib/types';
-import { initializeData, saveData, setCurrentProfileId, resetData } from '@/lib/supabaseStorage';
+import { initializeData, loadData, resetData } from '@/lib/supabaseStorage';
+import { UnsupportedVersionError } from '@/lib/migrations';
+import { createSnapshot, ensureDailySnapshot, restoreFromSnapshot } from '@/lib/snapshots';
+import { clearReplica, loadReplica, saveReplica } from '@/lib/storage';
+import { RowChanges, TableRow, applyRowChangesToAppData, diffAppData, omitRowChanges } from '@/lib/supabaseRows';
+import { ConflictSide, SyncConflict, resolveConflict } from '@/lib/syncMerge';
+import { HistoryEntry, createHistoryEntry, pushHistoryEntry } from '@/lib/history';
+import {
+  TrashItem,
+  getTrashItems,
+  moveToTrash,
+  purgeAllTrash,
+  purgeExpiredTrash,
+  purgeFromTrash,
+  restoreFromTrash,
+  withoutTrashed,
+} from '@/lib/trash';
+import { EXTERNAL_SOURCE_LABELS, ExternalImportPlan } from '@/lib/externalImport';
+import { MarkdownImportPlan, markdownBaseAfterImport } from '@/lib/markdown';
+import { getNextOccurrence } from '@/lib/recurrence';
+import { syncBlockedStatuses, wouldCreateCycle } from '@/lib/dependencies';
+import { getDescendantIds, isSelfOrAncestor } from '@/lib/subtasks';
+import { sumTimeEntries } from '@/lib/timeTracking';
+import { DEFAULT_FOCUS_SETTINGS } from '@/lib/focus';
+import { useRouteSync } from '@/hooks/use-route-sync';
+import { SyncState, useOutboxSync } from '@/hooks/use-outbox-sync';
+import { useRealtimeSync } from '@/hooks/use-realtime-sync';
+import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { useAuth } from './AuthContext';
 
 interface AppContextType {
   // Data
   data: AppData | null;
+  // Without trashed items
   currentProfile: Profile | null;
   dataLoading: boolean;
+  // Why the data couldn't be opened, e.g. it is from a newer app version
+  dataError: string | null;
+  
+  // Background sync with Supabase
+  syncState: SyncState;
+  retrySync: () => void;
+  syncConflicts: SyncConflict[];
+  resolveSyncConflict: (conflict: SyncConflict, choices: Record<string, ConflictSide>) => void;
   
   // Navigation
   currentView: ViewType;
@@ -35,6 +74,15 @@ interface AppContextType {
   selectedAreaId: string | null;
   setSelectedAreaId: (id: string | null) => void;
   
+  // Run several actions as one atomic change
+  batch: (run: () => void, label?: string) => void;
+  
+  // Undo history
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: (entryId?: string) => void;
+  redo: () => void;
+  
   // Profile actions
   switchProfile: (profileId: string) => void;
   createProfile: (name: string) => void;
@@ -55,9 +103,28 @@ interface AppContextType {
   // Task actions
   createTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'checklistItems'> & { checklistItems?: Task['checklistItems'] }) => void;
   updateTask: (id: string, updates: Partial<Task>) => void;
-  deleteTask: (id: string) => void;
+  deleteTask: (id: string, options?: { keepSubtasks?: boolean }) => void;
+  // Add ready-made tasks, and the new tags they use, as one change
+  importTasks: (tasks: Task[], tags: Tag[]) => void;
+  importExternalData: (plan: ExternalImportPlan) => void;
+  applyMarkdownImport: (plan: MarkdownImportPlan) => void;
   updateTaskStatus: (id: string, status: TaskStatus) => void;
   toggleTaskToday: (id: string) => void;
+  createSubtask: (parentId: string, title: string) => void;
+  addChecklistItem: (taskId: string, content: string) => void;
+  updateChecklistItem: (taskId: string, itemId: string, updates: Partial<Omit<ChecklistItem, 'id'>>) => void;
+  toggleChecklistItem: (taskId: string, itemId: string) => void;
+  deleteChecklistItem: (taskId: string, itemId: string) => void;
+  reorderChecklistItems: (taskId: string, fromIndex: number, toIndex: number) => void;
+  promoteChecklistItem: (taskId: string, itemId: string) => void;
+  startTimer: (taskId: string) => void;
+  stopTimer: (note?: string) => void;
+  addTimeEntry: (taskId: string, entry: Omit<TimeEntry, 'id'>) => void;
+  updateTimeEntry: (taskId: string, entryId: string, updates: Partial<Omit<TimeEntry, 'id'>>) => void;
+  deleteTimeEntry: (taskId: string, entryId: string) => void;
+  setTaskParent: (taskId: string, parentId: string | null) => boolean;
+  addTaskDependency: (taskId: string, blockerId: string) => boolean;
+  removeTaskDependency: (taskId: string, blockerId: string) => void;
   
   // Idea actions
   createIdea: (idea: Omit<Idea, 'id' | 'createdAt'>) => void;
@@ -68,24 +135,41 @@ interface AppContextType {
   archiveIdea: (id: string) => void;
   
   // Tag actions
-  createTag: (tag: Omit<Tag, 'id'>) => void;
+  // Returns the new tag's id
+  createTag: (tag: Omit<Tag, 'id'>) => string;
   updateTag: (id: string, updates: Partial<Tag>) => void;
   deleteTag: (id: string) => void;
   
+  // Trash
+  trashItems: TrashItem[];
+  restoreTrashItem: (id: string) => void;
+  purgeTrashItem: (id: string) => void;
+  emptyTrash: () => void;
+  
   // Settings
   updateSettings: (settings: Partial<Profile['settings']>) => void;
   
   // Data management
-  resetAllData: () => void;
+  resetAllData: () => Promise<void>;
+  // Restore all of a snapshot, or one profile of it, as an undoable change
+  restoreSnapshot: (snapshot: AppData, profileId?: string) => Promise<void>;
   
   // Quick add
   quickAddOpen: boolean;
   setQuickAddOpen: (open: boolean) => void;
   
+  // Command palette
+  commandPaletteOpen: boolean;
+  setCommandPaletteOpen: (open: boolean) => void;
+  
   // Task editing
   selectedTaskId: string | null;
   setSelectedTaskId: (id: string | null) => void;
   
+  // Keyboard selection in task lists
+  highlightedTaskId: string | null;
+  setHighlightedTaskId: (id: string | null) => void;
+  
   // Sidebar
   sidebarCollapsed: boolean;
   setSidebarCollapsed: (collapsed: boolean) => void;
@@ -93,82 +177,376 @@ interface AppContextType {
 
 const AppContext = createContext<AppContextType | null>(null);
 
+// Quiet period after the last change before it is written
+const SAVE_DEBOUNCE_MS = 400;
+
+/**
+ * The profile currently open, falling back to the first one
+ */
+function getCurrentProfile(data: AppData): Profile | undefined {
+  return data.profiles.find(p => p.id === data.currentProfileId) || data.profiles[0];
+}
+
+/**
+ * Replace a task's time entries and re-derive timeSpentMinutes from them
+ */
+function withTimeEntries(task: Task, timeEntries: TimeEntry[]): Task {
+  return {
+    ...task,
+    timeEntries,
+    timeSpentMinutes: sumTimeEntries(timeEntries),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Build the follow-up task for a completed recurring task, or null if the
+ * rule has no further occurrences
+ */
+function createNextOccurrence(task: Task): Task | null {
+  const nextDue = getNextOccurrence(task, new Date(task.completedAt || Date.now()));
+  if (!nextDue) return null;
+
+  const now = new Date().toISOString();
+  return {
+    ...task,
+    id: uuidv4(),
+    status: 'todo',
+    dueDate: nextDue.toISOString(),
+    isToday: false,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: undefined,
+    nextOccurrenceId: undefined,
+    timeSpentMinutes: undefined,
+    timeEntries: undefined,
+    order: undefined,
+    checklistItems: task.checklistItems.map(item => ({ ...item, id: uuidv4(), done: false })),
+  };
+}
+
 export function AppProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const [data, setData] = useState<AppData | null>(null);
+  // Latest data, including mutations not yet saved; actions always build on it
+  const latestDataRef = useRef<AppData | null>(null);
+  // Last data handed to storage, so each save can write only the rows that changed
+  const savedDataRef = useRef<AppData | null>(null);
+  const saveTimerRef = useRef<number>();
+  // Open batch: mutations collect in the draft and are committed together
+  const batchDepthRef = useRef(0);
+  const batchDraftRef = useRef<AppData | null>(null);
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 });
+
+  const setHistory = useCallback((undoStack: HistoryEntry[], redoStack: HistoryEntry[]) => {
+    undoStackRef.current = undoStack;
+    redoStackRef.current = redoStack;
+    setHistorySize({ undo: undoStack.length, redo: redoStack.length });
+  }, []);
+
+  // Replace all data without saving, e.g. after loading or resetting. The
+  // undo history refers to the old data, so it goes too.
+  const replaceData = useCallback((newData: AppData | null) => {
+    window.clearTimeout(saveTimerRef.current);
+    latestDataRef.current = newData;
+    savedDataRef.current = newData;
+    setData(newData);
+    setHistory([], []);
+  }, [setHistory]);
+
+  // Changes from other devices and tabs go straight into the local data, except
+  // for entities with local edits that haven't been saved yet
+  const applyExternalChanges = useCallback((changes: RowChanges) => {
+    const saved = savedDataRef.current;
+    const latest = latestDataRef.current;
+    if (!user || !saved || !latest) return;
+
+    const newSaved = applyRowChangesToAppData(saved, changes);
+    const newLatest = latest === saved
+      ? newSaved
+      : applyRowChangesToAppData(latest, omitRowChanges(changes, diffAppData(user.id, saved, latest)));
+    if (newSaved === saved && newLatest === latest) return;
+    savedDataRef.current = newSaved;
+    latestDataRef.current = newLatest;
+    saveReplica(user.id, newSaved);
+    setData(newLatest);
+  }, [user]);
+  const { broadcast: broadcastChanges } = useRealtimeSync(user?.id, applyExternalChanges);
+  // Rows merged with another device's edits replace the local entities
+  const applyMergedRows = useCallback((rows: TableRow[]) => {
+    const changes: RowChanges = { upserts: {}, deletes: {} };
+    rows.forEach(({ table, row }) => {
+      changes.upserts[table] = [...(changes.upserts[table] || []), row];
+    });
+    applyExternalChanges(changes);
+    broadcastChanges(changes);
+  }, [applyExternalChanges, broadcastChanges]);
+  const {
+    syncState,
+    enqueue: enqueueChanges,
+    flush: flushOutbox,
+    reportError: reportSyncError,
+    conflicts: syncConflicts,
+    dismissConflict,
+  } = useOutboxSync(user?.id, applyMergedRows);
   const [dataLoading, setDataLoading] = useState(true);
+  const [dataError, setDataError] = useState<string | null>(null);
   const [currentView, setCurrentView] = useState<ViewType>('today');
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
   const [selectedAreaId, setSelectedAreaId] = useState<string | null>(null);
   const [quickAddOpen, setQuickAddOpen] = useState(false);
+  const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [highlightedTaskId, setHighlightedTaskId] = useState<string | null>(null);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
-  
+
+  useRouteSync(
+    { currentView, selectedProjectId, selectedAreaId, selectedTaskId },
+    { setCurrentView, setSelectedProjectId, setSelectedAreaId, setSelectedTaskId }
+  );
+
+  // Write everything mutated since the last save: the replica first, then the
+  // changed rows go to the outbox and to other tabs
+  const saveNow = useCallback(() => {
+    window.clearTimeout(saveTimerRef.current);
+    const previousData = savedDataRef.current;
+    const newData = latestDataRef.current;
+    if (!user || !newData || newData === previousData) return;
+
+    savedDataRef.current = newData;
+    if (!saveReplica(user.id, newData)) {
+      reportSyncError('Device storage is full; changes are only kept until the page is closed');
+    }
+    const changes = diffAppData(user.id, previousData, newData);
+    enqueueChanges(changes);
+    broadcastChanges(changes);
+  }, [user, enqueueChanges, broadcastChanges, reportSyncError]);
+
+  // Show new data immediately and save it after a short pause, together with
+  // any changes that follow
+  const commitData = useCallback((newData: AppData) => {
+    latestDataRef.current = newData;
+    setData(newData);
+    window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(saveNow, SAVE_DEBOUNCE_MS);
+  }, [saveNow]);
+
+  // Don't lose debounced changes when the page is closed or hidden
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveNow();
+    };
+    window.addEventListener('pagehide', saveNow);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', saveNow);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [saveNow]);
+
   // Load data when user changes
   useEffect(() => {
-    if (user) {
-      setDataLoading(true);
-      console.log('📥 Loading data for user:', user.id);
-      initializeData(user.id)
-        .then((loadedData) => {
-          console.log('✅ Data loaded successfully:', { 
-            profiles: loadedData.profiles.length,
-            currentProfile: loadedData.currentProfileId 
-          });
-          setData(loadedData);
-          setDataLoading(false);
+    setDataError(null);
+    if (!user) {
+      replaceData(null);
+      setDataLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const showData = (loadedData: AppData) => {
+      replaceData(loadedData);
+      saveReplica(user.id, loadedData);
+      setDataLoading(false);
+      // Items past the trash retention period are purged on load
+      const purged = purgeExpiredTrash(loadedData);
+      if (purged !== loadedData) commitData(purged);
+      return purged;
+    };
+
+    // The local replica opens instantly and offline; the server copy replaces
+    // it once queued changes are flushed, unless the user has edited since
+    const replica = loadReplica(user.id);
+    if (replica) {
+      console.log('💾 Loaded local replica for user:', user.id);
+      const shownReplica = showData(replica);
+
+      flushOutbox()
+        .then(async (synced) => {
+          if (!synced || cancelled || !navigator.onLine) return;
+          const remoteData = await loadData(user.id);
+          if (cancelled || latestDataRef.current !== shownReplica) return;
+          if (!remoteData) {
+            // Nothing on the server yet (e.g. first used offline): upload everything
+            enqueueChanges(diffAppData(user.id, null, replica));
+            return;
+          }
+          showData(remoteData);
         })
         .catch((error) => {
-          console.error('❌ Failed to load data:', error);
-          // Even if loading fails, try to initialize with default data
-          initializeData(user.id)
-            .then((defaultData) => {
-              console.log('✅ Initialized with default data');
-              setData(defaultData);
-              setDataLoading(false);
-            })
-            .catch((initError) => {
-              console.error('❌ Failed to initialize data:', initError);
-              setDataLoading(false);
-              setData(null);
-            });
+          console.error('❌ Failed to refresh data from Supabase:', error);
+          // Editing the replica could overwrite the newer data on the server
+          if (!cancelled && error instanceof UnsupportedVersionError) {
+            replaceData(null);
+            setDataError(error.message);
+          }
         });
-    } else {
-      setData(null);
-      setDataLoading(false);
+
+      return () => {
+        cancelled = true;
+      };
     }
-  }, [user]);
-  
-  // Get current profile
-  const currentProfile = data?.profiles.find(p => p.id === data.currentProfileId) || data?.profiles[0];
-  
-  // Persist data on changes
-  const persistData = useCallback(async (newData: AppData) => {
-    if (!user) return;
-    setData(newData);
-    await saveData(user.id, newData);
-  }, [user]);
-  
-  // Update current profile helper
-  const updateCurrentProfile = useCallback(async (updates: Partial<Profile>) => {
-    if (!data || !currentProfile) return;
-    const newProfiles = data.profiles.map(p => 
-      p.id === currentProfile.id ? { ...p, ...updates } : p
+
+    setDataLoading(true);
+    console.log('📥 Loading data for user:', user.id);
+    initializeData(user.id)
+      .then((loadedData) => {
+        console.log('✅ Data loaded successfully:', {
+          profiles: loadedData.profiles.length,
+          currentProfile: loadedData.currentProfileId
+        });
+        if (!cancelled) showData(loadedData);
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load data:', error);
+        if (cancelled) return;
+        if (error instanceof UnsupportedVersionError) {
+          setDataError(error.message);
+          setDataLoading(false);
+          return;
+        }
+        // Even if loading fails, try to initialize with default data
+        initializeData(user.id)
+          .then((defaultData) => {
+            console.log('✅ Initialized with default data');
+            if (!cancelled) showData(defaultData);
+          })
+          .catch((initError) => {
+            console.error('❌ Failed to initialize data:', initError);
+            setDataLoading(false);
+            replaceData(null);
+          });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, flushOutbox, enqueueChanges, replaceData, commitData]);
+
+  // Keep a daily snapshot of the data as it is first opened each day
+  useEffect(() => {
+    if (!user || dataLoading || !latestDataRef.current) return;
+    ensureDailySnapshot(user.id, latestDataRef.current);
+  }, [user, dataLoading]);
+
+  // Get current profile; views only see what isn't in the trash
+  const profileWithTrash = data ? getCurrentProfile(data) : undefined;
+  const currentProfile = useMemo(() => profileWithTrash && withoutTrashed(profileWithTrash), [profileWithTrash]);
+  const trashItems = useMemo(() => profileWithTrash ? getTrashItems(profileWithTrash) : [], [profileWithTrash]);
+
+  // Apply a change to the latest data and record it for undo. Inside a batch
+  // it only updates the batch's draft. Returns the history entry, if any.
+  const mutate = useCallback((recipe: (data: AppData) => AppData, label = 'Edit'): HistoryEntry | null => {
+    const base = batchDraftRef.current || latestDataRef.current;
+    if (!base) return null;
+    const newData = recipe(base);
+    if (newData === base) return null;
+
+    if (batchDepthRef.current > 0) {
+      batchDraftRef.current = newData;
+      return null;
+    }
+    commitData(newData);
+
+    const entry = user ? createHistoryEntry(user.id, label, base, newData) : null;
+    if (entry) setHistory(pushHistoryEntry(undoStackRef.current, entry), []);
+    return entry;
+  }, [user, commitData, setHistory]);
+
+  // Run several actions as one change: they see each other's results, are
+  // undone together, and either all of them are applied or, if one throws,
+  // none are
+  const batch = useCallback((run: () => void, label?: string) => {
+    batchDepthRef.current += 1;
+    let committed = false;
+    try {
+      run();
+      committed = true;
+    } finally {
+      batchDepthRef.current -= 1;
+      if (batchDepthRef.current === 0) {
+        const draft = batchDraftRef.current;
+        batchDraftRef.current = null;
+        if (committed && draft) mutate(() => draft, label);
+      }
+    }
+  }, [mutate]);
+
+  // Revert a recorded change; defaults to the most recent one
+  const undo = useCallback((entryId?: string) => {
+    const undoStack = undoStackRef.current;
+    const entry = entryId ? undoStack.find(e => e.id === entryId) : undoStack[undoStack.length - 1];
+    if (!entry || !latestDataRef.current) return;
+
+    commitData(applyRowChangesToAppData(latestDataRef.current, entry.undo));
+    setHistory(undoStack.filter(e => e !== entry), pushHistoryEntry(redoStackRef.current, entry));
+    toast({ title: `Undone: ${entry.label}` });
+  }, [commitData, setHistory]);
+
+  const redo = useCallback(() => {
+    const redoStack = redoStackRef.current;
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry || !latestDataRef.current) return;
+
+    commitData(applyRowChangesToAppData(latestDataRef.current, entry.redo));
+    setHistory(pushHistoryEntry(undoStackRef.current, entry), redoStack.slice(0, -1));
+    toast({ title: `Redone: ${entry.label}` });
+  }, [commitData, setHistory]);
+
+  // Confirm a destructive change with a way back
+  const showUndoToast = useCallback((entry: HistoryEntry | null, description?: string) => {
+    if (!entry) return;
+    toast({
+      title: entry.label,
+      description,
+      action: (
+        <ToastAction altText="Undo" onClick={() => undo(entry.id)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  }, [undo]);
+
+  // Update the current profile; the recipe returns null to leave it unchanged
+  const updateCurrentProfile = useCallback((
+    recipe: (profile: Profile) => Partial<Profile> | null,
+    label?: string
+  ) => mutate(current => {
+    const profile = getCurrentProfile(current);
+    if (!profile) return current;
+    let updates = recipe(profile);
+    if (!updates) return current;
+    // Keep dependency-driven blocked statuses in step with every task change
+    if (updates.tasks) {
+      updates = { ...updates, tasks: syncBlockedStatuses(updates.tasks) };
+    }
+    const newProfiles = current.profiles.map(p =>
+      p.id === profile.id ? { ...p, ...updates } : p
     );
-    await persistData({ ...data, profiles: newProfiles });
-  }, [data, currentProfile, persistData]);
-  
+    return { ...current, profiles: newProfiles };
+  }, label), [mutate]);
+
   // Profile actions
-  const switchProfile = useCallback(async (profileId: string) => {
-    if (!data || !user) return;
-    if (data.profiles.some(p => p.id === profileId)) {
-      await setCurrentProfileId(user.id, profileId);
-      persistData({ ...data, currentProfileId: profileId });
-    }
-  }, [data, user, persistData]);
-  
-  const createProfile = useCallback(async (name: string) => {
-    if (!data) return;
+  const switchProfile = useCallback((profileId: string) => {
+    mutate(current => current.profiles.some(p => p.id === profileId)
+      ? { ...current, currentProfileId: profileId }
+      : current
+    );
+  }, [mutate]);
+
+  const createProfile = useCallback((name: string) => {
     const newProfile: Profile = {
       id: uuidv4(),
       name,
@@ -183,52 +561,64 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         defaultView: 'today',
         defaultTaskGrouping: 'project',
         hideCompletedTasks: false,
+        focus: { ...DEFAULT_FOCUS_SETTINGS },
       },
     };
-    await persistData({ ...data, profiles: [...data.profiles, newProfile] });
-  }, [data, persistData]);
-  
-  const renameProfile = useCallback(async (profileId: string, name: string) => {
-    if (!data) return;
-    const newProfiles = data.profiles.map(p => 
-      p.id === profileId ? { ...p, name } : p
-    );
-    await persistData({ ...data, profiles: newProfiles });
-  }, [data, persistData]);
-  
-  const deleteProfile = useCallback(async (profileId: string) => {
-    if (!data || !user || data.profiles.length <= 1) return;
-    const newProfiles = data.profiles.filter(p => p.id !== profileId);
-    const newCurrentId = data.currentProfileId === profileId 
-      ? newProfiles[0].id 
-      : data.currentProfileId;
-    await setCurrentProfileId(user.id, newCurrentId);
-    await persistData({ ...data, profiles: newProfiles, currentProfileId: newCurrentId });
-  }, [data, user, persistData]);
-  
+    mutate(current => ({ ...current, profiles: [...current.profiles, newProfile] }), 'Create profile');
+  }, [mutate]);
+
+  const renameProfile = useCallback((profileId: string, name: string) => {
+    mutate(current => ({
+      ...current,
+      profiles: current.profiles.map(p => p.id === profileId ? { ...p, name } : p),
+    }), 'Rename profile');
+  }, [mutate]);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    let name: string | undefined;
+    const entry = mutate(current => {
+      if (current.profiles.length <= 1) return current;
+      name = current.profiles.find(p => p.id === profileId)?.name;
+      const newProfiles = current.profiles.filter(p => p.id !== profileId);
+      const newCurrentId = current.currentProfileId === profileId
+        ? newProfiles[0].id
+        : current.currentProfileId;
+      return { ...current, profiles: newProfiles, currentProfileId: newCurrentId };
+    }, 'Delete profile');
+    showUndoToast(entry, name);
+  }, [mutate, showUndoToast]);
+
   // Area actions
-  const createArea = useCallback(async (area: Omit<Area, 'id'>) => {
-    if (!currentProfile) return;
+  const createArea = useCallback((area: Omit<Area, 'id'>) => {
     const newArea: Area = { ...area, id: uuidv4() };
-    await updateCurrentProfile({ areas: [...currentProfile.areas, newArea] });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const updateArea = useCallback(async (id: string, updates: Partial<Area>) => {
-    if (!currentProfile) return;
-    const newAreas = currentProfile.areas.map(a => 
-      a.id === id ? { ...a, ...updates } : a
-    );
-    await updateCurrentProfile({ areas: newAreas });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const deleteArea = useCallback(async (id: string) => {
-    if (!currentProfile) return;
-    await updateCurrentProfile({ areas: currentProfile.areas.filter(a => a.id !== id) });
-  }, [currentProfile, updateCurrentProfile]);
-  
+    updateCurrentProfile(profile => ({ areas: [...profile.areas, newArea] }), 'Create area');
+  }, [updateCurrentProfile]);
+
+  const updateArea = useCallback((id: string, updates: Partial<Area>) => {
+    updateCurrentProfile(profile => ({
+      areas: profile.areas.map(a => a.id === id ? { ...a, ...updates } : a),
+    }), 'Edit area');
+  }, [updateCurrentProfile]);
+
+  const deleteArea = useCallback((id: string) => {
+    let description: string | undefined;
+    const entry = updateCurrentProfile(profile => {
+      const trashed = moveToTrash(profile, 'areas', id);
+      if (!trashed) return null;
+      // The area's projects, their tasks and the area's own tasks and ideas go
+      // to the trash with it
+      const name = profile.areas.find(a => a.id === id)?.name;
+      const projectCount = trashed.projects.filter(p => p.deletedWith === id).length;
+      description = projectCount > 0
+        ? `${name} and its ${projectCount} ${projectCount === 1 ? 'project' : 'projects'}`
+        : name;
+      return trashed;
+    }, 'Delete area');
+    showUndoToast(entry, description);
+  }, [updateCurrentProfile, showUndoToast]);
+
   // Project actions
-  const createProject = useCallback(async (project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>) => {
-    if (!currentProfile) return;
+  const createProject = useCallback((project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>) => {
     const now = new Date().toISOString();
     const newProject: Project = {
       ...project,
@@ -236,34 +626,39 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       createdAt: now,
       updatedAt: now,
     };
-    await updateCurrentProfile({ projects: [...currentProfile.projects, newProject] });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const updateProject = useCallback(async (id: string, updates: Partial<Project>) => {
-    if (!currentProfile) return;
-    const newProjects = currentProfile.projects.map(p => 
-      p.id === id ? { ...p, ...updates, updatedAt: new Date().toISOString() } : p
-    );
-    await updateCurrentProfile({ projects: newProjects });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const deleteProject = useCallback(async (id: string) => {
-    if (!currentProfile) return;
-    // Also delete associated tasks
-    const newTasks = currentProfile.tasks.filter(t => t.projectId !== id);
-    await updateCurrentProfile({ 
-      projects: currentProfile.projects.filter(p => p.id !== id),
-      tasks: newTasks,
-    });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const archiveProject = useCallback(async (id: string) => {
-    await updateProject(id, { archived: true, status: 'completed' });
+    updateCurrentProfile(profile => ({ projects: [...profile.projects, newProject] }), 'Create project');
+  }, [updateCurrentProfile]);
+
+  const updateProject = useCallback((id: string, updates: Partial<Project>) => {
+    updateCurrentProfile(profile => ({
+      projects: profile.projects.map(p =>
+        p.id === id ? { ...p, ...updates, updatedAt: new Date().toISOString() } : p
+      ),
+    }), 'Edit project');
+  }, [updateCurrentProfile]);
+
+  const deleteProject = useCallback((id: string) => {
+    let description: string | undefined;
+    const entry = updateCurrentProfile(profile => {
+      const project = profile.projects.find(p => p.id === id);
+      // Associated tasks go to the trash with it
+      const trashed = moveToTrash(profile, 'projects', id);
+      if (!project || !trashed) return null;
+      const taskCount = trashed.tasks.filter(t => t.deletedWith === id).length;
+      description = taskCount > 0
+        ? `${project.title} and its ${taskCount} ${taskCount === 1 ? 'task' : 'tasks'}`
+        : project.title;
+      return trashed;
+    }, 'Delete project');
+    showUndoToast(entry, description);
+  }, [updateCurrentProfile, showUndoToast]);
+
+  const archiveProject = useCallback((id: string) => {
+    updateProject(id, { archived: true, status: 'completed' });
   }, [updateProject]);
-  
+
   // Task actions
-  const createTask = useCallback(async (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'checklistItems'> & { checklistItems?: Task['checklistItems'] }) => {
-    if (!currentProfile) return;
+  const createTask = useCallback((task: Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'checklistItems'> & { checklistItems?: Task['checklistItems'] }) => {
     const now = new Date().toISOString();
     const newTask: Task = {
       ...task,
@@ -272,172 +667,488 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       updatedAt: now,
       checklistItems: task.checklistItems || [],
     };
-    await updateCurrentProfile({ tasks: [...currentProfile.tasks, newTask] });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const updateTask = useCallback(async (id: string, updates: Partial<Task>) => {
-    if (!currentProfile) return;
-    const newTasks = currentProfile.tasks.map(t => {
-      if (t.id === id) {
-        const updated = { ...t, ...updates, updatedAt: new Date().toISOString() };
-        // Set completedAt when task is done
-        if (updates.status === 'done' && t.status !== 'done') {
-          updated.completedAt = new Date().toISOString();
+    updateCurrentProfile(profile => ({ tasks: [...profile.tasks, newTask] }), 'Create task');
+  }, [updateCurrentProfile]);
+
+  const importTasks = useCallback((tasks: Task[], tags: Tag[]) => {
+    if (tasks.length === 0) return;
+    const entry = updateCurrentProfile(profile => ({
+      tags: [...profile.tags, ...tags],
+      tasks: [...profile.tasks, ...tasks],
+    }), 'Import tasks');
+    showUndoToast(entry, `${tasks.length} ${tasks.length === 1 ? 'task' : 'tasks'} added`);
+  }, [updateCurrentProfile, showUndoToast]);
+
+  const importExternalData = useCallback((plan: ExternalImportPlan) => {
+    if (plan.projects.length === 0 && plan.tasks.length === 0) return;
+    const entry = updateCurrentProfile(profile => ({
+      areas: [...profile.areas, ...plan.areas],
+      tags: [...profile.tags, ...plan.tags],
+      projects: [...profile.projects, ...plan.projects],
+      tasks: [...profile.tasks, ...plan.tasks],
+    }), `Import from ${EXTERNAL_SOURCE_LABELS[plan.source]}`);
+    showUndoToast(
+      entry,
+      `${plan.projects.length} ${plan.projects.length === 1 ? 'project' : 'projects'} and ` +
+      `${plan.tasks.length} ${plan.tasks.length === 1 ? 'task' : 'tasks'} added`
+    );
+  }, [updateCurrentProfile, showUndoToast]);
+
+  const applyMarkdownImport = useCallback((plan: MarkdownImportPlan) => {
+    const changed = plan.projects.length + plan.tasks.length + plan.newTasks.length;
+    if (changed === 0) return;
+    const projects = new Map(plan.projects.map(p => [p.id, p]));
+    const tasks = new Map(plan.tasks.map(t => [t.id, t]));
+    const entry = updateCurrentProfile(profile => {
+      const updated = {
+        ...profile,
+        tags: [...profile.tags, ...plan.tags],
+        projects: profile.projects.map(p => projects.get(p.id) ?? p),
+        tasks: [...profile.tasks.map(t => tasks.get(t.id) ?? t), ...plan.newTasks],
+      };
+      // Records written here match the files, so a later import of the same
+      // files doesn't read them as changed in the app
+      return { ...updated, settings: { ...profile.settings, markdownBase: markdownBaseAfterImport(updated, plan) } };
+    }, 'Import Markdown');
+    showUndoToast(entry, `${changed} ${changed === 1 ? 'item' : 'items'} updated from Markdown`);
+  }, [updateCurrentProfile, showUndoToast]);
+
+  // Updates are computed from the task as it is when the change is applied
+  const updateTaskWith = useCallback((
+    id: string,
+    getUpdates: (task: Task) => Partial<Task> | null,
+    label = 'Edit task'
+  ) => {
+    updateCurrentProfile(profile => {
+      const task = profile.tasks.find(t => t.id === id);
+      const updates = task && getUpdates(task);
+      if (!updates) return null;
+
+      const updated = { ...task, ...updates, updatedAt: new Date().toISOString() };
+      const spawned: Task[] = [];
+      // Set completedAt when task is done
+      if (updates.status === 'done' && task.status !== 'done') {
+        updated.completedAt = new Date().toISOString();
+        // Completing a task stops its running timer
+        if (updated.timeEntries?.some(e => !e.end)) {
+          const closed = updated.timeEntries.map(e => e.end ? e : { ...e, end: updated.completedAt });
+          Object.assign(updated, withTimeEntries(updated, closed));
+        }
+        // Spawn the next occurrence of a recurring task (only once per occurrence)
+        const next = updated.nextOccurrenceId ? null : createNextOccurrence(updated);
+        if (next) {
+          updated.nextOccurrenceId = next.id;
+          spawned.push(next);
         }
-        return updated;
       }
-      return t;
+      return { tasks: [...profile.tasks.map(t => t.id === id ? updated : t), ...spawned] };
+    }, label);
+  }, [updateCurrentProfile]);
+
+  const updateTask = useCallback((id: string, updates: Partial<Task>) => {
+    updateTaskWith(id, () => updates);
+  }, [updateTaskWith]);
+
+  const deleteTask = useCallback((id: string, options?: { keepSubtasks?: boolean }) => {
+    let title: string | undefined;
+    const entry = updateCurrentProfile(profile => {
+      const task = profile.tasks.find(t => t.id === id);
+      if (!task) return null;
+      title = task.title;
+
+      // Either move direct children up to the deleted task's parent, or trash
+      // the whole subtree with it so no subtask is left orphaned
+      const tasks = options?.keepSubtasks
+        ? profile.tasks.map(t => t.parentTaskId === id
+          ? { ...t, parentTaskId: task.parentTaskId, updatedAt: new Date().toISOString() }
+          : t
+        )
+        : profile.tasks;
+      return moveToTrash({ ...profile, tasks }, 'tasks', id);
+    }, 'Delete task');
+    showUndoToast(entry, title);
+  }, [updateCurrentProfile, showUndoToast]);
+
+  const updateTaskStatus = useCallback((id: string, status: TaskStatus) => {
+    updateTaskWith(id, () => ({ status }), 'Change task status');
+  }, [updateTaskWith]);
+
+  const toggleTaskToday = useCallback((id: string) => {
+    updateTaskWith(id, task => ({ isToday: !task.isToday }), 'Toggle Today');
+  }, [updateTaskWith]);
+
+  // Subtask actions
+  const createSubtask = useCallback((parentId: string, title: string) => {
+    const parent = latestDataRef.current && getCurrentProfile(latestDataRef.current)?.tasks.find(t => t.id === parentId);
+    if (!parent) return;
+    createTask({
+      parentTaskId: parent.id,
+      projectId: parent.projectId,
+      areaId: parent.areaId,
+      title,
+      status: 'todo',
+      priority: parent.priority,
+      tags: [],
     });
-    await updateCurrentProfile({ tasks: newTasks });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const deleteTask = useCallback(async (id: string) => {
-    if (!currentProfile) return;
-    await updateCurrentProfile({ tasks: currentProfile.tasks.filter(t => t.id !== id) });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const updateTaskStatus = useCallback(async (id: string, status: TaskStatus) => {
-    await updateTask(id, { status });
-  }, [updateTask]);
-  
-  const toggleTaskToday = useCallback(async (id: string) => {
-    if (!currentProfile) return;
-    const task = currentProfile.tasks.find(t => t.id === id);
-    if (task) {
-      await updateTask(id, { isToday: !task.isToday });
-    }
-  }, [currentProfile, updateTask]);
-  
+  }, [createTask]);
+
+  // Checklist actions
+  const updateChecklist = useCallback((taskId: string, update: (items: ChecklistItem[]) => ChecklistItem[]) => {
+    updateTaskWith(taskId, task => ({ checklistItems: update(task.checklistItems) }), 'Edit checklist');
+  }, [updateTaskWith]);
+
+  const addChecklistItem = useCallback((taskId: string, content: string) => {
+    const item: ChecklistItem = { id: uuidv4(), content, done: false };
+    updateChecklist(taskId, items => [...items, item]);
+  }, [updateChecklist]);
+
+  const updateChecklistItem = useCallback((taskId: string, itemId: string, updates: Partial<Omit<ChecklistItem, 'id'>>) => {
+    updateChecklist(taskId, items => items.map(i => i.id === itemId ? { ...i, ...updates } : i));
+  }, [updateChecklist]);
+
+  const toggleChecklistItem = useCallback((taskId: string, itemId: string) => {
+    updateChecklist(taskId, items => items.map(i => i.id === itemId ? { ...i, done: !i.done } : i));
+  }, [updateChecklist]);
+
+  const deleteChecklistItem = useCallback((taskId: string, itemId: string) => {
+    updateChecklist(taskId, items => items.filter(i => i.id !== itemId));
+  }, [updateChecklist]);
+
+  const reorderChecklistItems = useCallback((taskId: string, fromIndex: number, toIndex: number) => {
+    updateChecklist(taskId, items => {
+      const reordered = [...items];
+      const [moved] = reordered.splice(fromIndex, 1);
+      if (!moved) return items;
+      reordered.splice(toIndex, 0, moved);
+      return reordered;
+    });
+  }, [updateChecklist]);
+
+  const promoteChecklistItem = useCallback((taskId: string, itemId: string) => {
+    updateCurrentProfile(profile => {
+      const task = profile.tasks.find(t => t.id === taskId);
+      const item = task?.checklistItems.find(i => i.id === itemId);
+      if (!task || !item) return null;
+
+      // Replace the checklist item with a real subtask in a single write
+      const now = new Date().toISOString();
+      const subtask: Task = {
+        id: uuidv4(),
+        parentTaskId: task.id,
+        projectId: task.projectId,
+        areaId: task.areaId,
+        title: item.content,
+        status: item.done ? 'done' : 'todo',
+        priority: task.priority,
+        tags: [],
+        createdAt: now,
+        updatedAt: now,
+        completedAt: item.done ? now : undefined,
+        checklistItems: [],
+      };
+      const newTasks = profile.tasks.map(t => t.id === taskId
+        ? { ...t, checklistItems: t.checklistItems.filter(i => i.id !== itemId), updatedAt: now }
+        : t
+      );
+      return { tasks: [...newTasks, subtask] };
+    }, 'Convert checklist item to subtask');
+  }, [updateCurrentProfile]);
+
+  // Time tracking actions
+  const startTimer = useCallback((taskId: string) => {
+    updateCurrentProfile(profile => {
+      if (!profile.tasks.some(t => t.id === taskId)) return null;
+      const now = new Date().toISOString();
+      // Only one timer may run at a time: close any open entry before starting a new one
+      const newTasks = profile.tasks.map(t => {
+        const hasRunning = t.timeEntries?.some(e => !e.end);
+        if (!hasRunning && t.id !== taskId) return t;
+        let entries = (t.timeEntries || []).map(e => e.end ? e : { ...e, end: now });
+        if (t.id === taskId) {
+          entries = [...entries, { id: uuidv4(), start: now }];
+        }
+        return withTimeEntries(t, entries);
+      });
+      return { tasks: newTasks };
+    }, 'Start timer');
+  }, [updateCurrentProfile]);
+
+  const stopTimer = useCallback((note?: string) => {
+    const now = new Date().toISOString();
+    updateCurrentProfile(profile => {
+      const isRunning = (t: Task) => t.timeEntries?.some(e => !e.end);
+      if (!profile.tasks.some(isRunning)) return null;
+      return {
+        tasks: profile.tasks.map(t => {
+          if (!isRunning(t)) return t;
+          return withTimeEntries(t, t.timeEntries.map(e => e.end ? e : { ...e, end: now, note: note || e.note }));
+        }),
+      };
+    }, 'Stop timer');
+  }, [updateCurrentProfile]);
+
+  const updateTimeEntries = useCallback((taskId: string, update: (entries: TimeEntry[]) => TimeEntry[]) => {
+    updateCurrentProfile(profile => ({
+      tasks: profile.tasks.map(t =>
+        t.id === taskId ? withTimeEntries(t, update(t.timeEntries || [])) : t
+      ),
+    }), 'Edit time entries');
+  }, [updateCurrentProfile]);
+
+  const addTimeEntry = useCallback((taskId: string, entry: Omit<TimeEntry, 'id'>) => {
+    updateTimeEntries(taskId, entries => [...entries, { ...entry, id: uuidv4() }]);
+  }, [updateTimeEntries]);
+
+  const updateTimeEntry = useCallback((taskId: string, entryId: string, updates: Partial<Omit<TimeEntry, 'id'>>) => {
+    updateTimeEntries(taskId, entries => entries.map(e => e.id === entryId ? { ...e, ...updates } : e));
+  }, [updateTimeEntries]);
+
+  const deleteTimeEntry = useCallback((taskId: string, entryId: string) => {
+    updateTimeEntries(taskId, entries => entries.filter(e => e.id !== entryId));
+  }, [updateTimeEntries]);
+
+  const setTaskParent = useCallback((taskId: string, parentId: string | null) => {
+    let moved = false;
+    updateCurrentProfile(profile => {
+      const task = profile.tasks.find(t => t.id === taskId);
+      if (!task) return null;
+
+      const parent = parentId ? profile.tasks.find(t => t.id === parentId) : null;
+      if (parentId && !parent) return null;
+      // A task cannot be nested under itself or one of its own subtasks
+      if (parent && isSelfOrAncestor(parent, taskId, profile.tasks)) return null;
+
+      // The moved subtree follows its new parent into the parent's project
+      const subtreeIds = new Set(getDescendantIds(taskId, profile.tasks));
+      const now = new Date().toISOString();
+      const newTasks = profile.tasks.map(t => {
+        if (t.id === taskId) {
+          return {
+            ...t,
+            parentTaskId: parent?.id,
+            projectId: parent ? parent.projectId : t.projectId,
+            updatedAt: now,
+          };
+        }
+        if (parent && subtreeIds.has(t.id)) {
+          return { ...t, projectId: parent.projectId, updatedAt: now };
+        }
+        return t;
+      });
+      moved = true;
+      return { tasks: newTasks };
+    }, 'Move task');
+    return moved;
+  }, [updateCurrentProfile]);
+
+  // Dependency actions
+  const addTaskDependency = useCallback((taskId: string, blockerId: string) => {
+    let added = false;
+    updateCurrentProfile(profile => {
+      const task = profile.tasks.find(t => t.id === taskId);
+      if (!task || task.blockedBy?.includes(blockerId)) return null;
+      // Reject links that would make the dependency graph cyclic
+      if (wouldCreateCycle(profile.tasks, taskId, blockerId)) return null;
+      added = true;
+      return {
+        tasks: profile.tasks.map(t => t.id === taskId
+          ? { ...t, blockedBy: [...(t.blockedBy || []), blockerId], updatedAt: new Date().toISOString() }
+          : t
+        ),
+      };
+    }, 'Add dependency');
+    return added;
+  }, [updateCurrentProfile]);
+
+  const removeTaskDependency = useCallback((taskId: string, blockerId: string) => {
+    updateTaskWith(taskId, task => {
+      const blockedBy = (task.blockedBy || []).filter(id => id !== blockerId);
+      const updates: Partial<Task> = { blockedBy };
+      // Removing the last link releases a task that was only blocked by it
+      if (blockedBy.length === 0 && task.status === 'blocked') {
+        updates.status = 'todo';
+      }
+      return updates;
+    }, 'Remove dependency');
+  }, [updateTaskWith]);
+
   // Idea actions
-  const createIdea = useCallback(async (idea: Omit<Idea, 'id' | 'createdAt'>) => {
-    if (!currentProfile) return;
+  const createIdea = useCallback((idea: Omit<Idea, 'id' | 'createdAt'>) => {
     const newIdea: Idea = {
       ...idea,
       id: uuidv4(),
       createdAt: new Date().toISOString(),
     };
-    await updateCurrentProfile({ ideas: [...currentProfile.ideas, newIdea] });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const updateIdea = useCallback(async (id: string, updates: Partial<Idea>) => {
-    if (!currentProfile) return;
-    const newIdeas = currentProfile.ideas.map(i => 
-      i.id === id ? { ...i, ...updates } : i
-    );
-    await updateCurrentProfile({ ideas: newIdeas });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const deleteIdea = useCallback(async (id: string) => {
-    if (!currentProfile) return;
-    await updateCurrentProfile({ ideas: currentProfile.ideas.filter(i => i.id !== id) });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const convertIdeaToProject = useCallback(async (ideaId: string) => {
-    if (!currentProfile) return;
-    const idea = currentProfile.ideas.find(i => i.id === ideaId);
-    if (!idea) return;
-    
-    const now = new Date().toISOString();
-    const newProject: Project = {
-      id: uuidv4(),
-      title: idea.title,
-      description: idea.notes,
-      areaId: idea.areaId || currentProfile.areas[0]?.id || '',
-      status: 'backlog',
-      priority: 'medium',
-      tags: idea.tags,
-      createdAt: now,
-      updatedAt: now,
-    };
-    
-    await updateCurrentProfile({ 
-      projects: [...currentProfile.projects, newProject],
-      ideas: currentProfile.ideas.filter(i => i.id !== ideaId),
-    });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const convertIdeaToTask = useCallback(async (ideaId: string, projectId?: string) => {
-    if (!currentProfile) return;
-    const idea = currentProfile.ideas.find(i => i.id === ideaId);
-    if (!idea) return;
-    
-    const now = new Date().toISOString();
-    const newTask: Task = {
-      id: uuidv4(),
-      projectId,
-      title: idea.title,
-      description: idea.notes,
-      status: 'todo',
-      priority: 'medium',
-      tags: idea.tags,
-      areaId: idea.areaId,
-      createdAt: now,
-      updatedAt: now,
-      checklistItems: [],
-    };
-    
-    await updateCurrentProfile({ 
-      tasks: [...currentProfile.tasks, newTask],
-      ideas: currentProfile.ideas.filter(i => i.id !== ideaId),
-    });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const archiveIdea = useCallback(async (id: string) => {
-    await updateIdea(id, { archived: true });
+    updateCurrentProfile(profile => ({ ideas: [...profile.ideas, newIdea] }), 'Create idea');
+  }, [updateCurrentProfile]);
+
+  const updateIdea = useCallback((id: string, updates: Partial<Idea>) => {
+    updateCurrentProfile(profile => ({
+      ideas: profile.ideas.map(i => i.id === id ? { ...i, ...updates } : i),
+    }), 'Edit idea');
+  }, [updateCurrentProfile]);
+
+  const deleteIdea = useCallback((id: string) => {
+    let title: string | undefined;
+    const entry = updateCurrentProfile(profile => {
+      title = profile.ideas.find(i => i.id === id)?.title;
+      return moveToTrash(profile, 'ideas', id);
+    }, 'Delete idea');
+    showUndoToast(entry, title);
+  }, [updateCurrentProfile, showUndoToast]);
+
+  const convertIdeaToProject = useCallback((ideaId: string) => {
+    updateCurrentProfile(profile => {
+      const idea = profile.ideas.find(i => i.id === ideaId);
+      if (!idea) return null;
+
+      const now = new Date().toISOString();
+      const newProject: Project = {
+        id: uuidv4(),
+        title: idea.title,
+        description: idea.notes,
+        areaId: idea.areaId || profile.areas.find(a => !a.deletedAt)?.id || '',
+        status: 'backlog',
+        priority: 'medium',
+        tags: idea.tags,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      return {
+        projects: [...profile.projects, newProject],
+        ideas: profile.ideas.filter(i => i.id !== ideaId),
+      };
+    }, 'Convert idea to project');
+  }, [updateCurrentProfile]);
+
+  const convertIdeaToTask = useCallback((ideaId: string, projectId?: string) => {
+    updateCurrentProfile(profile => {
+      const idea = profile.ideas.find(i => i.id === ideaId);
+      if (!idea) return null;
+
+      const now = new Date().toISOString();
+      const newTask: Task = {
+        id: uuidv4(),
+        projectId,
+        title: idea.title,
+        description: idea.notes,
+        status: 'todo',
+        priority: 'medium',
+        tags: idea.tags,
+        areaId: idea.areaId,
+        createdAt: now,
+        updatedAt: now,
+        checklistItems: [],
+      };
+
+      return {
+        tasks: [...profile.tasks, newTask],
+        ideas: profile.ideas.filter(i => i.id !== ideaId),
+      };
+    }, 'Convert idea to task');
+  }, [updateCurrentProfile]);
+
+  const archiveIdea = useCallback((id: string) => {
+    updateIdea(id, { archived: true });
   }, [updateIdea]);
-  
+
   // Tag actions
-  const createTag = useCallback(async (tag: Omit<Tag, 'id'>) => {
-    if (!currentProfile) return;
+  const createTag = useCallback((tag: Omit<Tag, 'id'>) => {
     const newTag: Tag = { ...tag, id: uuidv4() };
-    await updateCurrentProfile({ tags: [...currentProfile.tags, newTag] });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const updateTag = useCallback(async (id: string, updates: Partial<Tag>) => {
-    if (!currentProfile) return;
-    const newTags = currentProfile.tags.map(t => 
-      t.id === id ? { ...t, ...updates } : t
-    );
-    await updateCurrentProfile({ tags: newTags });
-  }, [currentProfile, updateCurrentProfile]);
-  
-  const deleteTag = useCallback(async (id: string) => {
-    if (!currentProfile) return;
-    // Remove tag from all entities
-    const newProjects = currentProfile.projects.map(p => ({
-      ...p,
-      tags: p.tags.filter(t => t !== id),
-    }));
-    const newTasks = currentProfile.tasks.map(t => ({
-      ...t,
-      tags: t.tags.filter(tag => tag !== id),
-    }));
-    const newIdeas = currentProfile.ideas.map(i => ({
-      ...i,
-      tags: i.tags.filter(t => t !== id),
-    }));
-    
-    await updateCurrentProfile({ 
-      tags: currentProfile.tags.filter(t => t.id !== id),
-      projects: newProjects,
-      tasks: newTasks,
-      ideas: newIdeas,
-    });
-  }, [currentProfile, updateCurrentProfile]);
-  
+    updateCurrentProfile(profile => ({ tags: [...profile.tags, newTag] }), 'Create tag');
+    return newTag.id;
+  }, [updateCurrentProfile]);
+
+  const updateTag = useCallback((id: string, updates: Partial<Tag>) => {
+    updateCurrentProfile(profile => ({
+      tags: profile.tags.map(t => t.id === id ? { ...t, ...updates } : t),
+    }), 'Edit tag');
+  }, [updateCurrentProfile]);
+
+  const deleteTag = useCallback((id: string) => {
+    let name: string | undefined;
+    // Tagged items keep the tag's id until it is purged, so restoring it
+    // tags them again
+    const entry = updateCurrentProfile(profile => {
+      name = profile.tags.find(t => t.id === id)?.name;
+      return moveToTrash(profile, 'tags', id);
+    }, 'Delete tag');
+    showUndoToast(entry, name);
+  }, [updateCurrentProfile, showUndoToast]);
+
+  // Trash
+  const restoreTrashItem = useCallback((id: string) => {
+    updateCurrentProfile(profile => {
+      const restored = restoreFromTrash(profile, id);
+      return restored === profile ? null : restored;
+    }, 'Restore from trash');
+  }, [updateCurrentProfile]);
+
+  const purgeTrashItem = useCallback((id: string) => {
+    let title: string | undefined;
+    const entry = updateCurrentProfile(profile => {
+      title = getTrashItems(profile).find(item => item.id === id)?.title;
+      const purged = purgeFromTrash(profile, [id]);
+      return purged === profile ? null : purged;
+    }, 'Delete permanently');
+    showUndoToast(entry, title);
+  }, [updateCurrentProfile, showUndoToast]);
+
+  const emptyTrash = useCallback(() => {
+    const entry = updateCurrentProfile(profile => {
+      const purged = purgeAllTrash(profile);
+      return purged === profile ? null : purged;
+    }, 'Empty trash');
+    showUndoToast(entry);
+  }, [updateCurrentProfile, showUndoToast]);
+
   // Settings
-  const updateSettings = useCallback(async (settings: Partial<Profile['settings']>) => {
-    if (!currentProfile) return;
-    await updateCurrentProfile({ settings: { ...currentProfile.settings, ...settings } });
-  }, [currentProfile, updateCurrentProfile]);
-  
+  const updateSettings = useCallback((settings: Partial<Profile['settings']>) => {
+    updateCurrentProfile(profile => ({ settings: { ...profile.settings, ...settings } }), 'Change settings');
+  }, [updateCurrentProfile]);
+
+  // Sync conflicts
+  const resolveSyncConflict = useCallback((conflict: SyncConflict, choices: Record<string, ConflictSide>) => {
+    const row = resolveConflict(conflict, choices);
+    applyMergedRows([{ table: conflict.table, row }]);
+    enqueueChanges({ upserts: { [conflict.table]: [row] }, deletes: {} });
+    dismissConflict(conflict);
+  }, [applyMergedRows, enqueueChanges, dismissConflict]);
+
   // Reset
   const resetAllData = useCallback(async () => {
     if (!user) return;
-    const newData = await resetData(user.id);
-    setData(newData);
-  }, [user]);
-  
+    // The snapshot includes unsynced changes. They belong to the data being
+    // reset, so the outbox is only dropped once the reset went through.
+    const newData = await resetData(user.id, latestDataRef.current);
+    clearReplica(user.id);
+    replaceData(newData);
+    saveReplica(user.id, newData);
+  }, [user, replaceData]);
+
+  const restoreSnapshot = useCallback(async (snapshot: AppData, profileId?: string) => {
+    if (!user || !latestDataRef.current) return;
+    // The data being replaced gets a snapshot too, in case undo history is gone by then
+    if (!(await createSnapshot(user.id, latestDataRef.current, 'restore'))) {
+      toast({
+        title: 'Restore failed',
+        description: 'Failed to save a snapshot of your current data, so nothing was restored',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const entry = mutate(
+      current => restoreFromSnapshot(current, snapshot, profileId),
+      profileId ? 'Restore profile from snapshot' : 'Restore snapshot'
+    );
+    if (entry) {
+      showUndoToast(entry);
+    } else {
+      toast({ title: 'Nothing to restore', description: 'Your data already matches this snapshot.' });
+    }
+  }, [user, mutate, showUndoToast]);
+
   // Apply theme
   useEffect(() => {
     if (currentProfile) {
@@ -450,6 +1161,16 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     data: data || null,
     currentProfile: currentProfile || null,
     dataLoading,
+    dataError,
+    syncState,
+    retrySync: flushOutbox,
+    syncConflicts,
+    resolveSyncConflict,
+    batch,
+    canUndo: historySize.undo > 0,
+    canRedo: historySize.redo > 0,
+    undo,
+    redo,
     currentView,
     setCurrentView,
     selectedProjectId,
@@ -470,8 +1191,26 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     createTask,
     updateTask,
     deleteTask,
+    importTasks,
+    importExternalData,
+    applyMarkdownImport,
     updateTaskStatus,
     toggleTaskToday,
+    createSubtask,
+    setTaskParent,
+    addChecklistItem,
+    updateChecklistItem,
+    toggleChecklistItem,
+    deleteChecklistItem,
+    reorderChecklistItems,
+    promoteChecklistItem,
+    startTimer,
+    stopTimer,
+    addTimeEntry,
+    updateTimeEntry,
+    deleteTimeEntry,
+    addTaskDependency,
+    removeTaskDependency,
     createIdea,
     updateIdea,
     deleteIdea,
@@ -481,12 +1220,21 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     createTag,
     updateTag,
     deleteTag,
+    trashItems,
+    restoreTrashItem,
+    purgeTrashItem,
+    emptyTrash,
     updateSettings,
     resetAllData,
+    restoreSnapshot,
     quickAddOpen,
     setQuickAddOpen,
+    commandPaletteOpen,
+    setCommandPaletteOpen,
     selectedTaskId,
     setSelectedTaskId,
+    highlightedTaskId,
+    setHighlightedTaskId,
     sidebarCollapsed,
     setSidebarCollapsed,
   };
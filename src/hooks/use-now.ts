@@ -0,0 +1,17 @@
+import * as React from "react";
+
+/**
+ * Current time that re-renders the caller every `intervalMs` while `enabled`
+ */
+export function useNow(enabled = true, intervalMs = 1000) {
+  const [now, setNow] = React.useState(() => new Date());
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    setNow(new Date());
+    const id = window.setInterval(() => setNow(new Date()), intervalMs);
+    return () => window.clearInterval(id);
+  }, [enabled, intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,153 @@
+import * as React from "react";
+import { v4 as uuidv4 } from "uuid";
+import { RowChanges, TableRow, hasRowChanges, mergeRowChanges } from "@/lib/supabaseRows";
+import { applyRowChanges } from "@/lib/supabaseStorage";
+import { loadOutbox, saveOutbox } from "@/lib/storage";
+import { SyncConflict } from "@/lib/syncMerge";
+
+export type SyncStatus = "synced" | "pending" | "syncing" | "offline" | "error";
+
+export interface SyncState {
+  status: SyncStatus;
+  pendingCount: number;
+  lastSyncedAt?: string;
+  // Why the last save failed, shown to the user
+  error?: string;
+}
+
+const INITIAL_RETRY_MS = 5000;
+const MAX_RETRY_MS = 60000;
+
+/**
+ * Queue of local changes waiting for Supabase. Changes are persisted in
+ * localStorage, flushed in the background, and retried with backoff until
+ * they succeed or connectivity returns. Rows merged with edits from another
+ * device are handed to `onMerged`; unresolvable ones collect in `conflicts`.
+ */
+export function useOutboxSync(userId: string | undefined, onMerged: (rows: TableRow[]) => void) {
+  const [syncState, setSyncState] = React.useState<SyncState>(() => {
+    const pendingCount = userId ? loadOutbox(userId).length : 0;
+    return { status: pendingCount > 0 ? "pending" : "synced", pendingCount };
+  });
+  const [conflicts, setConflicts] = React.useState<SyncConflict[]>([]);
+  const onMergedRef = React.useRef(onMerged);
+  onMergedRef.current = onMerged;
+  const flushingRef = React.useRef<Promise<boolean> | null>(null);
+  const retryTimerRef = React.useRef<number>();
+  const retryDelayRef = React.useRef(INITIAL_RETRY_MS);
+
+  const flush = React.useCallback(async (): Promise<boolean> => {
+    if (!userId) return false;
+    // Only one flush at a time; callers share the running one
+    if (flushingRef.current) return flushingRef.current;
+
+    const run = async (): Promise<boolean> => {
+      window.clearTimeout(retryTimerRef.current);
+
+      const entries = loadOutbox(userId);
+      if (entries.length === 0) {
+        setSyncState(prev => ({ ...prev, status: "synced", pendingCount: 0 }));
+        return true;
+      }
+
+      if (!navigator.onLine) {
+        setSyncState(prev => ({ ...prev, status: "offline", pendingCount: entries.length }));
+        return false;
+      }
+
+      setSyncState(prev => ({ ...prev, status: "syncing", pendingCount: entries.length }));
+      const result = await applyRowChanges(userId, mergeRowChanges(entries.map(entry => entry.changes)));
+      if (result.merged.length > 0) onMergedRef.current(result.merged);
+      if (result.conflicts.length > 0) {
+        // A newer conflict on the same row replaces the older one
+        const isReplaced = (conflict: SyncConflict) =>
+          result.conflicts.some(c => c.table === conflict.table && c.rowId === conflict.rowId);
+        setConflicts(prev => [...prev.filter(conflict => !isReplaced(conflict)), ...result.conflicts]);
+      }
+      const { success } = result;
+
+      if (!success) {
+        setSyncState(prev => ({
+          ...prev,
+          status: navigator.onLine ? "error" : "offline",
+          pendingCount: entries.length,
+          error: result.error,
+        }));
+        retryTimerRef.current = window.setTimeout(() => flush(), retryDelayRef.current);
+        retryDelayRef.current = Math.min(retryDelayRef.current * 2, MAX_RETRY_MS);
+        return false;
+      }
+
+      // Entries queued while this flush was running stay for the next one
+      const flushedIds = new Set(entries.map(entry => entry.id));
+      const remaining = loadOutbox(userId).filter(entry => !flushedIds.has(entry.id));
+      saveOutbox(userId, remaining);
+      retryDelayRef.current = INITIAL_RETRY_MS;
+      setSyncState({
+        status: remaining.length > 0 ? "pending" : "synced",
+        pendingCount: remaining.length,
+        lastSyncedAt: new Date().toISOString(),
+      });
+      return true;
+    };
+
+    // Tabs share the outbox; the lock keeps them from writing the same entries twice
+    const locked = navigator.locks ? navigator.locks.request(`lifePMOutbox:${userId}`, run) : run();
+    flushingRef.current = locked.finally(() => {
+      flushingRef.current = null;
+    });
+    const success = await flushingRef.current;
+    // Pick up anything queued while the flush was running
+    if (success && loadOutbox(userId).length > 0) return flush();
+    return success;
+  }, [userId]);
+
+  const enqueue = React.useCallback((changes: RowChanges) => {
+    if (!userId || !hasRowChanges(changes)) return;
+    const entries = [...loadOutbox(userId), { id: uuidv4(), createdAt: new Date().toISOString(), changes }];
+    if (!saveOutbox(userId, entries)) {
+      setSyncState(prev => ({
+        ...prev,
+        status: "error",
+        error: "Device storage is full; recent changes may not be saved",
+      }));
+      return;
+    }
+    setSyncState(prev => ({ ...prev, status: "pending", pendingCount: entries.length }));
+    flush();
+  }, [userId, flush]);
+
+  // Local storage failures happen outside the outbox but show the same way
+  const reportError = React.useCallback((error: string) => {
+    setSyncState(prev => ({ ...prev, status: "error", error }));
+  }, []);
+
+  const dismissConflict = React.useCallback((conflict: SyncConflict) => {
+    setConflicts(prev => prev.filter(c => c !== conflict));
+  }, []);
+
+  // Pick up the queue left by a previous session, and flush whenever the
+  // browser comes back online
+  React.useEffect(() => {
+    if (!userId) return;
+    const pendingCount = loadOutbox(userId).length;
+    setSyncState({ status: pendingCount > 0 ? "pending" : "synced", pendingCount });
+    setConflicts([]);
+
+    const handleOnline = () => {
+      retryDelayRef.current = INITIAL_RETRY_MS;
+      flush();
+    };
+    const handleOffline = () => setSyncState(prev => (prev.pendingCount > 0 ? { ...prev, status: "offline" } : prev));
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.clearTimeout(retryTimerRef.current);
+    };
+  }, [userId, flush]);
+
+  return { syncState, enqueue, flush, reportError, conflicts, dismissConflict };
+}
@@ -0,0 +1,97 @@
+import * as React from "react";
+import { supabase } from "@/lib/supabase";
+import {
+  Row,
+  RowChanges,
+  TABLES_IN_WRITE_ORDER,
+  hasRowChanges,
+  mergeRowChanges,
+} from "@/lib/supabaseRows";
+import { acceptRemoteChanges } from "@/lib/supabaseStorage";
+
+// Events arrive one row at a time; a bulk write is applied as one update
+const BATCH_DELAY_MS = 150;
+
+interface TabMessage {
+  changes: RowChanges;
+}
+
+/**
+ * Keeps the in-memory data in step with changes made elsewhere: other devices
+ * through Supabase realtime, and other tabs of this browser through a
+ * BroadcastChannel. Returns `broadcast`, which tells the other tabs about a
+ * local change.
+ */
+export function useRealtimeSync(userId: string | undefined, onChanges: (changes: RowChanges) => void) {
+  const onChangesRef = React.useRef(onChanges);
+  onChangesRef.current = onChanges;
+  const tabChannelRef = React.useRef<BroadcastChannel | null>(null);
+
+  // Other devices
+  React.useEffect(() => {
+    if (!userId) return;
+
+    let received: RowChanges[] = [];
+    let batchTimer: number | undefined;
+    const deliver = () => {
+      const changes = acceptRemoteChanges(userId, mergeRowChanges(received));
+      received = [];
+      if (hasRowChanges(changes)) onChangesRef.current(changes);
+    };
+    const receive = (changes: RowChanges) => {
+      received.push(changes);
+      window.clearTimeout(batchTimer);
+      batchTimer = window.setTimeout(deliver, BATCH_DELAY_MS);
+    };
+
+    const channel = supabase.channel(`user-data:${userId}`);
+    TABLES_IN_WRITE_ORDER.forEach(table => {
+      const filter = `user_id=eq.${userId}`;
+      channel
+        .on("postgres_changes", { event: "INSERT", schema: "public", table, filter }, payload =>
+          receive({ upserts: { [table]: [payload.new as Row] }, deletes: {} })
+        )
+        .on("postgres_changes", { event: "UPDATE", schema: "public", table, filter }, payload =>
+          receive({ upserts: { [table]: [payload.new as Row] }, deletes: {} })
+        )
+        // Supabase can't filter delete events, and doesn't check row-level
+        // security for them either, so deletes from every user arrive here.
+        // The old row carries the primary key, which includes the user id;
+        // IDs that aren't in the local data are ignored when applied.
+        .on("postgres_changes", { event: "DELETE", schema: "public", table }, payload => {
+          const old = payload.old as Partial<Row>;
+          if (old.user_id !== userId || !old.id) return;
+          receive({ upserts: {}, deletes: { [table]: [old.id] } });
+        });
+    });
+    channel.subscribe();
+
+    return () => {
+      window.clearTimeout(batchTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  // Other tabs. They share the replica and outbox in localStorage, so only
+  // the in-memory data needs updating.
+  React.useEffect(() => {
+    if (!userId || typeof BroadcastChannel === "undefined") return;
+
+    const tabChannel = new BroadcastChannel(`lifePM:${userId}`);
+    tabChannel.onmessage = (event: MessageEvent<TabMessage>) => onChangesRef.current(event.data.changes);
+    tabChannelRef.current = tabChannel;
+
+    return () => {
+      tabChannel.close();
+      tabChannelRef.current = null;
+    };
+  }, [userId]);
+
+  const broadcast = React.useCallback((changes: RowChanges) => {
+    if (!hasRowChanges(changes)) return;
+    const message: TabMessage = { changes };
+    tabChannelRef.current?.postMessage(message);
+  }, []);
+
+  return { broadcast };
+}
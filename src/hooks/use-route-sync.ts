@@ -0,0 +1,63 @@
+import * as React from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { ViewType } from "@/lib/types";
+import { getRoutePath, parseRoutePath } from "@/lib/routes";
+
+interface RouteSyncState {
+  currentView: ViewType;
+  selectedProjectId: string | null;
+  selectedAreaId: string | null;
+  selectedTaskId: string | null;
+}
+
+interface RouteSyncSetters {
+  setCurrentView: (view: ViewType) => void;
+  setSelectedProjectId: (id: string | null) => void;
+  setSelectedAreaId: (id: string | null) => void;
+  setSelectedTaskId: (id: string | null) => void;
+}
+
+/**
+ * Keep navigation state and the browser URL in sync in both directions.
+ * The URL wins on load and on back/forward; state changes push new entries.
+ */
+export function useRouteSync(state: RouteSyncState, setters: RouteSyncSetters) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { setCurrentView, setSelectedProjectId, setSelectedAreaId, setSelectedTaskId } = setters;
+
+  const statePath = getRoutePath({
+    view: state.currentView,
+    projectId: state.selectedProjectId,
+    areaId: state.selectedAreaId,
+    taskId: state.selectedTaskId,
+  });
+
+  // URL -> state
+  React.useEffect(() => {
+    const route = parseRoutePath(location.pathname);
+    if (route.view) {
+      setCurrentView(route.view);
+      setSelectedProjectId(route.projectId ?? null);
+      setSelectedAreaId(route.areaId ?? null);
+    }
+    setSelectedTaskId(route.taskId ?? null);
+  }, [location.pathname, setCurrentView, setSelectedProjectId, setSelectedAreaId, setSelectedTaskId]);
+
+  // State -> URL. Only react to state changes, not to the initial render,
+  // so a deep link isn't overwritten before it has been applied.
+  const previousPathRef = React.useRef(statePath);
+  const pathnameRef = React.useRef(location.pathname);
+  pathnameRef.current = location.pathname;
+
+  React.useEffect(() => {
+    const previousPath = previousPathRef.current;
+    if (statePath === previousPath) return;
+    previousPathRef.current = statePath;
+    if (statePath === pathnameRef.current) return;
+
+    // Closing a task dialog replaces its entry so Back doesn't reopen it
+    const closingTask = previousPath.startsWith("/tasks/") && !statePath.startsWith("/tasks/");
+    navigate(statePath, { replace: closingTask });
+  }, [statePath, navigate]);
+}
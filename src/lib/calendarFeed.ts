@@ -0,0 +1,78 @@
+/**
+ * Calendar feed links for the Life PM application
+ * Each user can have one secret token. The calendar-feed edge function
+ * serves the user's calendar to anyone with the token, so calendar apps can
+ * subscribe without signing in; replacing the token revokes old links.
+ */
+
+import { supabase } from './supabase';
+import { CalendarFilter, calendarFilterToParams } from './ical';
+
+const FEED_FUNCTION = 'calendar-feed';
+
+/**
+ * A random token, hex encoded
+ */
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The user's feed token, or null if they don't have a feed
+ */
+export async function getCalendarFeedToken(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Error loading calendar feed:', error);
+    return null;
+  }
+  return (data as { token: string } | null)?.token ?? null;
+}
+
+/**
+ * Create the user's feed, or replace its token so existing links stop working
+ */
+export async function resetCalendarFeedToken(userId: string): Promise<string | null> {
+  const token = generateToken();
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .upsert({ user_id: userId, token, created_at: new Date().toISOString() });
+
+  if (error) {
+    console.error('❌ Error saving calendar feed:', error);
+    return null;
+  }
+  return token;
+}
+
+/**
+ * Turn off the user's feed
+ */
+export async function deleteCalendarFeed(userId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('❌ Error deleting calendar feed:', error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * The feed URL for a profile, with filter options in the query
+ */
+export function getCalendarFeedUrl(token: string, profileId: string, filter: CalendarFilter): string {
+  const params = calendarFilterToParams(filter);
+  params.set('token', token);
+  params.set('profile', profileId);
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${FEED_FUNCTION}?${params}`;
+}
@@ -0,0 +1,400 @@
+/**
+ * CSV export and import for the Life PM application
+ * Exports tasks, projects and ideas with names resolved for spreadsheets,
+ * and turns spreadsheet rows into tasks, coercing free-form status,
+ * priority, date and duration values.
+ */
+
+import { format, isValid, parse, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { Idea, Priority, Profile, Project, Tag, Task, TaskStatus } from './types';
+
+export type CsvEntity = 'tasks' | 'projects' | 'ideas';
+
+export interface CsvColumn<T> {
+  key: string;
+  label: string;
+  // Selected unless the user changes it
+  default?: boolean;
+  value: (item: T, profile: Profile) => string | number | boolean | undefined;
+}
+
+const formatDate = (iso: string | undefined) => (iso ? format(parseISO(iso), 'yyyy-MM-dd') : undefined);
+const formatDateTime = (iso: string | undefined) => (iso ? format(parseISO(iso), 'yyyy-MM-dd HH:mm') : undefined);
+
+const areaName = (profile: Profile, areaId: string | undefined) =>
+  areaId ? profile.areas.find(a => a.id === areaId)?.name : undefined;
+
+const tagNames = (profile: Profile, tagIds: string[]) =>
+  tagIds.map(id => profile.tags.find(t => t.id === id)?.name).filter(Boolean).join(', ');
+
+const projectOf = (profile: Profile, task: Task) =>
+  task.projectId ? profile.projects.find(p => p.id === task.projectId) : undefined;
+
+export const TASK_COLUMNS: CsvColumn<Task>[] = [
+  { key: 'title', label: 'Title', default: true, value: t => t.title },
+  { key: 'status', label: 'Status', default: true, value: t => t.status },
+  { key: 'priority', label: 'Priority', default: true, value: t => t.priority },
+  { key: 'project', label: 'Project', default: true, value: (t, profile) => projectOf(profile, t)?.title },
+  // Tasks in a project belong to the project's area
+  { key: 'area', label: 'Area', default: true, value: (t, profile) => areaName(profile, t.areaId || projectOf(profile, t)?.areaId) },
+  { key: 'tags', label: 'Tags', default: true, value: (t, profile) => tagNames(profile, t.tags) },
+  { key: 'dueDate', label: 'Due Date', default: true, value: t => formatDate(t.dueDate) },
+  { key: 'today', label: 'Today', value: t => !!t.isToday },
+  { key: 'estimate', label: 'Estimate (min)', value: t => t.estimateMinutes },
+  { key: 'timeSpent', label: 'Time Spent (min)', value: t => t.timeSpentMinutes },
+  { key: 'parent', label: 'Parent Task', value: (t, profile) => t.parentTaskId ? profile.tasks.find(p => p.id === t.parentTaskId)?.title : undefined },
+  { key: 'checklist', label: 'Checklist', value: t => t.checklistItems.length > 0 ? `${t.checklistItems.filter(i => i.done).length}/${t.checklistItems.length}` : undefined },
+  { key: 'description', label: 'Description', value: t => t.description },
+  { key: 'createdAt', label: 'Created', value: t => formatDateTime(t.createdAt) },
+  { key: 'completedAt', label: 'Completed', value: t => formatDateTime(t.completedAt) },
+  { key: 'id', label: 'ID', value: t => t.id },
+];
+
+export const PROJECT_COLUMNS: CsvColumn<Project>[] = [
+  { key: 'title', label: 'Title', default: true, value: p => p.title },
+  { key: 'status', label: 'Status', default: true, value: p => p.status },
+  { key: 'priority', label: 'Priority', default: true, value: p => p.priority },
+  { key: 'area', label: 'Area', default: true, value: (p, profile) => areaName(profile, p.areaId) },
+  { key: 'tags', label: 'Tags', default: true, value: (p, profile) => tagNames(profile, p.tags) },
+  { key: 'startDate', label: 'Start Date', value: p => formatDate(p.startDate) },
+  { key: 'dueDate', label: 'Due Date', default: true, value: p => formatDate(p.dueDate) },
+  { key: 'tasks', label: 'Tasks', value: (p, profile) => profile.tasks.filter(t => t.projectId === p.id).length },
+  { key: 'openTasks', label: 'Open Tasks', value: (p, profile) => profile.tasks.filter(t => t.projectId === p.id && t.status !== 'done').length },
+  { key: 'goalType', label: 'Goal Type', value: p => p.goalType },
+  { key: 'focus', label: 'Focus', value: p => !!p.isFocus },
+  { key: 'archived', label: 'Archived', value: p => !!p.archived },
+  { key: 'description', label: 'Description', value: p => p.description },
+  { key: 'createdAt', label: 'Created', value: p => formatDateTime(p.createdAt) },
+  { key: 'id', label: 'ID', value: p => p.id },
+];
+
+export const IDEA_COLUMNS: CsvColumn<Idea>[] = [
+  { key: 'title', label: 'Title', default: true, value: i => i.title },
+  { key: 'area', label: 'Area', default: true, value: (i, profile) => areaName(profile, i.areaId) },
+  { key: 'tags', label: 'Tags', default: true, value: (i, profile) => tagNames(profile, i.tags) },
+  { key: 'notes', label: 'Notes', default: true, value: i => i.notes },
+  { key: 'archived', label: 'Archived', value: i => !!i.archived },
+  { key: 'createdAt', label: 'Created', value: i => formatDateTime(i.createdAt) },
+  { key: 'id', label: 'ID', value: i => i.id },
+];
+
+export interface CsvEntityItems {
+  tasks: Task;
+  projects: Project;
+  ideas: Idea;
+}
+
+export const CSV_COLUMNS: { [E in CsvEntity]: CsvColumn<CsvEntityItems[E]>[] } = {
+  tasks: TASK_COLUMNS,
+  projects: PROJECT_COLUMNS,
+  ideas: IDEA_COLUMNS,
+};
+
+/**
+ * Quote a field if it needs it. Text a spreadsheet would run as a formula
+ * is prefixed with an apostrophe.
+ */
+function toCsvField(value: string | number | boolean | undefined): string {
+  if (value === undefined || value === null) return '';
+  let text = typeof value === 'boolean' ? (value ? 'yes' : 'no') : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Undo the formula guard toCsvField adds, so exported files import back
+ * unchanged
+ */
+function fromCsvField(value: string): string {
+  return value.replace(/^'(?=[=+\-@\t\r])/, '').trim();
+}
+
+/**
+ * Serialize rows as CSV, with a byte order mark so spreadsheets read it as UTF-8
+ */
+export function toCsv(rows: (string | number | boolean | undefined)[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * CSV of the given items with the chosen columns, in column definition order
+ */
+export function exportCsv<E extends CsvEntity>(
+  profile: Profile,
+  entity: E,
+  items: CsvEntityItems[E][],
+  columnKeys: string[]
+): string {
+  const columns = (CSV_COLUMNS[entity] as CsvColumn<CsvEntityItems[E]>[]).filter(c => columnKeys.includes(c.key));
+  return toCsv([
+    columns.map(c => c.label),
+    ...items.map(item => columns.map(c => c.value(item, profile))),
+  ]);
+}
+
+/**
+ * Guess the delimiter from the first line: comma, semicolon or tab
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = [',', ';', '\t'].map(d => ({ d, count: firstLine.split(d).length - 1 }));
+  return counts.reduce((best, c) => (c.count > best.count ? c : best)).d;
+}
+
+/**
+ * Parse CSV text into rows of fields. Handles quoted fields with delimiters,
+ * quotes and line breaks in them; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+export type TaskCsvField = 'title' | 'description' | 'status' | 'priority' | 'dueDate' | 'tags' | 'estimate' | 'today';
+
+export const TASK_CSV_FIELDS: { field: TaskCsvField; label: string; aliases: string[] }[] = [
+  { field: 'title', label: 'Title', aliases: ['title', 'task', 'name', 'summary', 'subject', 'content'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'notes', 'note', 'details', 'body'] },
+  { field: 'status', label: 'Status', aliases: ['status', 'state', 'stage', 'done', 'completed'] },
+  { field: 'priority', label: 'Priority', aliases: ['priority', 'importance', 'urgency'] },
+  { field: 'dueDate', label: 'Due Date', aliases: ['due date', 'due', 'deadline', 'date', 'due on'] },
+  { field: 'tags', label: 'Tags', aliases: ['tags', 'tag', 'labels', 'label', 'categories', 'category'] },
+  { field: 'estimate', label: 'Estimate', aliases: ['estimate', 'estimate (min)', 'duration', 'time', 'effort'] },
+  { field: 'today', label: 'Today', aliases: ['today', 'is today'] },
+];
+
+// Column index -> task field, null for columns that aren't imported
+export type TaskCsvMapping = (TaskCsvField | null)[];
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+
+/**
+ * Map header names onto task fields; each field is used at most once
+ */
+export function guessTaskCsvMapping(headers: string[]): TaskCsvMapping {
+  const used = new Set<TaskCsvField>();
+  return headers.map(header => {
+    const name = normalize(header);
+    const match = TASK_CSV_FIELDS.find(f => !used.has(f.field) && f.aliases.includes(name));
+    if (!match) return null;
+    used.add(match.field);
+    return match.field;
+  });
+}
+
+const STATUS_VALUES: Record<TaskStatus, string[]> = {
+  backlog: ['backlog', 'someday', 'later', 'icebox', 'maybe'],
+  todo: ['todo', 'to do', 'open', 'new', 'pending', 'not started', 'no', 'false'],
+  'in-progress': ['in progress', 'doing', 'started', 'active', 'wip', 'working'],
+  blocked: ['blocked', 'waiting', 'on hold', 'stuck'],
+  done: ['done', 'complete', 'completed', 'closed', 'finished', 'resolved', 'yes', 'true', 'x'],
+};
+
+const TRUE_VALUES = ['yes', 'y', 'true', 'x', '1'];
+
+const PRIORITY_VALUES: Record<Priority, string[]> = {
+  low: ['low', 'l', 'p4', '4', 'minor', 'lowest'],
+  medium: ['medium', 'med', 'm', 'normal', 'p3', '3', 'moderate'],
+  high: ['high', 'h', 'p2', '2', 'important', 'major'],
+  critical: ['critical', 'urgent', 'highest', 'blocker', 'p1', '1', 'asap'],
+};
+
+/**
+ * Read a status from spreadsheet wording; null if it isn't recognized
+ */
+export function coerceTaskStatus(value: string): TaskStatus | null {
+  const name = normalize(value);
+  const match = (Object.keys(STATUS_VALUES) as TaskStatus[]).find(status =>
+    status === name || STATUS_VALUES[status].includes(name)
+  );
+  return match || null;
+}
+
+/**
+ * Read a priority from spreadsheet wording; null if it isn't recognized
+ */
+export function coercePriority(value: string): Priority | null {
+  const name = normalize(value);
+  const match = (Object.keys(PRIORITY_VALUES) as Priority[]).find(priority => PRIORITY_VALUES[priority].includes(name));
+  return match || null;
+}
+
+// Tried in order; ambiguous day/month dates are read month first
+const DATE_FORMATS = ['yyyy-MM-dd', 'yyyy/MM/dd', 'MM/dd/yyyy', 'M/d/yyyy', 'dd.MM.yyyy', 'd.M.yyyy', 'd MMM yyyy', 'MMM d, yyyy', 'MMMM d, yyyy'];
+
+/**
+ * Read a date (start of day, local time) as an ISO string; null if it
+ * can't be read
+ */
+export function coerceDate(value: string): string | null {
+  const text = value.trim();
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date)) return date.toISOString();
+  }
+  const iso = parseISO(text);
+  return isValid(iso) ? iso.toISOString() : null;
+}
+
+/**
+ * Read a duration in minutes: "90", "90m", "1.5h", "1h 30m"; null if it
+ * can't be read
+ */
+export function coerceMinutes(value: string): number | null {
+  const text = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(Number(text));
+  const match = text.match(/^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:utes?|s)?)?)?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  return Math.round(Number(match[1] || 0) * 60 + Number(match[2] || 0));
+}
+
+export interface CsvImportIssue {
+  // 1-based, counting the header row, as a spreadsheet shows it
+  row: number;
+  message: string;
+}
+
+export interface TaskCsvImport {
+  tasks: Task[];
+  // Tags that don't exist yet and are created for the tasks
+  tags: Tag[];
+  issues: CsvImportIssue[];
+  // Rows without a title
+  skipped: number;
+}
+
+export interface TaskCsvImportOptions {
+  projectId?: string;
+  defaultStatus: TaskStatus;
+  defaultPriority: Priority;
+}
+
+/**
+ * Turn data rows into tasks using a column mapping. Values that can't be
+ * read fall back to the defaults and are reported.
+ */
+export function buildTasksFromCsv(
+  profile: Profile,
+  rows: string[][],
+  mapping: TaskCsvMapping,
+  options: TaskCsvImportOptions,
+  now: Date = new Date()
+): TaskCsvImport {
+  const result: TaskCsvImport = { tasks: [], tags: [], issues: [], skipped: 0 };
+  const existingTags = profile.tags.filter(t => !t.deletedAt);
+  const findTag = (name: string) =>
+    [...existingTags, ...result.tags].find(t => normalize(t.name) === normalize(name));
+  const timestamp = now.toISOString();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const cell = (field: TaskCsvField) => {
+      const column = mapping.indexOf(field);
+      return column >= 0 ? fromCsvField(row[column] ?? '') : '';
+    };
+    const report = (message: string) => result.issues.push({ row: rowNumber, message });
+
+    const title = cell('title');
+    if (!title) {
+      result.skipped++;
+      return;
+    }
+
+    const task: Task = {
+      id: uuidv4(),
+      projectId: options.projectId,
+      title,
+      status: options.defaultStatus,
+      priority: options.defaultPriority,
+      tags: [],
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      checklistItems: [],
+    };
+
+    const description = cell('description');
+    if (description) task.description = description;
+
+    const status = cell('status');
+    if (status) {
+      const coerced = coerceTaskStatus(status);
+      if (coerced) task.status = coerced;
+      else report(`Unknown status "${status}", using ${options.defaultStatus}`);
+    }
+    if (task.status === 'done') task.completedAt = timestamp;
+
+    const priority = cell('priority');
+    if (priority) {
+      const coerced = coercePriority(priority);
+      if (coerced) task.priority = coerced;
+      else report(`Unknown priority "${priority}", using ${options.defaultPriority}`);
+    }
+
+    const dueDate = cell('dueDate');
+    if (dueDate) {
+      const coerced = coerceDate(dueDate);
+      if (coerced) task.dueDate = coerced;
+      else report(`Couldn't read due date "${dueDate}"`);
+    }
+
+    const estimate = cell('estimate');
+    if (estimate) {
+      const coerced = coerceMinutes(estimate);
+      if (coerced !== null) task.estimateMinutes = coerced;
+      else report(`Couldn't read estimate "${estimate}"`);
+    }
+
+    const today = cell('today');
+    if (today) task.isToday = TRUE_VALUES.includes(normalize(today));
+
+    cell('tags').split(/[,;|]/).map(name => name.trim().replace(/^#/, '')).filter(Boolean).forEach(name => {
+      let tag = findTag(name);
+      if (!tag) {
+        tag = { id: uuidv4(), name };
+        result.tags.push(tag);
+      }
+      if (!task.tags.includes(tag.id)) task.tags.push(tag.id);
+    });
+
+    result.tasks.push(task);
+  });
+
+  return result;
+}
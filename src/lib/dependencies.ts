@@ -0,0 +1,103 @@
+/**
+ * Task dependency helpers
+ * Tracks "blocked by" links between tasks and derives blocked status from them
+ */
+
+import { Task } from './types';
+
+/**
+ * Get the tasks that directly block a task and are not yet done. Blockers in
+ * the trash don't count, but block again if restored.
+ */
+export function getOpenBlockers(task: Task, tasks: Task[]): Task[] {
+  if (!task.blockedBy || task.blockedBy.length === 0) return [];
+  return tasks.filter(t => task.blockedBy!.includes(t.id) && t.status !== 'done' && !t.deletedAt);
+}
+
+/**
+ * Check whether making `blockerId` a blocker of `taskId` would create a cycle,
+ * i.e. whether `taskId` is already (transitively) blocking `blockerId`
+ */
+export function wouldCreateCycle(tasks: Task[], taskId: string, blockerId: string): boolean {
+  if (taskId === blockerId) return true;
+
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const visited = new Set<string>();
+  const stack = [blockerId];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(byId.get(id)?.blockedBy || []));
+  }
+
+  return false;
+}
+
+/**
+ * Get every upstream task a task depends on, ordered from the task's direct
+ * blockers outwards, with the depth at which each one appears
+ */
+export function getDependencyChain(task: Task, tasks: Task[]): { task: Task; depth: number }[] {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const chain: { task: Task; depth: number }[] = [];
+  const visited = new Set<string>([task.id]);
+  let frontier = task.blockedBy || [];
+  let depth = 1;
+
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    frontier.forEach(id => {
+      const blocker = byId.get(id);
+      if (!blocker || visited.has(id)) return;
+      visited.add(id);
+      chain.push({ task: blocker, depth });
+      next.push(...(blocker.blockedBy || []));
+    });
+    frontier = next;
+    depth++;
+  }
+
+  return chain;
+}
+
+/**
+ * Get the tasks that list `taskId` as a blocker
+ */
+export function getDependents(taskId: string, tasks: Task[]): Task[] {
+  return tasks.filter(t => t.blockedBy?.includes(taskId));
+}
+
+/**
+ * Move tasks into `blocked` while any blocker is open and back to `todo` once
+ * all blockers are done. Tasks without dependencies keep their manual status,
+ * and done tasks are never touched. Returns the same array if nothing changed.
+ */
+export function syncBlockedStatuses(tasks: Task[]): Task[] {
+  const ids = new Set(tasks.map(t => t.id));
+  let changed = false;
+
+  const synced = tasks.map(task => {
+    if (!task.blockedBy || task.blockedBy.length === 0) return task;
+
+    // Drop links to tasks that no longer exist
+    const blockedBy = task.blockedBy.filter(id => ids.has(id));
+    let updated = blockedBy.length === task.blockedBy.length ? task : { ...task, blockedBy };
+
+    if (task.status !== 'done') {
+      const hasOpenBlockers = getOpenBlockers(updated, tasks).length > 0;
+      if (hasOpenBlockers && task.status !== 'blocked') {
+        updated = { ...updated, status: 'blocked', updatedAt: new Date().toISOString() };
+      } else if (!hasOpenBlockers && task.status === 'blocked') {
+        updated = { ...updated, status: 'todo', updatedAt: new Date().toISOString() };
+      }
+    }
+
+    if (updated !== task) changed = true;
+    return updated;
+  });
+
+  return changed ? synced : tasks;
+}
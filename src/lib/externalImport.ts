@@ -0,0 +1,749 @@
+/**
+ * Importers for other task managers
+ * Reads Todoist backups (CSV or JSON), Trello board exports and Things 3
+ * JSON into one shape, then plans how it lands in a profile: boards, lists
+ * and sections become projects, labels become tags (matched by name) and
+ * projects that already exist are reported as conflicts.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Area, ChecklistItem, Priority, Profile, Project, ProjectStatus, Tag, Task, TaskStatus } from './types';
+import { coerceDate, coercePriority, coerceTaskStatus, parseCsv } from './csv';
+
+export type ExternalSource = 'todoist' | 'trello' | 'things';
+
+export const EXTERNAL_SOURCE_LABELS: Record<ExternalSource, string> = {
+  todoist: 'Todoist',
+  trello: 'Trello',
+  things: 'Things',
+};
+
+export interface ExternalTask {
+  // ID in the source app, or a made-up one if it has none
+  key: string;
+  parentKey?: string;
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  priority: Priority;
+  labels: string[];
+  dueDate?: string;
+  isToday?: boolean;
+  estimateMinutes?: number;
+  createdAt?: string;
+  completedAt?: string;
+  checklist: Omit<ChecklistItem, 'id'>[];
+  // Todoist section, Trello list or Things heading
+  section?: string;
+  // Only for tasks outside a project
+  areaName?: string;
+}
+
+export interface ExternalProject {
+  key: string;
+  title: string;
+  description?: string;
+  status: ProjectStatus;
+  labels: string[];
+  dueDate?: string;
+  createdAt?: string;
+  areaName?: string;
+  tasks: ExternalTask[];
+}
+
+export interface ExternalImportIssue {
+  // What the issue is about, e.g. a task title or file name
+  item: string;
+  message: string;
+}
+
+export interface ExternalData {
+  source: ExternalSource;
+  projects: ExternalProject[];
+  // Tasks outside any project
+  tasks: ExternalTask[];
+  // Label name -> hex color, where the source has colors
+  labelColors: Record<string, string>;
+  issues: ExternalImportIssue[];
+}
+
+// The parts of each app's export that are read; everything is optional
+// because exports differ between app versions
+
+type Id = string | number;
+
+interface TodoistJsonItem {
+  id: Id;
+  content?: string;
+  description?: string;
+  project_id?: Id;
+  section_id?: Id | null;
+  parent_id?: Id | null;
+  priority?: number;
+  labels?: Id[];
+  due?: { date?: string } | null;
+  deadline?: { date?: string } | null;
+  checked?: boolean;
+  is_completed?: boolean;
+  completed_at?: string | null;
+  added_at?: string;
+  created_at?: string;
+  duration?: { amount: number; unit: string } | null;
+  is_deleted?: boolean;
+}
+
+interface TodoistJson {
+  projects: { id: Id; name: string; description?: string; is_archived?: boolean; is_deleted?: boolean; created_at?: string }[];
+  items?: TodoistJsonItem[];
+  tasks?: TodoistJsonItem[];
+  sections?: { id: Id; name: string }[];
+  labels?: { id: Id; name: string }[];
+}
+
+interface TrelloJson {
+  id: string;
+  name?: string;
+  desc?: string;
+  closed?: boolean;
+  lists: { id: string; name: string; closed?: boolean; pos?: number }[];
+  cards: {
+    id: string;
+    name?: string;
+    desc?: string;
+    idList: string;
+    closed?: boolean;
+    due?: string | null;
+    dueComplete?: boolean;
+    dateLastActivity?: string;
+    labels?: { name?: string; color?: string | null }[];
+    pos?: number;
+  }[];
+  checklists?: {
+    idCard: string;
+    name: string;
+    pos?: number;
+    checkItems?: { name: string; state: string; pos?: number }[];
+  }[];
+}
+
+interface ThingsItem {
+  type: string;
+  id?: string;
+  attributes?: {
+    id?: string;
+    title?: string;
+    notes?: string;
+    when?: string;
+    deadline?: string;
+    tags?: string[];
+    area?: string;
+    list?: string;
+    heading?: string;
+    completed?: boolean;
+    canceled?: boolean;
+    'creation-date'?: string;
+    'completion-date'?: string;
+    'checklist-items'?: { attributes?: { title?: string; completed?: boolean } }[];
+    items?: ThingsItem[];
+  };
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const isDone = (task: ExternalTask) => task.status === 'done';
+
+/**
+ * Read a date value, recording an issue if it can't be read
+ */
+function readDate(value: unknown, item: string, issues: ExternalImportIssue[], what = 'due date'): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const date = coerceDate(value);
+  if (!date) issues.push({ item, message: `Couldn't read ${what} "${value}"` });
+  return date ?? undefined;
+}
+
+/**
+ * Split labels that name a priority ("High", "Priority: urgent", "p1")
+ * from the rest. Trello and Things have no priorities, so people use labels.
+ */
+function priorityFromLabels(labels: string[]): { priority: Priority | null; labels: string[] } {
+  let priority: Priority | null = null;
+  const rest = labels.filter(label => {
+    const match = coercePriority(label.replace(/\bpriority\b|:/gi, '').trim());
+    if (!match) return true;
+    priority = priority ?? match;
+    return false;
+  });
+  return { priority, labels: rest };
+}
+
+// Todoist backups are named "Project name [123456].csv"
+const titleFromFileName = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, '').replace(/\s*\[\d+\]$/, '').trim() || 'Todoist';
+
+/**
+ * A Todoist project exported as CSV, one file per project. Labels are
+ * written into the content as @label; INDENT nests subtasks.
+ */
+function readTodoistCsv(fileName: string, text: string): ExternalData {
+  const [headers, ...rows] = parseCsv(text);
+  const column = (name: string) => headers.findIndex(h => h.trim().toUpperCase() === name);
+  const cell = (row: string[], name: string) => (column(name) >= 0 ? (row[column(name)] ?? '').trim() : '');
+  const issues: ExternalImportIssue[] = [];
+  const project: ExternalProject = {
+    key: fileName,
+    title: titleFromFileName(fileName),
+    status: 'active',
+    labels: [],
+    tasks: [],
+  };
+
+  let section: string | undefined;
+  // Most recent task at each indent level, for finding parents
+  const parents: string[] = [];
+
+  rows.forEach((row, index) => {
+    const type = cell(row, 'TYPE').toLowerCase();
+    const content = cell(row, 'CONTENT');
+    if (type === 'section') {
+      section = content || undefined;
+      return;
+    }
+    if (type === 'note') {
+      // Comments follow the task they belong to
+      const task = project.tasks[project.tasks.length - 1];
+      if (task && content) task.description = [task.description, content].filter(Boolean).join('\n\n');
+      return;
+    }
+    if (type !== 'task') return;
+
+    const labels = Array.from(content.matchAll(/(?:^|\s)@([^\s@]+)/g), match => match[1]);
+    const title = content.replace(/(?:^|\s)@[^\s@]+/g, '').trim();
+    if (!title) return;
+
+    const indent = Math.max(1, Number(cell(row, 'INDENT')) || 1);
+    const key = `${fileName}:${index}`;
+    parents[indent - 1] = key;
+    parents.length = indent;
+
+    const duration = Number(cell(row, 'DURATION'));
+    const task: ExternalTask = {
+      key,
+      parentKey: indent > 1 ? parents[indent - 2] : undefined,
+      title,
+      description: cell(row, 'DESCRIPTION') || undefined,
+      status: 'todo',
+      // PRIORITY 1 is Todoist's p1, the highest
+      priority: coercePriority(`p${cell(row, 'PRIORITY') || 4}`) ?? 'low',
+      labels,
+      dueDate: readDate(cell(row, 'DEADLINE') || cell(row, 'DATE'), title, issues),
+      estimateMinutes: duration > 0 ? duration * (cell(row, 'DURATION_UNIT') === 'day' ? 24 * 60 : 1) : undefined,
+      checklist: [],
+      section,
+    };
+    project.tasks.push(task);
+  });
+
+  return { source: 'todoist', projects: [project], tasks: [], labelColors: {}, issues };
+}
+
+/**
+ * A Todoist JSON backup, as the sync API returns it ({ projects, items,
+ * sections, labels }) or as the REST API does ({ projects, tasks })
+ */
+function readTodoistJson(json: TodoistJson): ExternalData {
+  const issues: ExternalImportIssue[] = [];
+  const items = (json.items ?? json.tasks ?? []).filter(item => !item.is_deleted);
+  const sections = new Map<string, string>((json.sections ?? []).map(s => [String(s.id), s.name]));
+  const labelNames = new Map<string, string>((json.labels ?? []).map(l => [String(l.id), l.name]));
+
+  const toTask = (item: TodoistJsonItem): ExternalTask => {
+    const title = String(item.content ?? '').trim();
+    const done = !!(item.checked || item.is_completed || item.completed_at);
+    const duration = item.duration?.amount ?? 0;
+    return {
+      key: String(item.id),
+      parentKey: item.parent_id ? String(item.parent_id) : undefined,
+      title,
+      description: item.description || undefined,
+      status: done ? 'done' : 'todo',
+      // The API counts the other way: 4 is p1
+      priority: coercePriority(`p${5 - (Number(item.priority) || 1)}`) ?? 'low',
+      labels: (item.labels ?? []).map(label => labelNames.get(String(label)) ?? String(label)),
+      dueDate: readDate(item.deadline?.date ?? item.due?.date, title, issues),
+      estimateMinutes: duration > 0 ? duration * (item.duration.unit === 'day' ? 24 * 60 : 1) : undefined,
+      createdAt: readDate(item.added_at ?? item.created_at, title, issues, 'creation date'),
+      completedAt: done ? readDate(item.completed_at, title, issues, 'completion date') : undefined,
+      checklist: [],
+      section: item.section_id ? sections.get(String(item.section_id)) : undefined,
+    };
+  };
+
+  const projects = (json.projects ?? [])
+    .filter(p => !p.is_deleted)
+    .map((p): ExternalProject => {
+      if (p.is_archived) issues.push({ item: p.name, message: 'Archived project, imported as completed' });
+      return {
+        key: String(p.id),
+        title: p.name,
+        description: p.description || undefined,
+        status: p.is_archived ? 'completed' : 'active',
+        labels: [],
+        createdAt: readDate(p.created_at, p.name, issues, 'creation date'),
+        tasks: items.filter(item => String(item.project_id) === String(p.id)).map(toTask),
+      };
+    });
+
+  const projectIds = new Set(projects.map(p => p.key));
+  const tasks = items.filter(item => !projectIds.has(String(item.project_id))).map(toTask);
+
+  return { source: 'todoist', projects, tasks, labelColors: {}, issues };
+}
+
+const TRELLO_COLORS: Record<string, string> = {
+  green: '#22c55e',
+  yellow: '#eab308',
+  orange: '#f97316',
+  red: '#ef4444',
+  purple: '#a855f7',
+  blue: '#3b82f6',
+  sky: '#0ea5e9',
+  lime: '#84cc16',
+  pink: '#ec4899',
+  black: '#475569',
+};
+
+/**
+ * A Trello board exported as JSON. The board becomes a project; a list
+ * whose name reads as a status ("Doing", "Done") sets its cards' status.
+ */
+function readTrelloJson(json: TrelloJson): ExternalData {
+  const issues: ExternalImportIssue[] = [];
+  const labelColors: Record<string, string> = {};
+  const lists = new Map((json.lists ?? []).map(l => [l.id, l]));
+  const byPosition = (a: { pos?: number }, b: { pos?: number }) => (a.pos ?? 0) - (b.pos ?? 0);
+
+  let archived = 0;
+  const cards = (json.cards ?? []).filter(card => {
+    const hidden = card.closed || lists.get(card.idList)?.closed;
+    if (hidden) archived++;
+    return !hidden;
+  });
+  if (archived > 0) {
+    issues.push({ item: json.name, message: `${archived} archived ${archived === 1 ? 'card was' : 'cards were'} left out` });
+  }
+
+  // Trello IDs start with the creation time in seconds
+  const createdFromId = (id: string) => {
+    const seconds = parseInt(String(id).slice(0, 8), 16);
+    return Number.isFinite(seconds) ? new Date(seconds * 1000).toISOString() : undefined;
+  };
+
+  const tasks = cards
+    .sort((a, b) => byPosition(lists.get(a.idList) ?? {}, lists.get(b.idList) ?? {}) || byPosition(a, b))
+    .map((card): ExternalTask => {
+      const listName = lists.get(card.idList)?.name;
+      const labelNames = (card.labels ?? []).map(label => {
+        // Labels can be just a color
+        const name = label.name?.trim() || label.color;
+        if (name && TRELLO_COLORS[label.color]) labelColors[name] = TRELLO_COLORS[label.color];
+        return name;
+      }).filter(Boolean);
+      const { priority, labels } = priorityFromLabels(labelNames);
+      const listStatus = listName ? coerceTaskStatus(listName) : null;
+      const status: TaskStatus = card.dueComplete ? 'done' : listStatus ?? 'todo';
+
+      const checklists = (json.checklists ?? []).filter(c => c.idCard === card.id).sort(byPosition);
+      const checklist = checklists.flatMap(c =>
+        (c.checkItems ?? []).sort(byPosition).map(item => ({
+          // Cards with several checklists keep them apart by name
+          content: checklists.length > 1 ? `${c.name}: ${item.name}` : item.name,
+          done: item.state === 'complete',
+        }))
+      );
+
+      return {
+        key: card.id,
+        title: String(card.name ?? '').trim(),
+        description: card.desc || undefined,
+        status,
+        priority: priority ?? 'medium',
+        labels,
+        dueDate: readDate(card.due, card.name, issues),
+        createdAt: createdFromId(card.id),
+        completedAt: status === 'done' ? readDate(card.dateLastActivity, card.name, issues, 'completion date') : undefined,
+        checklist,
+        section: listName,
+      };
+    });
+
+  return {
+    source: 'trello',
+    projects: [{
+      key: json.id,
+      title: json.name || 'Trello board',
+      description: json.desc || undefined,
+      status: json.closed ? 'completed' : 'active',
+      labels: [],
+      createdAt: createdFromId(json.id),
+      tasks,
+    }],
+    tasks: [],
+    labelColors,
+    issues,
+  };
+}
+
+/**
+ * Things 3 JSON, in the format of its JSON import command: a list of
+ * projects and to-dos, where projects hold to-dos and headings
+ */
+function readThingsJson(json: ThingsItem[] | { items: ThingsItem[] }): ExternalData {
+  const issues: ExternalImportIssue[] = [];
+  const items = Array.isArray(json) ? json : json.items ?? [];
+  let generatedKey = 0;
+
+  const toTask = (item: ThingsItem, section?: string): ExternalTask | null => {
+    const attributes = item.attributes ?? {};
+    const title = String(attributes.title ?? '').trim();
+    if (attributes.canceled) {
+      issues.push({ item: title, message: 'Canceled to-do left out' });
+      return null;
+    }
+    const { priority, labels } = priorityFromLabels(attributes.tags ?? []);
+    const when = typeof attributes.when === 'string' ? attributes.when.toLowerCase() : undefined;
+    const scheduled = when && !['today', 'evening', 'tonight', 'anytime', 'someday'].includes(when);
+    return {
+      key: item.id ?? attributes.id ?? `things-${generatedKey++}`,
+      title,
+      description: attributes.notes || undefined,
+      status: attributes.completed ? 'done' : when === 'someday' ? 'backlog' : 'todo',
+      priority: priority ?? 'medium',
+      labels,
+      // A scheduled date is the closest thing to a due date when there's no deadline
+      dueDate: readDate(attributes.deadline || (scheduled ? attributes.when : undefined), title, issues),
+      isToday: when === 'today' || when === 'evening' || when === 'tonight',
+      createdAt: readDate(attributes['creation-date'], title, issues, 'creation date'),
+      completedAt: attributes.completed
+        ? readDate(attributes['completion-date'], title, issues, 'completion date')
+        : undefined,
+      checklist: (attributes['checklist-items'] ?? [])
+        .filter(c => c.attributes?.title)
+        .map(c => ({ content: c.attributes.title, done: !!c.attributes.completed })),
+      section: section ?? attributes.heading,
+      areaName: attributes.area,
+    };
+  };
+
+  const projects: ExternalProject[] = [];
+  // Loose to-dos name their project in "list"
+  const looseTasks: { task: ExternalTask; listName?: string }[] = [];
+
+  items.forEach(item => {
+    if (item.type === 'to-do') {
+      const task = toTask(item);
+      if (task) looseTasks.push({ task, listName: item.attributes?.list });
+      return;
+    }
+    if (item.type !== 'project') return;
+    const attributes = item.attributes ?? {};
+    const title = String(attributes.title ?? '').trim();
+    const tasks: ExternalTask[] = [];
+    let heading: string | undefined;
+    (attributes.items ?? []).forEach(child => {
+      if (child.type === 'heading') {
+        heading = child.attributes?.title;
+        // Some exports nest the heading's to-dos inside it
+        (child.attributes?.items ?? []).forEach(nested => {
+          const task = toTask(nested, heading);
+          if (task) tasks.push(task);
+        });
+        return;
+      }
+      if (child.type !== 'to-do') return;
+      const task = toTask(child, heading);
+      if (task) tasks.push(task);
+    });
+    projects.push({
+      key: item.id ?? attributes.id ?? `things-${generatedKey++}`,
+      title,
+      description: attributes.notes || undefined,
+      status: attributes.canceled ? 'cancelled' : attributes.completed ? 'completed' : 'active',
+      labels: attributes.tags ?? [],
+      dueDate: readDate(attributes.deadline, title, issues),
+      createdAt: readDate(attributes['creation-date'], title, issues, 'creation date'),
+      areaName: attributes.area,
+      tasks,
+    });
+  });
+
+  const tasks = looseTasks.flatMap(({ task, listName }) => {
+    const project = listName && projects.find(p => normalize(p.title) === normalize(listName));
+    if (!project) return [task];
+    project.tasks.push({ ...task, areaName: undefined });
+    return [];
+  });
+
+  return { source: 'things', projects, tasks, labelColors: {}, issues };
+}
+
+/**
+ * Read one export file, working out which app it came from. Throws if the
+ * file isn't a format we know.
+ */
+export function readExternalFile(fileName: string, text: string): ExternalData {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    const headers = (parseCsv(trimmed)[0] ?? []).map(h => h.trim().toUpperCase());
+    if (headers.includes('TYPE') && headers.includes('CONTENT')) return readTodoistCsv(fileName, trimmed);
+    throw new Error(`${fileName} isn't a Todoist CSV backup (it needs TYPE and CONTENT columns)`);
+  }
+
+  // Which app it came from is told by its shape, checked below
+  let json;
+  try {
+    json = JSON.parse(trimmed);
+  } catch {
+    throw new Error(`${fileName} isn't valid JSON`);
+  }
+
+  if (json && Array.isArray(json.cards) && Array.isArray(json.lists)) return readTrelloJson(json);
+  if (json && Array.isArray(json.projects) && (Array.isArray(json.items) || Array.isArray(json.tasks))) {
+    return readTodoistJson(json);
+  }
+  const thingsItems = Array.isArray(json) ? json : json?.items;
+  if (Array.isArray(thingsItems) && thingsItems.some((item: ThingsItem) => item?.type === 'to-do' || item?.type === 'project')) {
+    return readThingsJson(json);
+  }
+  throw new Error(`${fileName} isn't a Todoist, Trello or Things export`);
+}
+
+/**
+ * Read several export files from the same app, e.g. the CSV files of a
+ * Todoist backup
+ */
+export function readExternalFiles(files: { name: string; text: string }[]): ExternalData {
+  const parsed = files.map(file => readExternalFile(file.name, file.text));
+  const sources = new Set(parsed.map(data => data.source));
+  if (sources.size > 1) throw new Error('The files come from different apps; import them one app at a time');
+  return {
+    source: parsed[0]?.source ?? 'todoist',
+    projects: parsed.flatMap(data => data.projects),
+    tasks: parsed.flatMap(data => data.tasks),
+    labelColors: Object.assign({}, ...parsed.map(data => data.labelColors)),
+    issues: parsed.flatMap(data => data.issues),
+  };
+}
+
+export type ProjectConflictResolution = 'merge' | 'separate' | 'skip';
+
+export interface ExternalImportOptions {
+  // Make each section, list or heading its own project
+  splitSections: boolean;
+  includeCompleted: boolean;
+  // Area for imported items the source doesn't file; null uses (or creates)
+  // an area named after the app
+  areaId: string | null;
+  // Planned project key -> what to do about a same-named existing project;
+  // unlisted conflicts are merged
+  resolutions: Record<string, ProjectConflictResolution>;
+  // When merging, leave out tasks whose title is already in the project
+  skipDuplicateTasks: boolean;
+}
+
+export interface ExternalImportConflict {
+  key: string;
+  title: string;
+  existingProjectId: string;
+  resolution: ProjectConflictResolution;
+  // Imported tasks with the same title as a task already in the project
+  duplicateTitles: string[];
+}
+
+export interface PlannedProject {
+  key: string;
+  title: string;
+  taskCount: number;
+  action: 'create' | 'merge' | 'skip';
+}
+
+export interface ExternalImportPlan {
+  source: ExternalSource;
+  areas: Area[];
+  projects: Project[];
+  tasks: Task[];
+  tags: Tag[];
+  // Existing tags the imported labels were matched to
+  reusedTags: string[];
+  planned: PlannedProject[];
+  conflicts: ExternalImportConflict[];
+  issues: ExternalImportIssue[];
+}
+
+export const DEFAULT_EXTERNAL_IMPORT_OPTIONS: ExternalImportOptions = {
+  splitSections: false,
+  includeCompleted: true,
+  areaId: null,
+  resolutions: {},
+  skipDuplicateTasks: true,
+};
+
+/**
+ * Work out what importing the data would add to the profile. Nothing is
+ * changed; the plan's items are ready to append.
+ */
+export function planExternalImport(
+  profile: Profile,
+  data: ExternalData,
+  options: ExternalImportOptions,
+  now: Date = new Date()
+): ExternalImportPlan {
+  const sourceLabel = EXTERNAL_SOURCE_LABELS[data.source];
+  const timestamp = now.toISOString();
+  const plan: ExternalImportPlan = {
+    source: data.source,
+    areas: [],
+    projects: [],
+    tasks: [],
+    tags: [],
+    reusedTags: [],
+    planned: [],
+    conflicts: [],
+    issues: [...data.issues],
+  };
+
+  const liveAreas = profile.areas.filter(a => !a.deletedAt);
+  const liveProjects = profile.projects.filter(p => !p.deletedAt);
+  const liveTags = profile.tags.filter(t => !t.deletedAt);
+
+  const areaByName = (name: string) => {
+    let area = [...liveAreas, ...plan.areas].find(a => normalize(a.name) === normalize(name));
+    if (!area) {
+      area = { id: uuidv4(), name };
+      plan.areas.push(area);
+    }
+    return area.id;
+  };
+  const defaultAreaId = () =>
+    (options.areaId && liveAreas.some(a => a.id === options.areaId) ? options.areaId : areaByName(sourceLabel));
+
+  const tagIds = (labels: string[]) => Array.from(new Set(labels.map(label => {
+    let tag = [...liveTags, ...plan.tags].find(t => normalize(t.name) === normalize(label));
+    if (!tag) {
+      tag = { id: uuidv4(), name: label, color: data.labelColors[label] };
+      plan.tags.push(tag);
+    } else if (liveTags.includes(tag) && !plan.reusedTags.includes(tag.name)) {
+      plan.reusedTags.push(tag.name);
+    }
+    return tag.id;
+  })));
+
+  // Group tasks into the projects that will be created
+  const groups = data.projects.flatMap(project => {
+    const tasks = project.tasks.filter(task => options.includeCompleted || !isDone(task));
+    if (!options.splitSections) return [{ key: project.key, title: project.title, project, tasks }];
+    const sections = Array.from(new Set(tasks.map(task => task.section)));
+    // A subtask goes with its parent's section
+    const sectionOf = (task: ExternalTask): string | undefined => {
+      const parent = task.parentKey && tasks.find(t => t.key === task.parentKey);
+      return parent ? sectionOf(parent) : task.section;
+    };
+    return sections.map(section => ({
+      key: section ? `${project.key}/${section}` : project.key,
+      title: section ? `${project.title} – ${section}` : project.title,
+      project,
+      tasks: tasks.filter(task => sectionOf(task) === section),
+    }));
+  });
+
+  const addTasks = (tasks: ExternalTask[], target: { projectId?: string; areaId?: string }) => {
+    const ids = new Map(tasks.map(task => [task.key, uuidv4()]));
+    tasks.forEach(task => {
+      if (!task.title) {
+        plan.issues.push({ item: sourceLabel, message: 'A task without a title was left out' });
+        return;
+      }
+      const created: Task = {
+        id: ids.get(task.key),
+        projectId: target.projectId,
+        // Parents left out (completed or in another section) drop the link
+        parentTaskId: task.parentKey && ids.has(task.parentKey) ? ids.get(task.parentKey) : undefined,
+        title: task.title,
+        description: task.description,
+        status: task.status,
+        priority: task.priority,
+        tags: tagIds(task.labels),
+        areaId: target.areaId,
+        estimateMinutes: task.estimateMinutes,
+        dueDate: task.dueDate,
+        isToday: task.isToday || undefined,
+        createdAt: task.createdAt ?? timestamp,
+        updatedAt: timestamp,
+        completedAt: isDone(task) ? task.completedAt ?? timestamp : undefined,
+        checklistItems: task.checklist.map(item => ({ ...item, id: uuidv4() })),
+      };
+      plan.tasks.push(created);
+    });
+  };
+
+  groups.forEach(group => {
+    const existing = liveProjects.find(p => normalize(p.title) === normalize(group.title));
+    const resolution = existing ? options.resolutions[group.key] ?? 'merge' : null;
+    let tasks = group.tasks;
+
+    if (existing) {
+      const existingTitles = new Set(
+        profile.tasks.filter(t => t.projectId === existing.id && !t.deletedAt).map(t => normalize(t.title))
+      );
+      const duplicates = tasks.filter(task => existingTitles.has(normalize(task.title)));
+      plan.conflicts.push({
+        key: group.key,
+        title: group.title,
+        existingProjectId: existing.id,
+        resolution,
+        duplicateTitles: duplicates.map(task => task.title),
+      });
+      if (resolution === 'merge' && options.skipDuplicateTasks) {
+        tasks = tasks.filter(task => !duplicates.includes(task));
+      }
+    }
+
+    plan.planned.push({
+      key: group.key,
+      title: resolution === 'separate' ? `${group.title} (${sourceLabel})` : group.title,
+      taskCount: resolution === 'skip' ? 0 : tasks.length,
+      action: resolution === 'skip' ? 'skip' : resolution === 'merge' ? 'merge' : 'create',
+    });
+    if (resolution === 'skip') return;
+    if (resolution === 'merge') {
+      addTasks(tasks, { projectId: existing.id });
+      return;
+    }
+
+    const { project } = group;
+    const created: Project = {
+      id: uuidv4(),
+      title: resolution === 'separate' ? `${group.title} (${sourceLabel})` : group.title,
+      description: project.description,
+      areaId: project.areaName ? areaByName(project.areaName) : defaultAreaId(),
+      status: project.status,
+      priority: 'medium',
+      tags: tagIds(project.labels),
+      dueDate: project.dueDate,
+      createdAt: project.createdAt ?? timestamp,
+      updatedAt: timestamp,
+    };
+    plan.projects.push(created);
+    addTasks(tasks, { projectId: created.id });
+  });
+
+  const looseTasks = data.tasks.filter(task => options.includeCompleted || !isDone(task));
+  const byArea = new Map<string, ExternalTask[]>();
+  looseTasks.forEach(task => {
+    const areaId = task.areaName ? areaByName(task.areaName) : defaultAreaId();
+    byArea.set(areaId, [...(byArea.get(areaId) ?? []), task]);
+  });
+  byArea.forEach((tasks, areaId) => addTasks(tasks, { areaId }));
+
+  return plan;
+}
@@ -0,0 +1,51 @@
+/**
+ * Pomodoro focus session helpers
+ * Interval defaults and phase sequencing for focus mode
+ */
+
+import { FocusSettings, ProfileSettings } from './types';
+
+export type FocusPhase = 'work' | 'short-break' | 'long-break';
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+};
+
+export const FOCUS_INTERVAL_NOTE = 'Focus interval';
+
+export const FOCUS_PHASE_LABELS: Record<FocusPhase, string> = {
+  work: 'Focus',
+  'short-break': 'Short break',
+  'long-break': 'Long break',
+};
+
+/**
+ * Resolve a profile's focus settings, filling in defaults for missing values
+ */
+export function getFocusSettings(settings: ProfileSettings): FocusSettings {
+  return { ...DEFAULT_FOCUS_SETTINGS, ...settings.focus };
+}
+
+/**
+ * Length of a phase in milliseconds
+ */
+export function getPhaseDurationMs(phase: FocusPhase, settings: FocusSettings): number {
+  const minutes = phase === 'work'
+    ? settings.workMinutes
+    : phase === 'short-break'
+      ? settings.shortBreakMinutes
+      : settings.longBreakMinutes;
+  return minutes * 60000;
+}
+
+/**
+ * Phase that follows `phase`, given how many work intervals have been completed so far
+ */
+export function getNextPhase(phase: FocusPhase, completedWorkIntervals: number, settings: FocusSettings): FocusPhase {
+  if (phase !== 'work') return 'work';
+  const every = Math.max(1, settings.longBreakEvery);
+  return completedWorkIntervals > 0 && completedWorkIntervals % every === 0 ? 'long-break' : 'short-break';
+}
@@ -0,0 +1,39 @@
+/**
+ * Undo history for the Life PM application
+ * Each change is recorded as a pair of row change sets, one that reapplies it
+ * and one that reverts it. Undoing only touches the rows the change affected,
+ * so later edits to other items (including ones synced from other devices)
+ * are left alone.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AppData } from './types';
+import { RowChanges, diffAppData, hasRowChanges } from './supabaseRows';
+
+// Per session; older entries are dropped
+export const MAX_HISTORY_ENTRIES = 50;
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  undo: RowChanges;
+  redo: RowChanges;
+}
+
+/**
+ * Record the change from `before` to `after`, or null if no entity changed.
+ * Switching the open profile is navigation, not an edit, and isn't recorded.
+ */
+export function createHistoryEntry(userId: string, label: string, before: AppData, after: AppData): HistoryEntry | null {
+  const { userState: _redoState, ...redo } = diffAppData(userId, before, after);
+  if (!hasRowChanges(redo)) return null;
+  const { userState: _undoState, ...undo } = diffAppData(userId, after, before);
+  return { id: uuidv4(), label, undo, redo };
+}
+
+/**
+ * Add an entry to a history stack, keeping it within the size limit
+ */
+export function pushHistoryEntry(stack: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] {
+  return [...stack, entry].slice(-MAX_HISTORY_ENTRIES);
+}
@@ -0,0 +1,12 @@
+/**
+ * iCalendar export for the Life PM application
+ * The generator lives with the edge functions, which serve it as a
+ * subscribable feed; the app uses the same code for downloads.
+ */
+
+export {
+  buildCalendar,
+  calendarFilterToParams,
+  parseCalendarFilter,
+} from '../../supabase/functions/_shared/ical';
+export type { CalendarFilter, CalendarInput } from '../../supabase/functions/_shared/ical';
@@ -0,0 +1,223 @@
+/**
+ * Merge import for the Life PM application
+ * Brings selected parts of a backup into the existing data instead of
+ * replacing it: imported areas can be mapped onto existing ones, tags are
+ * matched by name, and IDs already in use are replaced with new ones.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AppData, Area, Idea, Profile, Project, Tag, Task } from './types';
+import { ImportSummary, summarizeAppData } from './importValidation';
+
+export interface MergeSelection {
+  projectIds: string[];
+  // Areas whose tasks and ideas outside projects come along
+  areaIds: string[];
+  // Profiles whose tasks and ideas with neither project nor area come along
+  unfiledProfileIds: string[];
+}
+
+export type MergeTarget =
+  | { type: 'current'; profileId: string }
+  | { type: 'new'; name: string };
+
+export interface MergeOptions {
+  selection: MergeSelection;
+  // Imported area ID -> existing area ID; unmapped areas are created
+  areaMapping: Record<string, string>;
+  target: MergeTarget;
+}
+
+export interface MergeResult {
+  data: AppData;
+  added: ImportSummary;
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Select everything in the backup (except the trash), appended to the given
+ * profile with areas mapped onto same-named ones
+ */
+export function createDefaultMergeOptions(source: AppData, targetProfile: Profile): MergeOptions {
+  const profiles = source.profiles;
+  const targetAreas = targetProfile.areas.filter(a => !a.deletedAt);
+  const areaMapping: Record<string, string> = {};
+  profiles.forEach(p => p.areas.forEach(area => {
+    const match = targetAreas.find(a => sameName(a.name, area.name));
+    if (match) areaMapping[area.id] = match.id;
+  }));
+
+  return {
+    selection: {
+      projectIds: profiles.flatMap(p => p.projects.filter(pr => !pr.deletedAt).map(pr => pr.id)),
+      areaIds: profiles.flatMap(p => p.areas.filter(a => !a.deletedAt).map(a => a.id)),
+      unfiledProfileIds: profiles.map(p => p.id),
+    },
+    areaMapping,
+    target: { type: 'current', profileId: targetProfile.id },
+  };
+}
+
+/**
+ * The entities a selection picks from one source profile, trashed ones left out
+ */
+function selectFromProfile(profile: Profile, selection: MergeSelection) {
+  const projectIds = new Set(selection.projectIds);
+  const selectedAreaIds = new Set(selection.areaIds);
+  const areaIds = new Set(profile.areas.map(a => a.id));
+  const unfiled = selection.unfiledProfileIds.includes(profile.id);
+  // Outside projects, items follow their area, or the unfiled choice if they have none
+  const looseItemSelected = (areaId: string | undefined) =>
+    areaId && areaIds.has(areaId) ? selectedAreaIds.has(areaId) : unfiled;
+
+  const projects = profile.projects.filter(p => !p.deletedAt && projectIds.has(p.id));
+  const chosenProjectIds = new Set(projects.map(p => p.id));
+  const tasks = profile.tasks.filter(t =>
+    !t.deletedAt && (t.projectId ? chosenProjectIds.has(t.projectId) : looseItemSelected(t.areaId))
+  );
+  const ideas = profile.ideas.filter(i => !i.deletedAt && looseItemSelected(i.areaId));
+
+  const usedAreaIds = new Set([
+    ...selection.areaIds,
+    ...projects.map(p => p.areaId),
+    ...tasks.map(t => t.areaId),
+    ...ideas.map(i => i.areaId),
+  ]);
+  const usedTagIds = new Set([...projects, ...tasks, ...ideas].flatMap(item => item.tags));
+
+  return {
+    areas: profile.areas.filter(a => !a.deletedAt && usedAreaIds.has(a.id)),
+    tags: profile.tags.filter(t => !t.deletedAt && usedTagIds.has(t.id)),
+    projects,
+    tasks,
+    ideas,
+  };
+}
+
+/**
+ * Every ID in use, across all profiles; rows are keyed by ID per user
+ */
+function collectIds(data: AppData): Set<string> {
+  const ids = new Set<string>();
+  data.profiles.forEach(p => {
+    ids.add(p.id);
+    [p.areas, p.projects, p.ideas, p.tags].forEach(items => items.forEach(item => ids.add(item.id)));
+    p.tasks.forEach(t => {
+      ids.add(t.id);
+      t.checklistItems.forEach(item => ids.add(item.id));
+    });
+  });
+  return ids;
+}
+
+/**
+ * Merge the selected parts of `source` into `target`. Returns null if the
+ * target profile doesn't exist.
+ */
+export function mergeAppData(target: AppData, source: AppData, options: MergeOptions): MergeResult | null {
+  const { selection, areaMapping, target: mergeTarget } = options;
+  const existingProfile = mergeTarget.type === 'current'
+    ? target.profiles.find(p => p.id === mergeTarget.profileId)
+    : undefined;
+  if (mergeTarget.type === 'current' && !existingProfile) return null;
+
+  const usedIds = collectIds(target);
+  // Keep IDs where possible so links survive; collisions get a new one
+  const rekey = (id: string) => {
+    const newId = usedIds.has(id) ? uuidv4() : id;
+    usedIds.add(newId);
+    return newId;
+  };
+
+  // A new profile starts with the settings of the one currently open
+  const currentSettings = (target.profiles.find(p => p.id === target.currentProfileId) || target.profiles[0])?.settings;
+  const baseProfile: Profile = existingProfile || {
+    id: rekey(uuidv4()),
+    name: mergeTarget.type === 'new' ? mergeTarget.name : '',
+    createdAt: new Date().toISOString(),
+    areas: [],
+    projects: [],
+    tasks: [],
+    ideas: [],
+    tags: [],
+    settings: { ...(currentSettings || source.profiles[0].settings) },
+  };
+
+  const added = { areas: [] as Area[], tags: [] as Tag[], projects: [] as Project[], tasks: [] as Task[], ideas: [] as Idea[] };
+  const liveTargetAreaIds = new Set(baseProfile.areas.filter(a => !a.deletedAt).map(a => a.id));
+
+  source.profiles.forEach(profile => {
+    const picked = selectFromProfile(profile, selection);
+    const ids = new Map<string, string>();
+    const mapId = (id: string | undefined) => (id ? ids.get(id) : undefined);
+
+    picked.areas.forEach(area => {
+      const mapped = existingProfile ? areaMapping[area.id] : undefined;
+      if (mapped && liveTargetAreaIds.has(mapped)) {
+        ids.set(area.id, mapped);
+        return;
+      }
+      const newArea = { ...area, id: rekey(area.id), deletedWith: undefined };
+      ids.set(area.id, newArea.id);
+      added.areas.push(newArea);
+    });
+
+    picked.tags.forEach(tag => {
+      const match = [...baseProfile.tags.filter(t => !t.deletedAt), ...added.tags].find(t => sameName(t.name, tag.name));
+      if (match) {
+        ids.set(tag.id, match.id);
+        return;
+      }
+      const newTag = { ...tag, id: rekey(tag.id), deletedWith: undefined };
+      ids.set(tag.id, newTag.id);
+      added.tags.push(newTag);
+    });
+
+    [...picked.projects, ...picked.tasks, ...picked.ideas].forEach(item => ids.set(item.id, rekey(item.id)));
+    const mapTags = (tags: string[]) => [...new Set(tags.map(t => ids.get(t)).filter(Boolean))];
+
+    added.projects.push(...picked.projects.map(project => ({
+      ...project,
+      id: ids.get(project.id)!,
+      areaId: mapId(project.areaId) ?? '',
+      tags: mapTags(project.tags),
+    })));
+
+    // Links to tasks that weren't imported are dropped
+    added.tasks.push(...picked.tasks.map(task => ({
+      ...task,
+      id: ids.get(task.id)!,
+      projectId: mapId(task.projectId),
+      parentTaskId: mapId(task.parentTaskId),
+      areaId: mapId(task.areaId),
+      tags: mapTags(task.tags),
+      blockedBy: task.blockedBy?.map(id => ids.get(id)).filter(Boolean),
+      nextOccurrenceId: mapId(task.nextOccurrenceId),
+      checklistItems: task.checklistItems.map(item => ({ ...item, id: rekey(item.id) })),
+    })));
+
+    added.ideas.push(...picked.ideas.map(idea => ({
+      ...idea,
+      id: ids.get(idea.id)!,
+      areaId: mapId(idea.areaId),
+      tags: mapTags(idea.tags),
+    })));
+  });
+
+  const merged: Profile = {
+    ...baseProfile,
+    areas: [...baseProfile.areas, ...added.areas],
+    tags: [...baseProfile.tags, ...added.tags],
+    projects: [...baseProfile.projects, ...added.projects],
+    tasks: [...baseProfile.tasks, ...added.tasks],
+    ideas: [...baseProfile.ideas, ...added.ideas],
+  };
+
+  const data: AppData = existingProfile
+    ? { ...target, profiles: target.profiles.map(p => p.id === merged.id ? merged : p) }
+    : { ...target, profiles: [...target.profiles, merged], currentProfileId: merged.id };
+
+  const summary = summarizeAppData({ ...target, profiles: [{ ...merged, ...added }] });
+  return { data, added: { ...summary, profiles: existingProfile ? 0 : 1 } };
+}
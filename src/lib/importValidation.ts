@@ -0,0 +1,367 @@
+/**
+ * Import validation for the Life PM application
+ * Checks pasted backups against the full AppData shape and the links between
+ * entities before anything is saved. Problems with an obvious fix (an unknown
+ * status, a link to a missing project...) can be repaired automatically; the
+ * rest have to be fixed in the file.
+ */
+
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { AppData, Profile } from './types';
+import { UnsupportedVersionError, migrateAppData } from './migrations';
+
+export interface ImportIssue {
+  path: string;
+  message: string;
+  fixable: boolean;
+}
+
+export interface ImportSummary {
+  profiles: number;
+  areas: number;
+  projects: number;
+  tasks: number;
+  checklistItems: number;
+  ideas: number;
+  tags: number;
+}
+
+/**
+ * Result of checking an import. `data` is the validated data, with fixable
+ * problems repaired, or null if some problem can't be fixed.
+ */
+export interface ImportReport {
+  data: AppData | null;
+  issues: ImportIssue[];
+  summary: ImportSummary | null;
+}
+
+const PRIORITIES = ['low', 'medium', 'high', 'critical'] as const;
+const PROJECT_STATUSES = ['backlog', 'active', 'on-hold', 'completed', 'cancelled'] as const;
+const TASK_STATUSES = ['backlog', 'todo', 'in-progress', 'blocked', 'done'] as const;
+const GOAL_TYPES = ['habit', 'one-time', 'milestone'] as const;
+const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly', 'after-completion'] as const;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Build the AppData schema. With `repair`, fields that have a sensible
+ * fallback take it instead of failing.
+ */
+function buildSchema(repair: boolean) {
+  const fix = <T extends z.ZodTypeAny>(schema: T, fallback: () => z.infer<T>) =>
+    repair ? schema.catch(fallback) : schema;
+  const optional = <T extends z.ZodTypeAny>(schema: T) => fix(schema.optional(), () => undefined);
+  const now = () => new Date().toISOString();
+
+  const id = fix(z.string().min(1, 'Expected an ID'), () => uuidv4());
+  const text = (fallback: string) => fix(z.string().min(1, 'Expected a name'), () => fallback);
+  const isoDate = z.string().refine(value => ISO_DATE.test(value) && !isNaN(Date.parse(value)), 'Expected an ISO date');
+  const tagIds = fix(z.array(z.string()), () => []);
+  const trash = {
+    deletedAt: optional(isoDate),
+    deletedWith: optional(z.string()),
+  };
+
+  const checklistItem = z.object({
+    id,
+    content: fix(z.string(), () => ''),
+    done: fix(z.boolean(), () => false),
+  }).passthrough();
+
+  const timeEntry = z.object({
+    id,
+    start: isoDate,
+    end: isoDate.optional(),
+    note: z.string().optional(),
+  }).passthrough();
+
+  const recurrence = z.object({
+    frequency: z.enum(RECURRENCE_FREQUENCIES),
+    interval: z.number().int().positive(),
+    weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+    monthDay: z.number().int().min(1).max(31).optional(),
+    monthWeekday: z.object({ weekday: z.number().int().min(0).max(6), week: z.number().int() }).optional(),
+    until: isoDate.optional(),
+  }).passthrough();
+
+  const area = z.object({
+    id,
+    name: text('Untitled area'),
+    description: optional(z.string()),
+    color: optional(z.string()),
+    icon: optional(z.string()),
+    ...trash,
+  }).passthrough();
+
+  const tag = z.object({
+    id,
+    name: text('Untitled tag'),
+    color: optional(z.string()),
+    ...trash,
+  }).passthrough();
+
+  const project = z.object({
+    id,
+    title: text('Untitled project'),
+    description: optional(z.string()),
+    areaId: fix(z.string(), () => ''),
+    status: fix(z.enum(PROJECT_STATUSES), () => 'backlog' as const),
+    priority: fix(z.enum(PRIORITIES), () => 'medium' as const),
+    tags: tagIds,
+    startDate: optional(isoDate),
+    dueDate: optional(isoDate),
+    goalType: optional(z.enum(GOAL_TYPES)),
+    createdAt: fix(isoDate, now),
+    updatedAt: fix(isoDate, now),
+    archived: optional(z.boolean()),
+    isFocus: optional(z.boolean()),
+    ...trash,
+  }).passthrough();
+
+  const task = z.object({
+    id,
+    projectId: optional(z.string()),
+    parentTaskId: optional(z.string()),
+    title: text('Untitled task'),
+    description: optional(z.string()),
+    status: fix(z.enum(TASK_STATUSES), () => 'todo' as const),
+    priority: fix(z.enum(PRIORITIES), () => 'medium' as const),
+    tags: tagIds,
+    areaId: optional(z.string()),
+    estimateMinutes: optional(z.number().nonnegative()),
+    timeSpentMinutes: optional(z.number().nonnegative()),
+    timeEntries: optional(z.array(timeEntry)),
+    dueDate: optional(isoDate),
+    isToday: optional(z.boolean()),
+    createdAt: fix(isoDate, now),
+    updatedAt: fix(isoDate, now),
+    completedAt: optional(isoDate),
+    checklistItems: fix(z.array(checklistItem), () => []),
+    order: optional(z.number()),
+    recurrence: optional(recurrence),
+    blockedBy: optional(z.array(z.string())),
+    nextOccurrenceId: optional(z.string()),
+    ...trash,
+  }).passthrough();
+
+  const idea = z.object({
+    id,
+    title: text('Untitled idea'),
+    notes: optional(z.string()),
+    areaId: optional(z.string()),
+    tags: tagIds,
+    createdAt: fix(isoDate, now),
+    archived: optional(z.boolean()),
+    ...trash,
+  }).passthrough();
+
+  const settings = z.object({
+    theme: fix(z.enum(['dark', 'light']), () => 'dark' as const),
+    defaultView: fix(z.enum(['today', 'board', 'projects', 'ideas']), () => 'today' as const),
+    defaultTaskGrouping: fix(z.enum(['project', 'area', 'dueDate']), () => 'project' as const),
+    hideCompletedTasks: fix(z.boolean(), () => false),
+    focus: optional(z.object({
+      workMinutes: z.number().positive(),
+      shortBreakMinutes: z.number().positive(),
+      longBreakMinutes: z.number().positive(),
+      longBreakEvery: z.number().int().positive(),
+    }).passthrough()),
+    shortcuts: optional(z.record(z.string())),
+    trashRetentionDays: optional(z.number().int().nonnegative()),
+    markdownBase: optional(z.record(z.string())),
+  }).passthrough();
+
+  const profile = z.object({
+    id,
+    name: text('Untitled profile'),
+    createdAt: fix(isoDate, now),
+    areas: z.array(area),
+    projects: z.array(project),
+    tasks: z.array(task),
+    ideas: z.array(idea),
+    tags: z.array(tag),
+    settings,
+  }).passthrough();
+
+  return z.object({
+    profiles: z.array(profile).min(1, 'Expected at least one profile'),
+    currentProfileId: fix(z.string(), () => ''),
+    version: z.string(),
+  }).passthrough();
+}
+
+const strictSchema = buildSchema(false);
+const repairSchema = buildSchema(true);
+
+/**
+ * Readable path of a value, e.g. `profiles[0].tasks[3].status`
+ */
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (result, key) => typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${key}` : key,
+    ''
+  );
+}
+
+const toIssues = (error: z.ZodError, fixable: boolean): ImportIssue[] =>
+  error.issues.map(issue => ({ path: formatPath(issue.path), message: issue.message, fixable }));
+
+/**
+ * Find links to entities that don't exist and IDs used twice. Missing links
+ * are fixable (they are dropped); duplicate IDs are not.
+ */
+function findReferenceIssues(data: AppData): ImportIssue[] {
+  const issues: ImportIssue[] = [];
+  const add = (path: string, message: string, fixable = true) => issues.push({ path, message, fixable });
+
+  if (!data.profiles.some(p => p.id === data.currentProfileId)) {
+    add('currentProfileId', 'Does not match any profile');
+  }
+
+  data.profiles.forEach((profile, p) => {
+    const at = (collection: string, index: number, field: string) => `profiles[${p}].${collection}[${index}].${field}`;
+    const areaIds = new Set(profile.areas.map(a => a.id));
+    const projectIds = new Set(profile.projects.map(pr => pr.id));
+    const taskIds = new Set(profile.tasks.map(t => t.id));
+    const tagIds = new Set(profile.tags.map(t => t.id));
+
+    (['areas', 'projects', 'tasks', 'ideas', 'tags'] as const).forEach(collection => {
+      const seen = new Set<string>();
+      profile[collection].forEach((item, i) => {
+        if (seen.has(item.id)) add(at(collection, i, 'id'), `Duplicate ID "${item.id}"`, false);
+        seen.add(item.id);
+      });
+    });
+
+    const checkTags = (collection: string, index: number, tags: string[]) => {
+      tags.filter(t => !tagIds.has(t)).forEach(t => add(at(collection, index, 'tags'), `Unknown tag "${t}"`));
+    };
+
+    profile.projects.forEach((project, i) => {
+      if (project.areaId && !areaIds.has(project.areaId)) add(at('projects', i, 'areaId'), 'Area not found');
+      checkTags('projects', i, project.tags);
+    });
+    profile.tasks.forEach((task, i) => {
+      if (task.projectId && !projectIds.has(task.projectId)) add(at('tasks', i, 'projectId'), 'Project not found');
+      if (task.parentTaskId && !taskIds.has(task.parentTaskId)) add(at('tasks', i, 'parentTaskId'), 'Parent task not found');
+      if (task.areaId && !areaIds.has(task.areaId)) add(at('tasks', i, 'areaId'), 'Area not found');
+      (task.blockedBy || []).filter(id => !taskIds.has(id)).forEach(() => add(at('tasks', i, 'blockedBy'), 'Blocking task not found'));
+      checkTags('tasks', i, task.tags);
+    });
+    profile.ideas.forEach((idea, i) => {
+      if (idea.areaId && !areaIds.has(idea.areaId)) add(at('ideas', i, 'areaId'), 'Area not found');
+      checkTags('ideas', i, idea.tags);
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Drop links to entities that don't exist
+ */
+function repairReferences(data: AppData): AppData {
+  const profiles = data.profiles.map((profile): Profile => {
+    const areaIds = new Set(profile.areas.map(a => a.id));
+    const projectIds = new Set(profile.projects.map(p => p.id));
+    const taskIds = new Set(profile.tasks.map(t => t.id));
+    const tagIds = new Set(profile.tags.map(t => t.id));
+    const known = (ids: Set<string>, id: string | undefined) => (id && ids.has(id) ? id : undefined);
+    const knownTags = (tags: string[]) => tags.filter(t => tagIds.has(t));
+
+    return {
+      ...profile,
+      projects: profile.projects.map(project => ({
+        ...project,
+        areaId: known(areaIds, project.areaId) ?? '',
+        tags: knownTags(project.tags),
+      })),
+      tasks: profile.tasks.map(task => ({
+        ...task,
+        projectId: known(projectIds, task.projectId),
+        parentTaskId: known(taskIds, task.parentTaskId),
+        areaId: known(areaIds, task.areaId),
+        blockedBy: task.blockedBy?.filter(id => taskIds.has(id)),
+        tags: knownTags(task.tags),
+      })),
+      ideas: profile.ideas.map(idea => ({
+        ...idea,
+        areaId: known(areaIds, idea.areaId),
+        tags: knownTags(idea.tags),
+      })),
+    };
+  });
+
+  const currentProfileId = profiles.some(p => p.id === data.currentProfileId)
+    ? data.currentProfileId
+    : profiles[0].id;
+  return { ...data, profiles, currentProfileId };
+}
+
+/**
+ * Count what an import contains
+ */
+export function summarizeAppData(data: AppData): ImportSummary {
+  const count = (get: (profile: Profile) => number) => data.profiles.reduce((sum, p) => sum + get(p), 0);
+  return {
+    profiles: data.profiles.length,
+    areas: count(p => p.areas.length),
+    projects: count(p => p.projects.length),
+    tasks: count(p => p.tasks.length),
+    checklistItems: count(p => p.tasks.reduce((sum, t) => sum + t.checklistItems.length, 0)),
+    ideas: count(p => p.ideas.length),
+    tags: count(p => p.tags.length),
+  };
+}
+
+/**
+ * Dry run of an import: parse, upgrade and validate a backup without saving
+ * anything
+ */
+export function checkImport(json: string): ImportReport {
+  const fail = (message: string, path = ''): ImportReport => ({
+    data: null,
+    issues: [{ path, message, fixable: false }],
+    summary: null,
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return fail('Invalid JSON format');
+  }
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as AppData).profiles)) {
+    return fail('Invalid data format: missing profiles array', 'profiles');
+  }
+
+  let migrated: AppData;
+  try {
+    migrated = migrateAppData(parsed as AppData);
+  } catch (error) {
+    if (error instanceof UnsupportedVersionError) return fail(error.message, 'version');
+    // Upgrading assumes the basic shape; report what is wrong with it instead
+    migrated = parsed as AppData;
+  }
+
+  const strict = strictSchema.safeParse(migrated);
+  const repaired = repairSchema.safeParse(migrated);
+  if (!repaired.success) {
+    const unfixable = toIssues(repaired.error, false);
+    const unfixablePaths = new Set(unfixable.map(issue => issue.path));
+    const fixable = strict.success
+      ? []
+      : toIssues(strict.error, true).filter(issue => !unfixablePaths.has(issue.path));
+    return { data: null, issues: [...unfixable, ...fixable], summary: null };
+  }
+
+  const validated = repaired.data as AppData;
+  const referenceIssues = findReferenceIssues(validated);
+  const issues = [...(strict.success ? [] : toIssues(strict.error, true)), ...referenceIssues];
+  if (referenceIssues.some(issue => !issue.fixable)) return { data: null, issues, summary: null };
+
+  const data = repairReferences(validated);
+  return { data, issues, summary: summarizeAppData(data) };
+}
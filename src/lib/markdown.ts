@@ -0,0 +1,749 @@
+/**
+ * Markdown vault export and import for the Life PM application
+ * Writes a profile as Obsidian-friendly notes: one file per project and per
+ * area, plus an inbox with unfiled tasks and ideas. Task lines carry block
+ * IDs (^t-<id>, ^c-<id> for checklist items), so edited files can be read
+ * back and applied to the same records. Records changed in the app since
+ * the files last matched them are reported as conflicts instead of being
+ * overwritten.
+ */
+
+import { format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { ChecklistItem, Priority, Profile, Project, ProjectStatus, Tag, Task, TaskStatus } from './types';
+import { coerceDate } from './csv';
+
+export interface VaultFile {
+  path: string;
+  content: string;
+}
+
+type DocumentType = 'project' | 'area' | 'inbox';
+
+// Checkbox characters; besides [ ] and [x] these are common Obsidian
+// alternative checkboxes
+const STATUS_MARKS: Record<TaskStatus, string> = {
+  backlog: '>',
+  todo: ' ',
+  'in-progress': '/',
+  blocked: '!',
+  done: 'x',
+};
+
+// Obsidian Tasks plugin signifiers; medium is the unmarked default
+const PRIORITY_MARKS: Partial<Record<Priority, string>> = {
+  critical: '🔺',
+  high: '⏫',
+  low: '🔽',
+};
+const DUE_MARK = '📅';
+const DONE_MARK = '✅';
+
+const PROJECT_STATUSES: ProjectStatus[] = ['backlog', 'active', 'on-hold', 'completed', 'cancelled'];
+const PRIORITIES: Priority[] = ['low', 'medium', 'high', 'critical'];
+
+const TASKS_HEADING = '## Tasks';
+const IDEAS_HEADING = '## Ideas';
+
+const formatDay = (iso: string | undefined) => (iso ? format(parseISO(iso), 'yyyy-MM-dd') : '');
+
+// Obsidian tags can't contain spaces
+const tagSlug = (name: string) => name.trim().replace(/\s+/g, '-');
+
+// A literal # would read back as a tag
+const escapeText = (text: string) => text.replace(/(^|\s)#/g, '$1\\#');
+const unescapeText = (text: string) => text.replace(/\\#/g, '#');
+
+// Characters Obsidian and file systems don't allow in note names
+const fileName = (title: string) => title.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Untitled';
+
+/**
+ * A front matter value, quoted when plain YAML would read it differently
+ */
+function yamlValue(value: string): string {
+  // Plain dates stay unquoted so Obsidian shows them as dates
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const plain = /^[^\s'"[\]{}>|*&!%@`#,?:-][^:#]*$/.test(value) &&
+    !/\s$/.test(value) &&
+    !/^(true|false|null|yes|no|~|[\d.+-]+)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function frontMatter(fields: [string, string | string[] | undefined][]): string {
+  const lines = ['---'];
+  fields.forEach(([key, value]) => {
+    if (value === undefined || value === '') return;
+    if (Array.isArray(value)) {
+      if (value.length === 0) return;
+      lines.push(`${key}:`, ...value.map(item => `  - ${yamlValue(item)}`));
+    } else {
+      lines.push(`${key}: ${yamlValue(value)}`);
+    }
+  });
+  lines.push('---');
+  return lines.join('\n');
+}
+
+/**
+ * Task lines for tasks and their subtasks within the same file, with
+ * checklist items nested below their task
+ */
+function taskLines(profile: Profile, fileTasks: Task[], tasks: Task[], depth = 0): string[] {
+  const indent = '\t'.repeat(depth);
+  return tasks.flatMap(task => {
+    const parts = [escapeText(task.title)];
+    if (PRIORITY_MARKS[task.priority]) parts.push(PRIORITY_MARKS[task.priority]);
+    if (task.dueDate) parts.push(`${DUE_MARK} ${formatDay(task.dueDate)}`);
+    if (task.status === 'done' && task.completedAt) parts.push(`${DONE_MARK} ${formatDay(task.completedAt)}`);
+    task.tags.forEach(id => {
+      const tag = profile.tags.find(t => t.id === id && !t.deletedAt);
+      if (tag) parts.push(`#${tagSlug(tag.name)}`);
+    });
+    parts.push(`^t-${task.id}`);
+
+    return [
+      `${indent}- [${STATUS_MARKS[task.status]}] ${parts.join(' ')}`,
+      ...task.checklistItems.map(item => `${indent}\t- [${item.done ? 'x' : ' '}] ${escapeText(item.content)} ^c-${item.id}`),
+      ...taskLines(profile, fileTasks, fileTasks.filter(t => t.parentTaskId === task.id), depth + 1),
+    ];
+  });
+}
+
+/**
+ * The task list for a set of tasks: top-level tasks, with subtasks nested
+ * under parents in the same set
+ */
+function taskList(profile: Profile, tasks: Task[]): string {
+  const ids = new Set(tasks.map(t => t.id));
+  const roots = tasks.filter(t => !t.parentTaskId || !ids.has(t.parentTaskId));
+  return taskLines(profile, tasks, roots).join('\n');
+}
+
+/**
+ * Export a profile as Markdown files, grouped into Projects/ and Areas/
+ * folders with the inbox at the top
+ */
+export function exportMarkdownVault(profile: Profile, now: Date = new Date()): VaultFile[] {
+  const exported = now.toISOString();
+  const areas = profile.areas.filter(a => !a.deletedAt);
+  const projects = profile.projects.filter(p => !p.deletedAt);
+  const tasks = profile.tasks.filter(t => !t.deletedAt);
+  const tagNames = (ids: string[]) =>
+    ids.map(id => profile.tags.find(t => t.id === id && !t.deletedAt)?.name).filter(Boolean).map(tagSlug);
+
+  // Note names must be unique for links to resolve
+  const used = new Set<string>(['inbox']);
+  const uniqueName = (title: string) => {
+    const base = fileName(title);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} (${n})`;
+    used.add(name.toLowerCase());
+    return name;
+  };
+  const projectNames = new Map(projects.map(p => [p.id, uniqueName(p.title)]));
+  const areaNames = new Map(areas.map(a => [a.id, uniqueName(a.name)]));
+
+  const files: VaultFile[] = projects.map(project => {
+    const area = areas.find(a => a.id === project.areaId);
+    return {
+      path: `Projects/${projectNames.get(project.id)}.md`,
+      content: [
+        frontMatter([
+          ['id', project.id],
+          ['type', 'project'],
+          ['title', project.title],
+          ['status', project.status],
+          ['priority', project.priority],
+          ['area', area?.name],
+          ['start', formatDay(project.startDate)],
+          ['due', formatDay(project.dueDate)],
+          ['tags', tagNames(project.tags)],
+          ['archived', project.archived ? 'true' : undefined],
+          ['created', project.createdAt],
+          ['updated', project.updatedAt],
+          ['exported', exported],
+        ]),
+        `# ${project.title}`,
+        '',
+        ...(project.description ? [project.description, ''] : []),
+        ...(area ? [`Area: [[${areaNames.get(area.id)}]]`, ''] : []),
+        TASKS_HEADING,
+        '',
+        taskList(profile, tasks.filter(t => t.projectId === project.id)),
+        '',
+      ].join('\n'),
+    };
+  });
+
+  areas.forEach(area => {
+    const areaProjects = projects.filter(p => p.areaId === area.id);
+    files.push({
+      path: `Areas/${areaNames.get(area.id)}.md`,
+      content: [
+        frontMatter([
+          ['id', area.id],
+          ['type', 'area'],
+          ['name', area.name],
+          ['exported', exported],
+        ]),
+        `# ${area.name}`,
+        '',
+        ...(area.description ? [area.description, ''] : []),
+        '## Projects',
+        '',
+        ...(areaProjects.length > 0
+          ? areaProjects.map(p => `- [[${projectNames.get(p.id)}]] (${p.status})`)
+          : ['No projects']),
+        '',
+        TASKS_HEADING,
+        '',
+        taskList(profile, tasks.filter(t => !t.projectId && t.areaId === area.id)),
+        '',
+      ].join('\n'),
+    });
+  });
+
+  const ideas = profile.ideas.filter(i => !i.deletedAt && !i.archived);
+  const areaIds = new Set(areas.map(a => a.id));
+  files.push({
+    path: 'Inbox.md',
+    content: [
+      frontMatter([
+        ['type', 'inbox'],
+        ['profile', profile.name],
+        ['exported', exported],
+      ]),
+      '# Inbox',
+      '',
+      TASKS_HEADING,
+      '',
+      taskList(profile, tasks.filter(t => !t.projectId && !(t.areaId && areaIds.has(t.areaId)))),
+      '',
+      IDEAS_HEADING,
+      '',
+      ...ideas.flatMap(idea => [
+        `- ${idea.title} ^i-${idea.id}`,
+        ...(idea.notes ? idea.notes.split('\n').map(line => `\t${line}`) : []),
+      ]),
+      '',
+    ].join('\n'),
+  });
+
+  return files;
+}
+
+/**
+ * Read front matter: plain and quoted scalars, and lists written either
+ * as "- item" lines or [a, b]
+ */
+export function parseFrontMatter(text: string): { data: Record<string, string | string[]>; body: string } {
+  const match = text.replace(/^\uFEFF/, '').match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) return { data: {}, body: text };
+
+  const scalar = (value: string) => {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('"')) {
+      try {
+        return JSON.parse(trimmed) as string;
+      } catch {
+        return trimmed.slice(1, -1);
+      }
+    }
+    if (trimmed.startsWith("'") && trimmed.endsWith("'")) return trimmed.slice(1, -1).replace(/''/g, "'");
+    return trimmed;
+  };
+
+  const data: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = line.match(/^\s+-\s+(.*)$/) ?? line.match(/^-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(scalar(item[1]));
+      return;
+    }
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!field) return;
+    const [, key, value] = field;
+    listKey = null;
+    if (!value.trim()) {
+      data[key] = [];
+      listKey = key;
+    } else if (value.trim().startsWith('[')) {
+      data[key] = value.trim().slice(1, -1).split(',').map(scalar).filter(Boolean);
+    } else {
+      data[key] = scalar(value);
+    }
+  });
+  return { data, body: match[2] };
+}
+
+interface TaskLine {
+  // Block ID kind: t for tasks, c for checklist items
+  kind: 't' | 'c' | null;
+  id?: string;
+  mark: string;
+  title: string;
+  priority: Priority;
+  due?: string;
+  done?: string;
+  tags: string[];
+  children: TaskLine[];
+  lineNumber: number;
+}
+
+/**
+ * Read one list line; null for lines that aren't checkbox items
+ */
+function parseTaskLine(line: string, lineNumber: number): TaskLine | null {
+  const match = line.match(/^\s*[-*+]\s+\[(.)\]\s?(.*)$/);
+  if (!match) return null;
+  let text = match[2];
+  const take = (pattern: RegExp) => {
+    const found = text.match(pattern);
+    if (found) text = text.replace(pattern, ' ');
+    return found;
+  };
+
+  const block = take(/\s*\^([tc])-([\w-]+)\s*$/);
+  const due = take(new RegExp(`${DUE_MARK}\\s*(\\d{4}-\\d{2}-\\d{2})`));
+  const done = take(new RegExp(`${DONE_MARK}\\s*(\\d{4}-\\d{2}-\\d{2})`));
+  const priority = (Object.keys(PRIORITY_MARKS) as Priority[]).find(p => take(new RegExp(PRIORITY_MARKS[p])));
+  const tags: string[] = [];
+  text = text.replace(/(^|\s)#([^\s#]+)/g, (_, space: string, tag: string) => {
+    tags.push(tag);
+    return space;
+  });
+
+  return {
+    kind: block ? (block[1] as 't' | 'c') : null,
+    id: block?.[2],
+    mark: match[1].toLowerCase(),
+    title: unescapeText(text.replace(/\s+/g, ' ').trim()),
+    priority: priority ?? 'medium',
+    due: due?.[1],
+    done: done?.[1],
+    tags,
+    children: [],
+    lineNumber,
+  };
+}
+
+/**
+ * The checkbox items under a heading, nested by indentation
+ */
+function parseTaskSection(body: string, heading: string): TaskLine[] {
+  const lines = body.split(/\r?\n/);
+  const start = lines.findIndex(line => line.trim().toLowerCase() === heading.toLowerCase());
+  if (start < 0) return [];
+
+  const roots: TaskLine[] = [];
+  const stack: { indent: number; item: TaskLine }[] = [];
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^#{1,2}\s/.test(line)) break;
+    const item = parseTaskLine(line, i + 1);
+    if (!item) continue;
+    const indent = (line.match(/^\s*/)[0]).replace(/\t/g, '    ').length;
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].item.children.push(item);
+    else roots.push(item);
+    stack.push({ indent, item });
+  }
+  return roots;
+}
+
+interface MarkdownDocument {
+  path: string;
+  content: string;
+  // Lines before the body, to map task line numbers back to the file
+  lineOffset: number;
+  type: DocumentType;
+  id?: string;
+  data: Record<string, string | string[]>;
+  // Project description: the text between the title and the task list
+  description: string;
+  tasks: TaskLine[];
+  exportedAt?: string;
+}
+
+/**
+ * Read a file written by exportMarkdownVault; null for other notes
+ */
+function parseMarkdownDocument(path: string, text: string): MarkdownDocument | null {
+  const { data, body } = parseFrontMatter(text);
+  const type = data.type as DocumentType;
+  if (type !== 'project' && type !== 'area' && type !== 'inbox') return null;
+
+  const bodyLines = body.split(/\r?\n/);
+  const taskStart = bodyLines.findIndex(line => line.trim().toLowerCase() === TASKS_HEADING.toLowerCase());
+  const before = bodyLines.slice(0, taskStart < 0 ? bodyLines.length : taskStart);
+  // Leave out the title heading and the generated area link
+  const titleIndex = before.findIndex(line => line.trim());
+  if (before[titleIndex]?.startsWith('# ')) before.splice(titleIndex, 1);
+  const description = before.filter(line => !/^Area: \[\[.*\]\]$/.test(line.trim())).join('\n').trim();
+
+  return {
+    path,
+    content: text,
+    lineOffset: text.split('\n').length - body.split('\n').length,
+    type,
+    id: typeof data.id === 'string' ? data.id : undefined,
+    data,
+    description,
+    tasks: parseTaskSection(body, TASKS_HEADING),
+    exportedAt: typeof data.exported === 'string' ? data.exported : undefined,
+  };
+}
+
+export interface MarkdownImportIssue {
+  path: string;
+  message: string;
+}
+
+export type MarkdownResolution = 'file' | 'app';
+
+export interface MarkdownChange {
+  key: string;
+  kind: 'project' | 'task';
+  id: string;
+  title: string;
+  // Names of the fields the file changes
+  fields: string[];
+  // The record was also changed in the app after the export
+  conflict: boolean;
+  resolution: MarkdownResolution;
+}
+
+export interface MarkdownImportPlan {
+  // Changed records, ready to replace the existing ones
+  projects: Project[];
+  tasks: Task[];
+  // Task lines without a block ID
+  newTasks: Task[];
+  tags: Tag[];
+  // The files with block IDs added to the lines that had none, so the next
+  // import finds the same records
+  files: VaultFile[];
+  changes: MarkdownChange[];
+  issues: MarkdownImportIssue[];
+}
+
+/**
+ * Put block IDs at the end of the given lines, replacing any they had,
+ * and keep the line endings
+ */
+function withBlockIds(doc: MarkdownDocument, ids: Map<number, string>): VaultFile {
+  const lines = doc.content.split('\n');
+  ids.forEach((blockId, lineNumber) => {
+    const index = doc.lineOffset + lineNumber - 1;
+    const ending = lines[index].endsWith('\r') ? '\r' : '';
+    lines[index] = `${lines[index].replace(/\s*\^[tc]-[\w-]+\s*$/, '').replace(/\s+$/, '')} ^${blockId}${ending}`;
+  });
+  return { path: doc.path, content: lines.join('\n') };
+}
+
+/**
+ * The Markdown sync times after an import: records the import wrote now
+ * match the files. Only records that still exist are kept.
+ */
+export function markdownBaseAfterImport(profile: Profile, plan: MarkdownImportPlan): Record<string, string> {
+  const base = { ...profile.settings.markdownBase };
+  [...plan.projects, ...plan.tasks, ...plan.newTasks].forEach(item => {
+    base[item.id] = item.updatedAt;
+  });
+  const live = new Set([...profile.projects, ...profile.tasks].filter(item => !item.deletedAt).map(item => item.id));
+  return Object.fromEntries(Object.entries(base).filter(([id]) => live.has(id)));
+}
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((value, i) => value === b[i]);
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Work out what the edited files change. Changes to records that were
+ * also edited in the app since the files last matched them (the export, or
+ * an import that wrote the record) are only applied where resolutions says
+ * 'file'. Lines without a block ID that an earlier import already added are
+ * matched to those tasks by title and place instead of being added again.
+ */
+export function planMarkdownImport(
+  profile: Profile,
+  files: VaultFile[],
+  resolutions: Record<string, MarkdownResolution> = {},
+  now: Date = new Date()
+): MarkdownImportPlan {
+  const timestamp = now.toISOString();
+  const plan: MarkdownImportPlan = { projects: [], tasks: [], newTasks: [], tags: [], files: [], changes: [], issues: [] };
+  const documents = files
+    .map(file => parseMarkdownDocument(file.path, file.content))
+    .filter(Boolean);
+
+  const liveTags = profile.tags.filter(t => !t.deletedAt);
+  const liveAreaIds = new Set(profile.areas.filter(a => !a.deletedAt).map(a => a.id));
+  // Trashed tags aren't in the files but stay on the items until purged
+  const mergeTags = (fileTags: string[], current: string[]) => {
+    const trashed = current.filter(id => !liveTags.some(t => t.id === id));
+    const live = current.filter(id => !trashed.includes(id));
+    return sameList([...fileTags].sort(), [...live].sort()) ? null : [...fileTags, ...trashed];
+  };
+  const tagIds = (slugs: string[]) => Array.from(new Set(slugs.map(slug => {
+    const name = slug.trim();
+    let tag = [...liveTags, ...plan.tags].find(t => tagSlug(t.name).toLowerCase() === tagSlug(name).toLowerCase());
+    if (!tag) {
+      tag = { id: uuidv4(), name };
+      plan.tags.push(tag);
+    }
+    return tag.id;
+  })));
+  const day = (value: string | undefined, path: string, what: string) => {
+    if (!value) return undefined;
+    const date = coerceDate(value);
+    if (!date) plan.issues.push({ path, message: `Couldn't read ${what} "${value}"` });
+    return date ?? undefined;
+  };
+  // Changed since the export, or since an import last wrote the record
+  const syncedAt = profile.settings.markdownBase || {};
+  const changedInApp = (id: string, updatedAt: string, exportedAt: string | undefined) => {
+    if (!exportedAt) return false;
+    const base = syncedAt[id] && syncedAt[id] > exportedAt ? syncedAt[id] : exportedAt;
+    return updatedAt > base;
+  };
+
+  const record = <T extends { id: string }>(
+    kind: 'project' | 'task',
+    current: T,
+    patch: Partial<T>,
+    title: string,
+    updatedAt: string,
+    exportedAt: string | undefined
+  ): T | null => {
+    const fields = Object.keys(patch);
+    if (fields.length === 0) return null;
+    const key = `${kind}:${current.id}`;
+    const conflict = changedInApp(current.id, updatedAt, exportedAt);
+    const resolution = conflict ? resolutions[key] ?? 'app' : 'file';
+    plan.changes.push({ key, kind, id: current.id, title, fields, conflict, resolution });
+    return resolution === 'file' ? { ...current, ...patch, updatedAt: timestamp } : null;
+  };
+
+  documents.forEach(doc => {
+    if (doc.type !== 'project') return;
+    const project = profile.projects.find(p => p.id === doc.id);
+    if (!project || project.deletedAt) {
+      plan.issues.push({ path: doc.path, message: project ? 'The project is in the trash; file left out' : 'No project with this ID; file left out' });
+      return;
+    }
+
+    const patch: Partial<Project> = {};
+    const field = (name: string) => (typeof doc.data[name] === 'string' ? (doc.data[name] as string) : '');
+    const title = field('title').trim();
+    if (title && title !== project.title) patch.title = title;
+
+    const status = field('status') as ProjectStatus;
+    if (status && status !== project.status) {
+      if (PROJECT_STATUSES.includes(status)) patch.status = status;
+      else plan.issues.push({ path: doc.path, message: `Unknown status "${status}"` });
+    }
+    const priority = field('priority') as Priority;
+    if (priority && priority !== project.priority) {
+      if (PRIORITIES.includes(priority)) patch.priority = priority;
+      else plan.issues.push({ path: doc.path, message: `Unknown priority "${priority}"` });
+    }
+
+    const areaName = field('area').trim();
+    const area = areaName && profile.areas.find(a => !a.deletedAt && a.name.toLowerCase() === areaName.toLowerCase());
+    if (areaName && !area) plan.issues.push({ path: doc.path, message: `No area called "${areaName}"` });
+    if (area && area.id !== project.areaId) patch.areaId = area.id;
+
+    // Unreadable dates are reported and the current ones kept
+    const start = field('start');
+    if (start !== formatDay(project.startDate)) {
+      const date = day(start, doc.path, 'start date');
+      if (date || !start) patch.startDate = date;
+    }
+    const due = field('due');
+    if (due !== formatDay(project.dueDate)) {
+      const date = day(due, doc.path, 'due date');
+      if (date || !due) patch.dueDate = date;
+    }
+
+    const tags = mergeTags(Array.isArray(doc.data.tags) ? tagIds(doc.data.tags) : [], project.tags);
+    if (tags) patch.tags = tags;
+
+    const description = doc.description || undefined;
+    if ((description ?? '') !== (project.description ?? '').trim()) patch.description = description;
+
+    const updated = record('project', project, patch, project.title, project.updatedAt, doc.exportedAt);
+    if (updated) plan.projects.push(updated);
+  });
+
+  const referencedIds = new Set<string>();
+  const collectReferences = (items: TaskLine[]) => items.forEach(item => {
+    if (item.kind === 't' && item.id) referencedIds.add(item.id);
+    collectReferences(item.children);
+  });
+  documents.forEach(doc => collectReferences(doc.tasks));
+
+  const seen = new Set<string>();
+  documents.forEach(doc => {
+    // Block IDs to add to lines that had none, by line number
+    const newIds = new Map<number, string>();
+    // Where tasks in this file belong
+    const area = doc.type === 'area' ? profile.areas.find(a => a.id === doc.id && !a.deletedAt) : undefined;
+    if (doc.type === 'area' && !area) {
+      if (doc.tasks.length > 0) plan.issues.push({ path: doc.path, message: 'No area with this ID; its tasks were left out' });
+      return;
+    }
+    const projectId = doc.type === 'project' ? doc.id : undefined;
+    if (projectId && !profile.projects.some(p => p.id === projectId && !p.deletedAt)) return;
+    const idsInFile = new Set<string>();
+    const collectIds = (items: TaskLine[]) => items.forEach(item => {
+      if (item.kind === 't' && item.id) idsInFile.add(item.id);
+      collectIds(item.children);
+    });
+    collectIds(doc.tasks);
+
+    // Lines without an ID take the ID of an unclaimed item with the same text
+    const checklist = (task: Task | undefined, items: TaskLine[]): ChecklistItem[] => {
+      const lines = items.flatMap(function flatten(item): TaskLine[] {
+        return item.kind === 't' ? [] : [item, ...item.children.flatMap(flatten)];
+      }).map(item => ({ item, content: [item.title, ...item.tags.map(tag => `#${tag}`)].join(' ') }))
+        .filter(({ content }) => content);
+      const existing = task?.checklistItems || [];
+      const existingIds = new Set(existing.map(c => c.id));
+      const lineIds = new Set(lines.map(({ item }) => item.id).filter(id => existingIds.has(id)));
+      const used = new Set<string>();
+
+      return lines.map(({ item, content }) => {
+        const own = item.id && existingIds.has(item.id) && !used.has(item.id) ? item.id : undefined;
+        const id = own ??
+          existing.find(c => !lineIds.has(c.id) && !used.has(c.id) && collapse(c.content) === content)?.id ??
+          uuidv4();
+        used.add(id);
+        if (id !== item.id) newIds.set(item.lineNumber, `c-${id}`);
+        return { id, content, done: item.mark === 'x' };
+      });
+    };
+
+    const statusOf = (mark: string) =>
+      (Object.keys(STATUS_MARKS) as TaskStatus[]).find(status => STATUS_MARKS[status] === mark) ?? 'todo';
+
+    const visit = (items: TaskLine[], parentId: string | undefined) => items.forEach(item => {
+      if (item.kind === 'c') {
+        if (!parentId) plan.issues.push({ path: doc.path, message: `Line ${item.lineNumber}: checklist item outside a task left out` });
+        return;
+      }
+      if (!item.title) return;
+      // Lines without an ID nested in a task are checklist items
+      if (!item.kind && parentId) return;
+
+      const location = { projectId, areaId: area?.id };
+      const status = statusOf(item.mark);
+      const completedAt = status === 'done' ? day(item.done, doc.path, 'completion date') : undefined;
+
+      // A line an earlier import added is the task it created: same title and
+      // place, created after the export and not referenced by any block ID
+      const sameLocation = (t: Task) => projectId
+        ? t.projectId === projectId
+        : !t.projectId && (area ? t.areaId === area.id : !(t.areaId && liveAreaIds.has(t.areaId)));
+      const imported = !item.id && profile.tasks.find(t =>
+        !t.deletedAt &&
+        !referencedIds.has(t.id) &&
+        !seen.has(t.id) &&
+        (!doc.exportedAt || t.createdAt > doc.exportedAt) &&
+        sameLocation(t) &&
+        t.parentTaskId === parentId &&
+        collapse(t.title) === item.title
+      );
+      if (imported) {
+        item.id = imported.id;
+        newIds.set(item.lineNumber, `t-${imported.id}`);
+      }
+
+      if (!item.id) {
+        const task: Task = {
+          id: uuidv4(),
+          ...location,
+          parentTaskId: parentId,
+          title: item.title,
+          status,
+          priority: item.priority,
+          tags: tagIds(item.tags),
+          dueDate: day(item.due, doc.path, 'due date'),
+          createdAt: timestamp,
+          updatedAt: timestamp,
+          completedAt: status === 'done' ? completedAt ?? timestamp : undefined,
+          checklistItems: [],
+        };
+        task.checklistItems = checklist(task, item.children);
+        newIds.set(item.lineNumber, `t-${task.id}`);
+        plan.newTasks.push(task);
+        visit(item.children, task.id);
+        return;
+      }
+
+      const task = profile.tasks.find(t => t.id === item.id);
+      if (!task || task.deletedAt) {
+        plan.issues.push({
+          path: doc.path,
+          message: `Line ${item.lineNumber}: "${item.title}" ${task ? 'is in the trash' : 'no longer exists'}; left out`,
+        });
+        return;
+      }
+      if (seen.has(task.id)) {
+        plan.issues.push({ path: doc.path, message: `Line ${item.lineNumber}: "${item.title}" appears more than once; only the first is used` });
+        return;
+      }
+      seen.add(task.id);
+
+      const patch: Partial<Task> = {};
+      if (item.title !== collapse(task.title)) patch.title = item.title;
+      if (status !== task.status) {
+        patch.status = status;
+        const completed = status === 'done' ? completedAt ?? timestamp : undefined;
+        if (completed !== task.completedAt) patch.completedAt = completed;
+      } else if (status === 'done' && completedAt && item.done !== formatDay(task.completedAt)) {
+        patch.completedAt = completedAt;
+      }
+      if (item.priority !== task.priority) patch.priority = item.priority;
+      if ((item.due ?? '') !== formatDay(task.dueDate)) {
+        const due = day(item.due, doc.path, 'due date');
+        if (due || !item.due) patch.dueDate = due;
+      }
+      const tags = mergeTags(tagIds(item.tags), task.tags);
+      if (tags) patch.tags = tags;
+
+      // Moved to another file. Tasks of trashed areas are in the inbox.
+      if (task.projectId !== projectId) patch.projectId = projectId;
+      const areaId = task.areaId && liveAreaIds.has(task.areaId) ? task.areaId : undefined;
+      if (!projectId && areaId !== area?.id) patch.areaId = area?.id;
+      // Nesting changes the parent; a top-level line only clears a parent
+      // that is in the same file
+      if (parentId ? task.parentTaskId !== parentId : task.parentTaskId && idsInFile.has(task.parentTaskId)) {
+        patch.parentTaskId = parentId;
+      }
+
+      const items = checklist(task, item.children);
+      const sameChecklist = items.length === task.checklistItems.length && items.every((c, i) =>
+        c.id === task.checklistItems[i].id && c.content === collapse(task.checklistItems[i].content) && c.done === task.checklistItems[i].done
+      );
+      if (!sameChecklist) patch.checklistItems = items;
+
+      const updated = record('task', task, patch, task.title, task.updatedAt, doc.exportedAt);
+      if (updated) plan.tasks.push(updated);
+      visit(item.children, task.id);
+    });
+
+    visit(doc.tasks, undefined);
+    if (newIds.size > 0) plan.files.push(withBlockIds(doc, newIds));
+  });
+
+  // Tags created for changes that weren't applied aren't needed
+  const usedTags = new Set([...plan.projects, ...plan.tasks, ...plan.newTasks].flatMap(item => item.tags));
+  plan.tags = plan.tags.filter(tag => usedTags.has(tag.id));
+
+  if (documents.length === 0) {
+    plan.issues.push({ path: '', message: 'None of the files were exported from Life PM' });
+  }
+  return plan;
+}
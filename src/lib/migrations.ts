@@ -0,0 +1,107 @@
+/**
+ * Data migrations for the Life PM application
+ * Each migration upgrades app data to its version from the one before it.
+ * Data from storage, the local replica and imports is run through every
+ * migration newer than the version it was saved with, in order.
+ */
+
+import { AppData, Idea, Profile, Project, Task } from './types';
+import { DEFAULT_FOCUS_SETTINGS } from './focus';
+
+export const APP_VERSION = '1.1.0';
+
+// Data saved before versions were checked counts as this version
+export const INITIAL_VERSION = '1.0.0';
+
+interface Migration {
+  version: string;
+  description: string;
+  // Receives data in the shape of the previous version, so fields the types
+  // call required may be missing
+  migrate: (data: AppData) => AppData;
+}
+
+export class UnsupportedVersionError extends Error {
+  constructor(version: string) {
+    super(`This data was saved by a newer version of Life PM (${version}). Update the app to open it.`);
+    this.name = 'UnsupportedVersionError';
+  }
+}
+
+const DEFAULT_SETTINGS: Profile['settings'] = {
+  theme: 'dark',
+  defaultView: 'today',
+  defaultTaskGrouping: 'project',
+  hideCompletedTasks: false,
+};
+
+// Entries that aren't objects are left for import validation to report
+const isRecord = (value: unknown): boolean => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Fill in collections and fields that older data could be missing
+ */
+function backfillProfile(profile: Profile): Profile {
+  if (!isRecord(profile)) return profile;
+  const withTags = <T extends { tags: string[] }>(item: T): T =>
+    isRecord(item) ? { ...item, tags: item.tags ?? [] } : item;
+
+  return {
+    ...profile,
+    createdAt: profile.createdAt ?? new Date().toISOString(),
+    areas: profile.areas ?? [],
+    tags: profile.tags ?? [],
+    projects: (profile.projects ?? []).map((project: Project) => withTags(project)),
+    tasks: (profile.tasks ?? []).map((task: Task) => isRecord(task)
+      ? { ...withTags(task), checklistItems: task.checklistItems ?? [] }
+      : task
+    ),
+    ideas: (profile.ideas ?? []).map((idea: Idea) => withTags(idea)),
+    settings: {
+      ...DEFAULT_SETTINGS,
+      ...profile.settings,
+      focus: { ...DEFAULT_FOCUS_SETTINGS, ...profile.settings?.focus },
+    },
+  };
+}
+
+// Oldest first
+const MIGRATIONS: Migration[] = [
+  {
+    version: '1.1.0',
+    description: 'Back-fill missing collections, tags, checklists and settings',
+    migrate: data => ({ ...data, profiles: data.profiles.map(backfillProfile) }),
+  },
+];
+
+/**
+ * Compare dotted version numbers: negative if `a` is older than `b`
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Upgrade data to the current version. Returns the same data if it is
+ * already current; throws UnsupportedVersionError for data from a newer
+ * version of the app, which this one can't safely read or write.
+ */
+export function migrateAppData(data: AppData): AppData {
+  const version = data.version || INITIAL_VERSION;
+  if (compareVersions(version, APP_VERSION) > 0) throw new UnsupportedVersionError(version);
+  if (compareVersions(version, APP_VERSION) === 0) return data;
+
+  const migrated = MIGRATIONS
+    .filter(migration => compareVersions(migration.version, version) > 0)
+    .reduce((current, migration) => {
+      console.log(`🔧 Migrating data to ${migration.version}: ${migration.description}`);
+      return { ...migration.migrate(current), version: migration.version };
+    }, data);
+  return { ...migrated, version: APP_VERSION };
+}
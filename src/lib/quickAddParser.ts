@@ -0,0 +1,229 @@
+/**
+ * Natural-language parser for the Quick Add title box
+ * Extracts inline tokens like "tomorrow 3pm", "!high", "#tag", "+Project", "@Area" and "~30m"
+ */
+
+import { addDays, addWeeks, nextDay, startOfDay } from 'date-fns';
+import { Area, Priority, Project, Tag } from './types';
+
+export type QuickAddTokenType = 'date' | 'time' | 'priority' | 'tag' | 'project' | 'area' | 'estimate';
+
+export interface QuickAddToken {
+  type: QuickAddTokenType;
+  raw: string;
+  label: string;
+  /** Set for tags that don't exist yet and can be created */
+  isNew?: boolean;
+}
+
+export interface QuickAddParseResult {
+  title: string;
+  dueDate?: Date;
+  isToday?: boolean;
+  priority?: Priority;
+  tagIds: string[];
+  newTagNames: string[];
+  projectId?: string;
+  areaId?: string;
+  estimateMinutes?: number;
+  tokens: QuickAddToken[];
+}
+
+interface QuickAddContext {
+  projects: Project[];
+  areas: Area[];
+  tags: Tag[];
+}
+
+type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+const WEEKDAYS: Record<string, Weekday> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+};
+
+// Short names are ordinary words too ("sun cream"), so they only count
+// after "next" or "on"
+const ALL_WEEKDAYS: Record<string, Weekday> = {
+  ...WEEKDAYS,
+  sun: 0, mon: 1, tue: 2, tues: 2, wed: 3, thu: 4, thur: 4, thurs: 4, fri: 5, sat: 6,
+};
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  critical: 'critical', crit: 'critical', urgent: 'critical', '1': 'critical',
+  high: 'high', '2': 'high',
+  medium: 'medium', med: 'medium', '3': 'medium',
+  low: 'low', '4': 'low',
+};
+
+// Tokens must stand alone as words: start of input or whitespace on the left
+const WORD_START = '(?<=^|\\s)';
+const WORD_END = '(?=$|\\s)';
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Match a "+Name" / "@Name" token against named entities. Multi-word names are
+ * matched by longest exact prefix; otherwise, when allowPartial is set, the
+ * single word is matched against the start of each name, ignoring case and
+ * punctuation.
+ */
+function matchEntity<T extends { id: string }>(
+  text: string,
+  sigil: string,
+  entities: T[],
+  getName: (entity: T) => string,
+  allowPartial = true
+): { entity: T; raw: string; index: number } | null {
+  const pattern = new RegExp(`${WORD_START}\\${sigil}(\\S+)`, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const rest = text.slice(match.index + 1);
+    const restLower = rest.toLowerCase();
+
+    const byLength = [...entities].sort((a, b) => getName(b).length - getName(a).length);
+    const exact = byLength.find(entity => {
+      const name = getName(entity).toLowerCase();
+      return restLower.startsWith(name) && /^(\s|$)/.test(rest.slice(name.length));
+    });
+    if (exact) {
+      return { entity: exact, raw: sigil + rest.slice(0, getName(exact).length), index: match.index };
+    }
+
+    if (!allowPartial) continue;
+    const word = normalize(match[1]);
+    const partial = word && entities.find(entity => normalize(getName(entity)).startsWith(word));
+    if (partial) {
+      return { entity: partial, raw: match[0], index: match.index };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a Quick Add title into its plain title and recognized fields
+ */
+export function parseQuickAdd(input: string, context: QuickAddContext, now: Date = new Date()): QuickAddParseResult {
+  const result: QuickAddParseResult = { title: '', tagIds: [], newTagNames: [], tokens: [] };
+  let text = input;
+
+  // Remove a token where it was matched, not at its first occurrence
+  const consume = (raw: string, index: number) => {
+    text = text.slice(0, index) + ' ' + text.slice(index + raw.length);
+  };
+
+  // +Project
+  const project = matchEntity(text, '+', context.projects.filter(p => !p.archived), p => p.title);
+  if (project) {
+    result.projectId = project.entity.id;
+    result.areaId = project.entity.areaId;
+    result.tokens.push({ type: 'project', raw: project.raw, label: project.entity.title });
+    consume(project.raw, project.index);
+  }
+
+  // @Area
+  const area = matchEntity(text, '@', context.areas, a => a.name);
+  if (area) {
+    result.areaId = area.entity.id;
+    result.tokens.push({ type: 'area', raw: area.raw, label: area.entity.name });
+    consume(area.raw, area.index);
+  }
+
+  // #tag (existing tags may contain spaces: "#Deep Work"). Only exact names
+  // match, so "#home" is offered as a new tag even when "homework" exists.
+  let tagMatch: RegExpExecArray | null;
+  while ((tagMatch = new RegExp(`${WORD_START}#(\\S+)`).exec(text)) !== null) {
+    const existing = matchEntity(text, '#', context.tags, t => t.name, false);
+    if (existing) {
+      if (!result.tagIds.includes(existing.entity.id)) {
+        result.tagIds.push(existing.entity.id);
+        result.tokens.push({ type: 'tag', raw: existing.raw, label: existing.entity.name });
+      }
+      consume(existing.raw, existing.index);
+    } else {
+      const name = tagMatch[1];
+      if (!result.newTagNames.some(n => n.toLowerCase() === name.toLowerCase())) {
+        result.newTagNames.push(name);
+        result.tokens.push({ type: 'tag', raw: tagMatch[0], label: name, isNew: true });
+      }
+      consume(tagMatch[0], tagMatch.index);
+    }
+  }
+
+  // !priority
+  const priorityMatch = new RegExp(`${WORD_START}!(\\w+)${WORD_END}`).exec(text);
+  if (priorityMatch && PRIORITY_ALIASES[priorityMatch[1].toLowerCase()]) {
+    result.priority = PRIORITY_ALIASES[priorityMatch[1].toLowerCase()];
+    result.tokens.push({ type: 'priority', raw: priorityMatch[0], label: result.priority });
+    consume(priorityMatch[0], priorityMatch.index);
+  }
+
+  // ~estimate: ~30m, ~1h, ~1h30m, ~45
+  const estimateMatch = new RegExp(`${WORD_START}~(?:(\\d+)h)?(?:(\\d+)m?)?${WORD_END}`, 'i').exec(text);
+  if (estimateMatch && (estimateMatch[1] || estimateMatch[2])) {
+    const minutes = parseInt(estimateMatch[1] || '0', 10) * 60 + parseInt(estimateMatch[2] || '0', 10);
+    if (minutes > 0) {
+      result.estimateMinutes = minutes;
+      result.tokens.push({ type: 'estimate', raw: estimateMatch[0], label: `${minutes}m` });
+      consume(estimateMatch[0], estimateMatch.index);
+    }
+  }
+
+  // Dates: today, tomorrow, next week, in N days/weeks, [next] weekday
+  const today = startOfDay(now);
+  const datePatterns: { pattern: RegExp; resolve: (m: RegExpExecArray) => Date | null }[] = [
+    { pattern: new RegExp(`${WORD_START}today${WORD_END}`, 'i'), resolve: () => today },
+    { pattern: new RegExp(`${WORD_START}(tomorrow|tmr|tmrw)${WORD_END}`, 'i'), resolve: () => addDays(today, 1) },
+    { pattern: new RegExp(`${WORD_START}next week${WORD_END}`, 'i'), resolve: () => nextDay(today, 1) },
+    {
+      pattern: new RegExp(`${WORD_START}in (\\d+) (day|days|week|weeks)${WORD_END}`, 'i'),
+      resolve: m => m[2].toLowerCase().startsWith('week')
+        ? addWeeks(today, parseInt(m[1], 10))
+        : addDays(today, parseInt(m[1], 10)),
+    },
+    {
+      // "friday", "next fri" and "on fri" all mean the coming Friday (never today)
+      pattern: new RegExp(`${WORD_START}(?:next |on )(${Object.keys(ALL_WEEKDAYS).join('|')})${WORD_END}`, 'i'),
+      resolve: m => nextDay(today, ALL_WEEKDAYS[m[1].toLowerCase()]),
+    },
+    {
+      pattern: new RegExp(`${WORD_START}(${Object.keys(WEEKDAYS).join('|')})${WORD_END}`, 'i'),
+      resolve: m => nextDay(today, WEEKDAYS[m[1].toLowerCase()]),
+    },
+  ];
+
+  for (const { pattern, resolve } of datePatterns) {
+    const match = pattern.exec(text);
+    const date = match && resolve(match);
+    if (match && date) {
+      result.dueDate = date;
+      result.isToday = date.getTime() === today.getTime() || undefined;
+      result.tokens.push({ type: 'date', raw: match[0], label: match[0].toLowerCase() });
+      consume(match[0], match.index);
+      break;
+    }
+  }
+
+  // Time of day: 3pm, 3:30pm, 15:00 (applies to today when no date was given)
+  const timeMatch = new RegExp(`${WORD_START}(?:at )?(\\d{1,2})(?::(\\d{2}))?\\s?(am|pm)${WORD_END}|${WORD_START}(?:at )?(\\d{1,2}):(\\d{2})${WORD_END}`, 'i').exec(text);
+  if (timeMatch) {
+    let hours = parseInt(timeMatch[1] ?? timeMatch[4], 10);
+    const minutes = parseInt(timeMatch[2] ?? timeMatch[5] ?? '0', 10);
+    const meridiem = timeMatch[3]?.toLowerCase();
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+
+    if (hours < 24 && minutes < 60) {
+      const date = new Date(result.dueDate || today);
+      date.setHours(hours, minutes, 0, 0);
+      result.dueDate = date;
+      if (startOfDay(date).getTime() === today.getTime()) result.isToday = true;
+      result.tokens.push({ type: 'time', raw: timeMatch[0], label: timeMatch[0].replace(/^at /i, '') });
+      consume(timeMatch[0], timeMatch.index);
+    }
+  }
+
+  result.title = text.replace(/\s+/g, ' ').trim();
+  return result;
+}
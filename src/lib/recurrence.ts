@@ -0,0 +1,206 @@
+/**
+ * Recurrence engine for repeating tasks
+ * Computes next occurrences and projections from a task's RecurrenceRule
+ */
+
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarWeeks,
+  format,
+  getDaysInMonth,
+  isAfter,
+  setDate,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { RecurrenceRule, Task } from './types';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WEEK_ORDINALS: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  [-1]: 'last',
+};
+
+// Safety cap so a malformed rule can never spin forever
+const MAX_ITERATIONS = 1000;
+
+/**
+ * Resolve the nth weekday of a month (week -1 = last), keeping the time of day from `month`
+ */
+function nthWeekdayOfMonth(month: Date, weekday: number, week: number): Date {
+  const first = startOfMonth(month);
+  const withTime = new Date(first);
+  withTime.setHours(month.getHours(), month.getMinutes(), 0, 0);
+
+  if (week === -1) {
+    const lastDay = setDate(withTime, getDaysInMonth(first));
+    const offset = (lastDay.getDay() - weekday + 7) % 7;
+    return addDays(lastDay, -offset);
+  }
+
+  const offset = (weekday - first.getDay() + 7) % 7;
+  return addDays(withTime, offset + (week - 1) * 7);
+}
+
+/**
+ * Return the first scheduled date strictly after `after`, anchored on `anchor`
+ */
+function nextScheduledDate(rule: RecurrenceRule, anchor: Date, after: Date): Date | null {
+  const interval = Math.max(1, rule.interval || 1);
+  const afterDay = startOfDay(after);
+
+  switch (rule.frequency) {
+    case 'daily':
+    case 'after-completion': {
+      let candidate = addDays(anchor, interval);
+      for (let i = 0; i < MAX_ITERATIONS && !isAfter(startOfDay(candidate), afterDay); i++) {
+        candidate = addDays(candidate, interval);
+      }
+      return candidate;
+    }
+
+    case 'weekly': {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0
+        ? [...rule.weekdays].sort((a, b) => a - b)
+        : [anchor.getDay()];
+      const anchorWeek = startOfWeek(anchor);
+      let candidate = addDays(anchor, 1);
+      for (let i = 0; i < MAX_ITERATIONS * 7; i++) {
+        const weekOffset = differenceInCalendarWeeks(candidate, anchorWeek);
+        if (
+          weekOffset % interval === 0 &&
+          weekdays.includes(candidate.getDay()) &&
+          isAfter(startOfDay(candidate), afterDay)
+        ) {
+          return candidate;
+        }
+        candidate = addDays(candidate, 1);
+      }
+      return null;
+    }
+
+    case 'monthly': {
+      for (let i = 0; i < MAX_ITERATIONS; i++) {
+        const month = addMonths(startOfMonth(anchor), i * interval);
+        month.setHours(anchor.getHours(), anchor.getMinutes(), 0, 0);
+        let candidate: Date;
+        if (rule.monthWeekday) {
+          candidate = nthWeekdayOfMonth(month, rule.monthWeekday.weekday, rule.monthWeekday.week);
+        } else {
+          const day = rule.monthDay ?? anchor.getDate();
+          candidate = setDate(month, Math.min(day, getDaysInMonth(month)));
+        }
+        if (isAfter(startOfDay(candidate), afterDay)) {
+          return candidate;
+        }
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check whether a date falls after the rule's `until` limit
+ */
+function isPastUntil(rule: RecurrenceRule, date: Date): boolean {
+  return !!rule.until && isAfter(startOfDay(date), startOfDay(new Date(rule.until)));
+}
+
+/**
+ * Compute the due date of the occurrence that follows a completed task.
+ * Fixed schedules advance from the due date and never land on or before the
+ * completion day; "after completion" schedules count from the completion date.
+ */
+export function getNextOccurrence(task: Task, completedAt: Date = new Date()): Date | null {
+  const rule = task.recurrence;
+  if (!rule) return null;
+
+  const dueDate = task.dueDate ? new Date(task.dueDate) : null;
+  let next: Date | null;
+
+  if (rule.frequency === 'after-completion' || !dueDate) {
+    next = nextScheduledDate(rule, completedAt, completedAt);
+  } else {
+    const after = isAfter(dueDate, completedAt) ? dueDate : completedAt;
+    next = nextScheduledDate(rule, dueDate, after);
+  }
+
+  if (!next || isPastUntil(rule, next)) return null;
+  return next;
+}
+
+/**
+ * List the projected occurrences of a recurring task after its current due date
+ * that fall within [rangeStart, rangeEnd]. The current due date itself is excluded.
+ * "After completion" schedules cannot be projected and return nothing.
+ */
+export function getProjectedOccurrences(task: Task, rangeStart: Date, rangeEnd: Date): Date[] {
+  const rule = task.recurrence;
+  if (!rule || !task.dueDate || rule.frequency === 'after-completion') return [];
+
+  const anchor = new Date(task.dueDate);
+  const occurrences: Date[] = [];
+  let previous = anchor;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const next = nextScheduledDate(rule, anchor, previous);
+    if (!next || isPastUntil(rule, next) || isAfter(startOfDay(next), startOfDay(rangeEnd))) break;
+    if (!isAfter(startOfDay(rangeStart), startOfDay(next))) {
+      occurrences.push(next);
+    }
+    previous = next;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Human-readable summary of a rule, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  let text: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      text = interval === 1 ? 'Every day' : `Every ${interval} days`;
+      break;
+    case 'weekly': {
+      text = interval === 1 ? 'Every week' : `Every ${interval} weeks`;
+      if (rule.weekdays && rule.weekdays.length > 0) {
+        const days = [...rule.weekdays].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]);
+        text += ` on ${days.join(', ')}`;
+      }
+      break;
+    }
+    case 'monthly':
+      text = interval === 1 ? 'Every month' : `Every ${interval} months`;
+      if (rule.monthWeekday) {
+        const ordinal = WEEK_ORDINALS[rule.monthWeekday.week] ?? `week ${rule.monthWeekday.week}`;
+        text += ` on the ${ordinal} ${WEEKDAY_LABELS[rule.monthWeekday.weekday]}`;
+      } else if (rule.monthDay) {
+        text += ` on day ${rule.monthDay}`;
+      }
+      break;
+    case 'after-completion':
+      text = interval === 1 ? '1 day after completion' : `${interval} days after completion`;
+      break;
+    default:
+      text = 'Repeats';
+  }
+
+  if (rule.until) {
+    text += ` until ${format(new Date(rule.until), 'MMM d, yyyy')}`;
+  }
+
+  return text;
+}
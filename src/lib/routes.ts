@@ -0,0 +1,58 @@
+/**
+ * URL routes for views and entities
+ * Maps app navigation state to paths (relative to the router basename) and back
+ */
+
+import { ViewType } from './types';
+
+export interface RouteState {
+  view?: ViewType;
+  projectId?: string | null;
+  areaId?: string | null;
+  taskId?: string | null;
+}
+
+const VIEW_PATHS: Record<Exclude<ViewType, 'project-detail' | 'area-detail'>, string> = {
+  today: '/today',
+  'this-week': '/week',
+  backlog: '/backlog',
+  ideas: '/ideas',
+  projects: '/projects',
+  board: '/board',
+  areas: '/areas',
+  completed: '/completed',
+  settings: '/settings',
+  trash: '/trash',
+};
+
+/**
+ * Path for the given navigation state. An open task takes precedence so the
+ * edit dialog can be linked to directly.
+ */
+export function getRoutePath({ view, projectId, areaId, taskId }: RouteState): string {
+  if (taskId) return `/tasks/${encodeURIComponent(taskId)}`;
+  if (view === 'project-detail') {
+    return projectId ? `/projects/${encodeURIComponent(projectId)}` : VIEW_PATHS.projects;
+  }
+  if (view === 'area-detail') {
+    return areaId ? `/areas/${encodeURIComponent(areaId)}` : VIEW_PATHS.areas;
+  }
+  return VIEW_PATHS[view || 'today'];
+}
+
+/**
+ * Parse a path into navigation state. Task paths leave `view` unset so the
+ * dialog opens over whatever view is already showing; unknown paths fall back to Today.
+ */
+export function parseRoutePath(pathname: string): RouteState {
+  const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const [section, id] = segments;
+
+  if (section === 'tasks' && id) return { taskId: id };
+  if (section === 'projects' && id) return { view: 'project-detail', projectId: id };
+  if (section === 'areas' && id) return { view: 'area-detail', areaId: id };
+
+  const view = (Object.keys(VIEW_PATHS) as (keyof typeof VIEW_PATHS)[])
+    .find(key => VIEW_PATHS[key] === `/${section || ''}`);
+  return { view: view || 'today' };
+}
@@ -5,6 +5,7 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { Area, Idea, Profile, Project, Tag, Task } from './types';
+import { DEFAULT_FOCUS_SETTINGS } from './focus';
 
 const DEFAULT_AREAS: Omit<Area, 'id'>[] = [
   { name: 'Work & Career', description: 'Professional goals and tasks', color: 'area-work', icon: 'briefcase' },
@@ -226,6 +227,7 @@ export function createDefaultProfile(): Profile {
       defaultView: 'today',
       defaultTaskGrouping: 'project',
       hideCompletedTasks: false,
+      focus: { ...DEFAULT_FOCUS_SETTINGS },
     },
   };
 }
@@ -0,0 +1,121 @@
+/**
+ * Keyboard shortcut registry
+ * Default bindings, per-profile overrides and key sequence matching
+ */
+
+import { ProfileSettings, ShortcutBindings } from './types';
+
+export type ShortcutAction =
+  | 'quick-add'
+  | 'go-today'
+  | 'go-week'
+  | 'go-board'
+  | 'next-task'
+  | 'previous-task'
+  | 'complete-task'
+  | 'edit-task'
+  | 'toggle-today'
+  | 'priority-critical'
+  | 'priority-high'
+  | 'priority-medium'
+  | 'priority-low'
+  | 'show-shortcuts';
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  group: 'General' | 'Navigation' | 'Tasks';
+  defaultKeys: string;
+}
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { action: 'quick-add', label: 'Quick add', group: 'General', defaultKeys: 'q' },
+  { action: 'show-shortcuts', label: 'Show keyboard shortcuts', group: 'General', defaultKeys: '?' },
+  { action: 'go-today', label: 'Go to Today', group: 'Navigation', defaultKeys: 'g t' },
+  { action: 'go-week', label: 'Go to This Week', group: 'Navigation', defaultKeys: 'g w' },
+  { action: 'go-board', label: 'Go to Board', group: 'Navigation', defaultKeys: 'g b' },
+  { action: 'next-task', label: 'Select next task', group: 'Tasks', defaultKeys: 'j' },
+  { action: 'previous-task', label: 'Select previous task', group: 'Tasks', defaultKeys: 'k' },
+  { action: 'complete-task', label: 'Complete selected task', group: 'Tasks', defaultKeys: 'x' },
+  { action: 'edit-task', label: 'Edit selected task', group: 'Tasks', defaultKeys: 'e' },
+  { action: 'toggle-today', label: 'Toggle Today', group: 'Tasks', defaultKeys: 't' },
+  { action: 'priority-critical', label: 'Set priority: critical', group: 'Tasks', defaultKeys: '1' },
+  { action: 'priority-high', label: 'Set priority: high', group: 'Tasks', defaultKeys: '2' },
+  { action: 'priority-medium', label: 'Set priority: medium', group: 'Tasks', defaultKeys: '3' },
+  { action: 'priority-low', label: 'Set priority: low', group: 'Tasks', defaultKeys: '4' },
+];
+
+// How long to wait for the next key of a sequence like "g t"
+export const SEQUENCE_TIMEOUT_MS = 1000;
+
+// Sequences are limited to two keys to keep them memorable
+export const MAX_SEQUENCE_LENGTH = 2;
+
+/**
+ * Effective bindings for a profile: defaults with the user's overrides applied
+ */
+export function getShortcutBindings(settings: ProfileSettings): Record<ShortcutAction, string> {
+  const overrides: ShortcutBindings = settings.shortcuts || {};
+  return SHORTCUT_DEFINITIONS.reduce((bindings, definition) => {
+    bindings[definition.action] = overrides[definition.action] ?? definition.defaultKeys;
+    return bindings;
+  }, {} as Record<ShortcutAction, string>);
+}
+
+/**
+ * Key name for a keydown event, or null for bare modifier presses.
+ * Letters are case-insensitive; symbols like "?" keep their shifted form.
+ */
+export function getEventKey(e: KeyboardEvent): string | null {
+  if (['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return null;
+  if (e.key === ' ') return 'Space';
+  return e.key.length === 1 ? e.key.toLowerCase() : e.key;
+}
+
+/**
+ * Human-readable form of a binding, e.g. "g t" -> ["G", "T"]
+ */
+export function formatShortcutKeys(keys: string): string[] {
+  return keys.split(' ').filter(Boolean).map(key => (key.length === 1 ? key.toUpperCase() : key));
+}
+
+/**
+ * Action whose binding conflicts with `keys`: the same sequence, or one that
+ * is a prefix of the other (which would make the longer one unreachable)
+ */
+export function findShortcutConflict(
+  bindings: Record<ShortcutAction, string>,
+  action: ShortcutAction,
+  keys: string
+): ShortcutAction | null {
+  const conflict = (Object.keys(bindings) as ShortcutAction[]).find(other => {
+    if (other === action || !bindings[other]) return false;
+    const existing = bindings[other];
+    return existing === keys || existing.startsWith(`${keys} `) || keys.startsWith(`${existing} `);
+  });
+  return conflict || null;
+}
+
+/**
+ * Resolve a pressed key sequence against the bindings
+ * - `action` when the sequence matches a binding exactly
+ * - `pending` when it is the start of a longer binding
+ */
+export function matchShortcut(
+  bindings: Record<ShortcutAction, string>,
+  sequence: string[]
+): { action?: ShortcutAction; pending: boolean } {
+  const keys = sequence.join(' ');
+  const entries = Object.entries(bindings) as [ShortcutAction, string][];
+  const exact = entries.find(([, binding]) => binding === keys);
+  if (exact) return { action: exact[0], pending: false };
+  return { pending: entries.some(([, binding]) => binding.startsWith(`${keys} `)) };
+}
+
+/**
+ * Whether keyboard focus is somewhere typing should go to
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
@@ -0,0 +1,264 @@
+/**
+ * Snapshots for the Life PM application
+ * Point-in-time copies of all app data in Supabase: one a day, and one
+ * before each action that replaces data. A snapshot can be restored as a
+ * whole or one profile at a time.
+ */
+
+import { AppData, Profile } from './types';
+import { supabase } from './supabase';
+import { ImportSummary, summarizeAppData } from './importValidation';
+import { migrateAppData } from './migrations';
+
+export type SnapshotReason = 'daily' | 'manual' | 'reset' | 'import' | 'restore';
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  version: string;
+  summary: ImportSummary;
+  sizeBytes: number;
+}
+
+export const SNAPSHOT_RETENTION_DAYS = 30;
+
+// The most recent ones survive retention, so there is always something to go back to
+const MIN_SNAPSHOTS_KEPT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SnapshotRow {
+  id: string;
+  created_at: string;
+  reason: SnapshotReason;
+  version: string;
+  summary: ImportSummary;
+  size_bytes: number;
+}
+
+const rowToSnapshotInfo = (row: SnapshotRow): SnapshotInfo => ({
+  id: row.id,
+  createdAt: row.created_at,
+  reason: row.reason,
+  version: row.version,
+  summary: row.summary,
+  sizeBytes: row.size_bytes,
+});
+
+/**
+ * List a user's snapshots, newest first, without their data
+ */
+export async function listSnapshots(userId: string): Promise<SnapshotInfo[]> {
+  const { data, error } = await supabase
+    .from('user_data_snapshots')
+    .select('id, created_at, reason, version, summary, size_bytes')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ Error loading snapshots:', error);
+    return [];
+  }
+  return (data as SnapshotRow[]).map(rowToSnapshotInfo);
+}
+
+/**
+ * Load the data of one snapshot, upgraded to the current version. Throws
+ * UnsupportedVersionError for snapshots from a newer version of the app.
+ */
+export async function loadSnapshot(userId: string, snapshotId: string): Promise<AppData | null> {
+  const { data, error } = await supabase
+    .from('user_data_snapshots')
+    .select('data')
+    .eq('user_id', userId)
+    .eq('id', snapshotId)
+    .maybeSingle();
+
+  if (error || !data) {
+    console.error('❌ Error loading snapshot:', error);
+    return null;
+  }
+  return migrateAppData((data as { data: AppData }).data);
+}
+
+/**
+ * Delete snapshots past the retention period
+ */
+async function pruneSnapshots(userId: string): Promise<void> {
+  const cutoff = Date.now() - SNAPSHOT_RETENTION_DAYS * DAY_MS;
+  const expiredIds = (await listSnapshots(userId))
+    .slice(MIN_SNAPSHOTS_KEPT)
+    .filter(snapshot => new Date(snapshot.createdAt).getTime() < cutoff)
+    .map(snapshot => snapshot.id);
+  if (expiredIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('user_data_snapshots')
+    .delete()
+    .eq('user_id', userId)
+    .in('id', expiredIds);
+  if (error) console.error('❌ Error pruning snapshots:', error);
+}
+
+/**
+ * Save a snapshot of the given data and prune expired ones
+ */
+export async function createSnapshot(userId: string, data: AppData, reason: SnapshotReason): Promise<boolean> {
+  const { error } = await supabase
+    .from('user_data_snapshots')
+    .insert({
+      user_id: userId,
+      data,
+      version: data.version,
+      reason,
+      summary: summarizeAppData(data),
+      size_bytes: new TextEncoder().encode(JSON.stringify(data)).length,
+    });
+
+  if (error) {
+    console.error('❌ Error saving snapshot:', error);
+    return false;
+  }
+  await pruneSnapshots(userId);
+  return true;
+}
+
+/**
+ * Save the daily snapshot unless the last one is less than a day old
+ */
+export async function ensureDailySnapshot(userId: string, data: AppData): Promise<void> {
+  const { data: latest, error } = await supabase
+    .from('user_data_snapshots')
+    .select('created_at')
+    .eq('user_id', userId)
+    .eq('reason', 'daily')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Error checking daily snapshot:', error);
+    return;
+  }
+  if (latest && Date.now() - new Date((latest as { created_at: string }).created_at).getTime() < DAY_MS) return;
+
+  if (await createSnapshot(userId, data, 'daily')) {
+    console.log('📸 Saved daily snapshot');
+  }
+}
+
+/**
+ * Compare values loaded from anywhere: JSONB doesn't keep key order, and
+ * missing and undefined fields are the same thing
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const recordA = a as Record<string, unknown>;
+  const recordB = b as Record<string, unknown>;
+  const keysA = Object.keys(recordA).filter(key => recordA[key] !== undefined);
+  const keysB = Object.keys(recordB).filter(key => recordB[key] !== undefined);
+  return keysA.length === keysB.length && keysA.every(key => isEqual(recordA[key], recordB[key]));
+}
+
+const COLLECTIONS = ['areas', 'projects', 'tasks', 'ideas', 'tags'] as const;
+
+export type SnapshotCollection = 'profiles' | typeof COLLECTIONS[number];
+
+export interface SnapshotChange {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+export type SnapshotDiff = Record<SnapshotCollection, SnapshotChange>;
+
+/**
+ * The snapshot's version of a profile, reusing the current objects for
+ * everything that is unchanged so only real changes are saved and undone
+ */
+function alignProfile(current: Profile | undefined, snapshot: Profile): Profile {
+  if (!current) return snapshot;
+  if (isEqual(current, snapshot)) return current;
+
+  const aligned: Profile = {
+    ...snapshot,
+    settings: isEqual(current.settings, snapshot.settings) ? current.settings : snapshot.settings,
+  };
+  COLLECTIONS.forEach(collection => {
+    const currentItems = current[collection] as { id: string }[];
+    const currentById = new Map(currentItems.map(item => [item.id, item]));
+    const items = (snapshot[collection] as { id: string }[]).map(item => {
+      const existing = currentById.get(item.id);
+      return existing && isEqual(existing, item) ? existing : item;
+    });
+    const unchanged = items.length === currentItems.length && items.every((item, index) => item === currentItems[index]);
+    (aligned[collection] as { id: string }[]) = unchanged ? currentItems : items;
+  });
+  return aligned;
+}
+
+/**
+ * Current data with a snapshot restored: all of it, or only the profile
+ * with the given ID, which is added back if it was deleted since
+ */
+export function restoreFromSnapshot(current: AppData, snapshot: AppData, profileId?: string): AppData {
+  const currentById = new Map(current.profiles.map(p => [p.id, p]));
+
+  if (profileId) {
+    const restored = snapshot.profiles.find(p => p.id === profileId);
+    if (!restored) return current;
+    const profile = alignProfile(currentById.get(profileId), restored);
+    if (profile === currentById.get(profileId)) return current;
+    return {
+      ...current,
+      profiles: currentById.has(profileId)
+        ? current.profiles.map(p => p.id === profileId ? profile : p)
+        : [...current.profiles, profile],
+    };
+  }
+
+  const profiles = snapshot.profiles.map(p => alignProfile(currentById.get(p.id), p));
+  const unchanged = snapshot.currentProfileId === current.currentProfileId &&
+    profiles.length === current.profiles.length && profiles.every((p, index) => p === current.profiles[index]);
+  return unchanged ? current : { ...current, profiles, currentProfileId: snapshot.currentProfileId };
+}
+
+/**
+ * What restoring a snapshot (or one profile of it) would change in the
+ * current data
+ */
+export function diffSnapshot(current: AppData, snapshot: AppData, profileId?: string): SnapshotDiff {
+  const restored = restoreFromSnapshot(current, snapshot, profileId);
+  const inScope = (p: Profile) => !profileId || p.id === profileId;
+  const before = current.profiles.filter(inScope);
+  const after = restored.profiles.filter(inScope);
+
+  const compare = <T extends { id: string }>(oldItems: T[], newItems: T[]): SnapshotChange => {
+    const oldById = new Map(oldItems.map(item => [item.id, item]));
+    const newIds = new Set(newItems.map(item => item.id));
+    return {
+      added: newItems.filter(item => !oldById.has(item.id)).length,
+      changed: newItems.filter(item => oldById.has(item.id) && oldById.get(item.id) !== item).length,
+      removed: oldItems.filter(item => !newIds.has(item.id)).length,
+    };
+  };
+
+  // Profiles count as changed when their own name or settings differ
+  const profileFields = (p: Profile) => ({ id: p.id, name: p.name, settings: p.settings });
+  const profiles = compare(before, after);
+  const beforeById = new Map(before.map(p => [p.id, p]));
+  profiles.changed = after.filter(p => {
+    const old = beforeById.get(p.id);
+    return old && !isEqual(profileFields(old), profileFields(p));
+  }).length;
+
+  const diff = { profiles } as SnapshotDiff;
+  COLLECTIONS.forEach(collection => {
+    const items = (p: Profile) => p[collection] as { id: string }[];
+    diff[collection] = compare(before.flatMap(items), after.flatMap(items));
+  });
+  return diff;
+}
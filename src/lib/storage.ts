@@ -5,10 +5,29 @@
 
 import { AppData, Profile } from './types';
 import { createDefaultProfile } from './seedData';
+import { Row, RowChanges, TableName } from './supabaseRows';
+import { APP_VERSION, migrateAppData } from './migrations';
 
 const STORAGE_KEY = 'lifePMData';
 const CURRENT_PROFILE_KEY = 'lifePMCurrentProfile';
-const APP_VERSION = '1.0.0';
+const REPLICA_KEY_PREFIX = 'lifePMReplica:';
+const OUTBOX_KEY_PREFIX = 'lifePMOutbox:';
+const SYNC_BASE_KEY_PREFIX = 'lifePMSyncBase:';
+
+/**
+ * A batch of row changes waiting to be written to Supabase
+ */
+export interface OutboxEntry {
+  id: string;
+  createdAt: string;
+  changes: RowChanges;
+}
+
+/**
+ * The last version of each row known to be on the server, with its revision.
+ * Local edits are based on it, so it is the common ancestor when merging.
+ */
+export type SyncBase = Partial<Record<TableName, Record<string, Row>>>;
 
 /**
  * Check if localStorage is available
@@ -167,3 +186,110 @@ export function resetData(): AppData {
   
   return initializeData();
 }
+
+/**
+ * Load the signed-in user's local copy of their Supabase data, upgraded to
+ * the current version. A replica from a newer version isn't used.
+ */
+export function loadReplica(userId: string): AppData | null {
+  try {
+    const data = localStorage.getItem(REPLICA_KEY_PREFIX + userId);
+    return data ? migrateAppData(JSON.parse(data) as AppData) : null;
+  } catch (error) {
+    console.error('Error loading local replica:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the signed-in user's local copy of their Supabase data
+ */
+export function saveReplica(userId: string, data: AppData): boolean {
+  try {
+    localStorage.setItem(REPLICA_KEY_PREFIX + userId, JSON.stringify(data));
+    return true;
+  } catch (error) {
+    console.error('Error saving local replica:', error);
+    return false;
+  }
+}
+
+/**
+ * Load the queue of changes not yet written to Supabase, oldest first
+ */
+export function loadOutbox(userId: string): OutboxEntry[] {
+  try {
+    const entries = localStorage.getItem(OUTBOX_KEY_PREFIX + userId);
+    return entries ? (JSON.parse(entries) as OutboxEntry[]) : [];
+  } catch (error) {
+    console.error('Error loading sync outbox:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace the queue of changes not yet written to Supabase
+ */
+export function saveOutbox(userId: string, entries: OutboxEntry[]): boolean {
+  try {
+    if (entries.length === 0) {
+      localStorage.removeItem(OUTBOX_KEY_PREFIX + userId);
+    } else {
+      localStorage.setItem(OUTBOX_KEY_PREFIX + userId, JSON.stringify(entries));
+    }
+    return true;
+  } catch (error) {
+    console.error('Error saving sync outbox:', error);
+    return false;
+  }
+}
+
+/**
+ * Drop the local replica and any queued changes, e.g. after the server data
+ * was replaced wholesale by an import or reset
+ */
+export function clearReplica(userId: string): void {
+  try {
+    localStorage.removeItem(REPLICA_KEY_PREFIX + userId);
+    localStorage.removeItem(OUTBOX_KEY_PREFIX + userId);
+  } catch (error) {
+    console.error('Error clearing local replica:', error);
+  }
+}
+
+/**
+ * Load the last known server version of each row
+ */
+export function loadSyncBase(userId: string): SyncBase {
+  try {
+    const base = localStorage.getItem(SYNC_BASE_KEY_PREFIX + userId);
+    return base ? (JSON.parse(base) as SyncBase) : {};
+  } catch (error) {
+    console.error('Error loading sync base:', error);
+    return {};
+  }
+}
+
+/**
+ * Save the last known server version of each row
+ */
+export function saveSyncBase(userId: string, base: SyncBase): boolean {
+  try {
+    localStorage.setItem(SYNC_BASE_KEY_PREFIX + userId, JSON.stringify(base));
+    return true;
+  } catch (error) {
+    console.error('Error saving sync base:', error);
+    return false;
+  }
+}
+
+/**
+ * Forget the server versions, e.g. after every row was deleted by a reset
+ */
+export function clearSyncBase(userId: string): void {
+  try {
+    localStorage.removeItem(SYNC_BASE_KEY_PREFIX + userId);
+  } catch (error) {
+    console.error('Error clearing sync base:', error);
+  }
+}
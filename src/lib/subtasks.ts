@@ -0,0 +1,111 @@
+/**
+ * Subtask hierarchy helpers
+ * Builds the parent/child tree from Task.parentTaskId and rolls values up to parents
+ */
+
+import { Task } from './types';
+
+export interface TaskTreeNode {
+  task: Task;
+  depth: number;
+  hasChildren: boolean;
+}
+
+export interface TaskRollup {
+  estimateMinutes: number;
+  timeSpentMinutes: number;
+  completedSubtasks: number;
+  totalSubtasks: number;
+}
+
+/**
+ * Get the direct children of a task
+ */
+export function getChildTasks(parentId: string, tasks: Task[]): Task[] {
+  return tasks.filter(t => t.parentTaskId === parentId);
+}
+
+/**
+ * Get the IDs of every task nested below a task, at any depth
+ */
+export function getDescendantIds(taskId: string, tasks: Task[]): string[] {
+  const ids: string[] = [];
+  const stack = [taskId];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    getChildTasks(id, tasks).forEach(child => {
+      if (!ids.includes(child.id)) {
+        ids.push(child.id);
+        stack.push(child.id);
+      }
+    });
+  }
+
+  return ids;
+}
+
+/**
+ * Check whether `ancestorId` is the task itself or one of its ancestors
+ */
+export function isSelfOrAncestor(task: Task, ancestorId: string, tasks: Task[]): boolean {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const visited = new Set<string>();
+  let current: Task | undefined = task;
+
+  while (current && !visited.has(current.id)) {
+    if (current.id === ancestorId) return true;
+    visited.add(current.id);
+    current = current.parentTaskId ? byId.get(current.parentTaskId) : undefined;
+  }
+
+  return false;
+}
+
+/**
+ * Flatten a list of tasks into depth-first tree order, keeping the list's own
+ * ordering among siblings. A task whose parent is not in the list is shown as
+ * a root, so filtered views never hide a matching subtask.
+ */
+export function buildTaskTree(tasks: Task[]): TaskTreeNode[] {
+  const ids = new Set(tasks.map(t => t.id));
+  const childrenOf = new Map<string, Task[]>();
+  const roots: Task[] = [];
+
+  tasks.forEach(task => {
+    if (task.parentTaskId && ids.has(task.parentTaskId) && task.parentTaskId !== task.id) {
+      childrenOf.set(task.parentTaskId, [...(childrenOf.get(task.parentTaskId) || []), task]);
+    } else {
+      roots.push(task);
+    }
+  });
+
+  const nodes: TaskTreeNode[] = [];
+  const visited = new Set<string>();
+  const visit = (task: Task, depth: number) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+    const children = childrenOf.get(task.id) || [];
+    nodes.push({ task, depth, hasChildren: children.length > 0 });
+    children.forEach(child => visit(child, depth + 1));
+  };
+  roots.forEach(task => visit(task, 0));
+
+  return nodes;
+}
+
+/**
+ * Roll estimate, time spent and completion up from all descendants of a task.
+ * Estimate and time include the task's own values.
+ */
+export function getTaskRollup(task: Task, tasks: Task[]): TaskRollup {
+  const descendantIds = getDescendantIds(task.id, tasks);
+  const descendants = tasks.filter(t => descendantIds.includes(t.id));
+
+  return {
+    estimateMinutes: [task, ...descendants].reduce((sum, t) => sum + (t.estimateMinutes || 0), 0),
+    timeSpentMinutes: [task, ...descendants].reduce((sum, t) => sum + (t.timeSpentMinutes || 0), 0),
+    completedSubtasks: descendants.filter(t => t.status === 'done').length,
+    totalSubtasks: descendants.length,
+  };
+}
@@ -0,0 +1,819 @@
+/**
+ * Row mapping for the normalized Supabase schema
+ * Converts profiles and their entities to per-table rows and back, and works
+ * out which rows changed between two versions of the app data
+ */
+
+import { AppData, Area, ChecklistItem, Idea, Profile, Project, Tag, Task } from './types';
+
+export type TableName =
+  | 'profiles'
+  | 'areas'
+  | 'projects'
+  | 'tasks'
+  | 'ideas'
+  | 'tags'
+  | 'checklist_items';
+
+// Parents before children so foreign keys resolve on insert
+export const TABLES_IN_WRITE_ORDER: TableName[] = [
+  'profiles',
+  'areas',
+  'tags',
+  'projects',
+  'tasks',
+  'ideas',
+  'checklist_items',
+];
+
+interface ProfileRow {
+  user_id: string;
+  id: string;
+  name: string;
+  settings: Profile['settings'];
+  created_at: string;
+  position: number;
+  revision?: number;
+}
+
+interface EntityRow {
+  user_id: string;
+  profile_id: string;
+  id: string;
+  position: number;
+  // Set by the writer, see applyRowChanges
+  revision?: number;
+}
+
+interface TrashableRow extends EntityRow {
+  deleted_at: string | null;
+  deleted_with: string | null;
+}
+
+interface AreaRow extends TrashableRow {
+  name: string;
+  description: string | null;
+  color: string | null;
+  icon: string | null;
+}
+
+interface TagRow extends TrashableRow {
+  name: string;
+  color: string | null;
+}
+
+interface ProjectRow extends TrashableRow {
+  title: string;
+  description: string | null;
+  area_id: string;
+  status: Project['status'];
+  priority: Project['priority'];
+  tags: string[];
+  start_date: string | null;
+  due_date: string | null;
+  goal_type: Project['goalType'] | null;
+  created_at: string;
+  updated_at: string;
+  archived: boolean;
+  is_focus: boolean;
+}
+
+interface TaskRow extends TrashableRow {
+  project_id: string | null;
+  parent_task_id: string | null;
+  title: string;
+  description: string | null;
+  status: Task['status'];
+  priority: Task['priority'];
+  tags: string[];
+  area_id: string | null;
+  estimate_minutes: number | null;
+  time_spent_minutes: number | null;
+  time_entries: Task['timeEntries'] | null;
+  due_date: string | null;
+  is_today: boolean;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  sort_order: number | null;
+  recurrence: Task['recurrence'] | null;
+  blocked_by: string[] | null;
+  next_occurrence_id: string | null;
+}
+
+interface IdeaRow extends TrashableRow {
+  title: string;
+  notes: string | null;
+  area_id: string | null;
+  tags: string[];
+  created_at: string;
+  archived: boolean;
+}
+
+interface ChecklistItemRow extends EntityRow {
+  task_id: string;
+  content: string;
+  done: boolean;
+}
+
+export type Row = ProfileRow | EntityRow;
+
+/**
+ * One row and the table it belongs to
+ */
+export interface TableRow {
+  table: TableName;
+  row: Row;
+}
+
+export interface UserStateRow {
+  user_id: string;
+  current_profile_id: string;
+  version: string;
+  migrated_at?: string | null;
+}
+
+export interface RowChanges {
+  upserts: Partial<Record<TableName, Row[]>>;
+  deletes: Partial<Record<TableName, string[]>>;
+  userState?: UserStateRow;
+}
+
+/**
+ * Rows loaded from every table for one user, ordered by position
+ */
+export type LoadedRows = Record<TableName, Row[]>;
+
+// Supabase returns null for empty columns; the app model uses missing fields
+const opt = <T>(value: T | null | undefined): T | undefined => (value === null ? undefined : value);
+const toIso = (value: string | null | undefined): string | undefined => (value ? new Date(value).toISOString() : undefined);
+
+// Positions are sparse: rows are written this far apart, so an insert or a
+// move usually fits between its neighbours without renumbering the table
+const POSITION_STEP = 1024;
+
+// The stored position of each entity, keyed by the entity object. Entities
+// are immutable, so an object keeps the position its row had when it was
+// read or written.
+const rowPositions = new WeakMap<object, number>();
+
+function withPosition<T extends object>(item: T, position: number | undefined): T {
+  if (position !== undefined) rowPositions.set(item, position);
+  return item;
+}
+
+function profileToRow(userId: string, profile: Profile, position: number): ProfileRow {
+  return {
+    user_id: userId,
+    id: profile.id,
+    name: profile.name,
+    settings: profile.settings,
+    created_at: profile.createdAt,
+    position,
+  };
+}
+
+function areaToRow(userId: string, profileId: string, area: Area, position: number): AreaRow {
+  return {
+    user_id: userId,
+    profile_id: profileId,
+    id: area.id,
+    name: area.name,
+    description: area.description ?? null,
+    color: area.color ?? null,
+    icon: area.icon ?? null,
+    deleted_at: area.deletedAt ?? null,
+    deleted_with: area.deletedWith ?? null,
+    position,
+  };
+}
+
+function tagToRow(userId: string, profileId: string, tag: Tag, position: number): TagRow {
+  return {
+    user_id: userId,
+    profile_id: profileId,
+    id: tag.id,
+    name: tag.name,
+    color: tag.color ?? null,
+    deleted_at: tag.deletedAt ?? null,
+    deleted_with: tag.deletedWith ?? null,
+    position,
+  };
+}
+
+function projectToRow(userId: string, profileId: string, project: Project, position: number): ProjectRow {
+  return {
+    user_id: userId,
+    profile_id: profileId,
+    id: project.id,
+    title: project.title,
+    description: project.description ?? null,
+    area_id: project.areaId,
+    status: project.status,
+    priority: project.priority,
+    tags: project.tags,
+    start_date: project.startDate ?? null,
+    due_date: project.dueDate ?? null,
+    goal_type: project.goalType ?? null,
+    created_at: project.createdAt,
+    updated_at: project.updatedAt,
+    archived: project.archived ?? false,
+    is_focus: project.isFocus ?? false,
+    deleted_at: project.deletedAt ?? null,
+    deleted_with: project.deletedWith ?? null,
+    position,
+  };
+}
+
+function taskToRow(userId: string, profileId: string, task: Task, position: number): TaskRow {
+  return {
+    user_id: userId,
+    profile_id: profileId,
+    id: task.id,
+    project_id: task.projectId ?? null,
+    parent_task_id: task.parentTaskId ?? null,
+    title: task.title,
+    description: task.description ?? null,
+    status: task.status,
+    priority: task.priority,
+    tags: task.tags,
+    area_id: task.areaId ?? null,
+    estimate_minutes: task.estimateMinutes ?? null,
+    time_spent_minutes: task.timeSpentMinutes ?? null,
+    time_entries: task.timeEntries ?? null,
+    due_date: task.dueDate ?? null,
+    is_today: task.isToday ?? false,
+    created_at: task.createdAt,
+    updated_at: task.updatedAt,
+    completed_at: task.completedAt ?? null,
+    sort_order: task.order ?? null,
+    recurrence: task.recurrence ?? null,
+    blocked_by: task.blockedBy ?? null,
+    next_occurrence_id: task.nextOccurrenceId ?? null,
+    deleted_at: task.deletedAt ?? null,
+    deleted_with: task.deletedWith ?? null,
+    position,
+  };
+}
+
+function ideaToRow(userId: string, profileId: string, idea: Idea, position: number): IdeaRow {
+  return {
+    user_id: userId,
+    profile_id: profileId,
+    id: idea.id,
+    title: idea.title,
+    notes: idea.notes ?? null,
+    area_id: idea.areaId ?? null,
+    tags: idea.tags,
+    created_at: idea.createdAt,
+    archived: idea.archived ?? false,
+    deleted_at: idea.deletedAt ?? null,
+    deleted_with: idea.deletedWith ?? null,
+    position,
+  };
+}
+
+function checklistItemToRow(
+  userId: string,
+  profileId: string,
+  taskId: string,
+  item: ChecklistItem,
+  position: number
+): ChecklistItemRow {
+  return {
+    user_id: userId,
+    profile_id: profileId,
+    task_id: taskId,
+    id: item.id,
+    content: item.content,
+    done: item.done,
+    position,
+  };
+}
+
+function rowToArea(row: AreaRow): Area {
+  return {
+    id: row.id,
+    name: row.name,
+    description: opt(row.description),
+    color: opt(row.color),
+    icon: opt(row.icon),
+    deletedAt: toIso(row.deleted_at),
+    deletedWith: opt(row.deleted_with),
+  };
+}
+
+function rowToTag(row: TagRow): Tag {
+  return {
+    id: row.id,
+    name: row.name,
+    color: opt(row.color),
+    deletedAt: toIso(row.deleted_at),
+    deletedWith: opt(row.deleted_with),
+  };
+}
+
+function rowToProject(row: ProjectRow): Project {
+  return {
+    id: row.id,
+    title: row.title,
+    description: opt(row.description),
+    areaId: row.area_id,
+    status: row.status,
+    priority: row.priority,
+    tags: row.tags || [],
+    startDate: toIso(row.start_date),
+    dueDate: toIso(row.due_date),
+    goalType: opt(row.goal_type),
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+    archived: row.archived || undefined,
+    isFocus: row.is_focus || undefined,
+    deletedAt: toIso(row.deleted_at),
+    deletedWith: opt(row.deleted_with),
+  };
+}
+
+function rowToTask(row: TaskRow, checklistItems: ChecklistItem[]): Task {
+  return {
+    id: row.id,
+    projectId: opt(row.project_id),
+    parentTaskId: opt(row.parent_task_id),
+    title: row.title,
+    description: opt(row.description),
+    status: row.status,
+    priority: row.priority,
+    tags: row.tags || [],
+    areaId: opt(row.area_id),
+    estimateMinutes: opt(row.estimate_minutes),
+    timeSpentMinutes: opt(row.time_spent_minutes),
+    timeEntries: opt(row.time_entries),
+    dueDate: toIso(row.due_date),
+    isToday: row.is_today || undefined,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+    completedAt: toIso(row.completed_at),
+    checklistItems,
+    order: opt(row.sort_order),
+    recurrence: opt(row.recurrence),
+    blockedBy: opt(row.blocked_by),
+    nextOccurrenceId: opt(row.next_occurrence_id),
+    deletedAt: toIso(row.deleted_at),
+    deletedWith: opt(row.deleted_with),
+  };
+}
+
+function rowToIdea(row: IdeaRow): Idea {
+  return {
+    id: row.id,
+    title: row.title,
+    notes: opt(row.notes),
+    areaId: opt(row.area_id),
+    tags: row.tags || [],
+    createdAt: toIso(row.created_at),
+    archived: row.archived || undefined,
+    deletedAt: toIso(row.deleted_at),
+    deletedWith: opt(row.deleted_with),
+  };
+}
+
+function rowToProfile(row: ProfileRow): Profile {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: toIso(row.created_at),
+    settings: row.settings,
+    areas: [],
+    projects: [],
+    tasks: [],
+    ideas: [],
+    tags: [],
+  };
+}
+
+function rowToChecklistItem(row: ChecklistItemRow): ChecklistItem {
+  return { id: row.id, content: row.content, done: row.done };
+}
+
+/**
+ * Rebuild the app data model from table rows
+ */
+export function rowsToAppData(rows: LoadedRows, state: UserStateRow, fallbackVersion: string): AppData {
+  const byProfile = <T extends EntityRow>(table: TableName, profileId: string) =>
+    (rows[table] as T[]).filter(row => row.profile_id === profileId);
+
+  const checklistByTask = new Map<string, ChecklistItem[]>();
+  (rows.checklist_items as ChecklistItemRow[]).forEach(row => {
+    const items = checklistByTask.get(row.task_id) || [];
+    items.push(withPosition(rowToChecklistItem(row), row.position));
+    checklistByTask.set(row.task_id, items);
+  });
+
+  const profiles: Profile[] = (rows.profiles as ProfileRow[]).map(row => ({
+    ...rowToProfile(row),
+    areas: byProfile<AreaRow>('areas', row.id).map(area => withPosition(rowToArea(area), area.position)),
+    projects: byProfile<ProjectRow>('projects', row.id).map(project => withPosition(rowToProject(project), project.position)),
+    tasks: byProfile<TaskRow>('tasks', row.id).map(task =>
+      withPosition(rowToTask(task, checklistByTask.get(task.id) || []), task.position)
+    ),
+    ideas: byProfile<IdeaRow>('ideas', row.id).map(idea => withPosition(rowToIdea(idea), idea.position)),
+    tags: byProfile<TagRow>('tags', row.id).map(tag => withPosition(rowToTag(tag), tag.position)),
+  }));
+
+  return {
+    profiles,
+    currentProfileId: state.current_profile_id,
+    version: state.version || fallbackVersion,
+  };
+}
+
+/**
+ * Indexes of the longest run of known positions that is already in
+ * ascending order; those items can keep their stored position
+ */
+function inOrderIndexes(positions: (number | undefined)[]): Set<number> {
+  // Patience sorting: tails[k] ends the best run of length k + 1
+  const tails: number[] = [];
+  const previousInRun: number[] = [];
+  positions.forEach((position, index) => {
+    if (position === undefined) return;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (positions[tails[mid]] < position) low = mid + 1;
+      else high = mid;
+    }
+    previousInRun[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const kept = new Set<number>();
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index >= 0; index = previousInRun[index]) {
+    kept.add(index);
+  }
+  return kept;
+}
+
+/**
+ * Positions for the next version of a list. Items still in the same relative
+ * order keep their stored position; new and moved items are spread between
+ * their neighbours. The whole list is renumbered only when there's no room.
+ */
+function assignPositions(stored: (number | undefined)[]): number[] {
+  const kept = inOrderIndexes(stored);
+  const positions: number[] = [];
+  let start = 0;
+
+  for (let index = 0; index <= stored.length; index++) {
+    if (index < stored.length && !kept.has(index)) continue;
+    const count = index - start;
+    const low = start > 0 ? positions[start - 1] : undefined;
+    const high = index < stored.length ? stored[index] : undefined;
+    const step = low === undefined || high === undefined ? POSITION_STEP : Math.floor((high - low) / (count + 1));
+    if (count > 0 && step < 1) return stored.map((_, i) => i * POSITION_STEP);
+
+    for (let offset = 0; offset < count; offset++) {
+      if (low !== undefined) positions[start + offset] = low + step * (offset + 1);
+      else if (high !== undefined) positions[start + offset] = high - step * (count - offset);
+      else positions[start + offset] = step * offset;
+    }
+    if (index < stored.length) positions[index] = high;
+    start = index + 1;
+  }
+  return positions;
+}
+
+/**
+ * Add upserts for items that are new, changed or moved, and deletes for items
+ * that are gone. Unchanged items keep the same object reference between
+ * versions, so reference equality is enough to skip them. Removing an item
+ * leaves a gap in the positions rather than rewriting every row after it.
+ */
+function diffCollection<T extends { id: string }>(
+  changes: RowChanges,
+  table: TableName,
+  previous: T[] | undefined,
+  next: T[],
+  toRow: (item: T, position: number) => EntityRow
+) {
+  const previousById = new Map((previous || []).map(item => [item.id, item]));
+  const stored = next.map(item => {
+    const old = previousById.get(item.id);
+    return old ? rowPositions.get(old) : undefined;
+  });
+  const positions = assignPositions(stored);
+
+  const upserts = next
+    .map((item, index) => {
+      const old = previousById.get(item.id);
+      withPosition(item, positions[index]);
+      return !old || old !== item || stored[index] !== positions[index] ? toRow(item, positions[index]) : null;
+    })
+    .filter(Boolean);
+
+  const nextIds = new Set(next.map(item => item.id));
+  const deletes = (previous || []).filter(item => !nextIds.has(item.id)).map(item => item.id);
+
+  if (upserts.length > 0) changes.upserts[table] = [...(changes.upserts[table] || []), ...upserts];
+  if (deletes.length > 0) changes.deletes[table] = [...(changes.deletes[table] || []), ...deletes];
+}
+
+/**
+ * Rows to write so the database goes from `previous` to `next`.
+ * With no previous data every row is written.
+ */
+export function diffAppData(userId: string, previous: AppData | null, next: AppData): RowChanges {
+  const changes: RowChanges = { upserts: {}, deletes: {} };
+  const previousProfiles = new Map((previous?.profiles || []).map((profile, index) => [profile.id, { profile, index }]));
+
+  next.profiles.forEach((profile, index) => {
+    withPosition(profile, index);
+    const old = previousProfiles.get(profile.id);
+    const oldProfile = old?.profile;
+
+    if (
+      !old ||
+      old.index !== index ||
+      oldProfile.name !== profile.name ||
+      oldProfile.settings !== profile.settings ||
+      oldProfile.createdAt !== profile.createdAt
+    ) {
+      changes.upserts.profiles = [...(changes.upserts.profiles || []), profileToRow(userId, profile, index)];
+    }
+
+    // Entity lists are only rebuilt when something in them changed
+    if (oldProfile === profile) return;
+
+    const pid = profile.id;
+    diffCollection(changes, 'areas', oldProfile?.areas, profile.areas, (a, i) => areaToRow(userId, pid, a, i));
+    diffCollection(changes, 'tags', oldProfile?.tags, profile.tags, (t, i) => tagToRow(userId, pid, t, i));
+    diffCollection(changes, 'projects', oldProfile?.projects, profile.projects, (p, i) => projectToRow(userId, pid, p, i));
+    diffCollection(changes, 'tasks', oldProfile?.tasks, profile.tasks, (t, i) => taskToRow(userId, pid, t, i));
+    diffCollection(changes, 'ideas', oldProfile?.ideas, profile.ideas, (idea, i) => ideaToRow(userId, pid, idea, i));
+
+    // Checklist items of deleted tasks go with them via the foreign key
+    const oldTasks = new Map((oldProfile?.tasks || []).map(task => [task.id, task]));
+    profile.tasks.forEach(task => {
+      const oldTask = oldTasks.get(task.id);
+      if (oldTask && oldTask.checklistItems === task.checklistItems) return;
+      diffCollection(changes, 'checklist_items', oldTask?.checklistItems, task.checklistItems, (item, i) =>
+        checklistItemToRow(userId, pid, task.id, item, i)
+      );
+    });
+  });
+
+  // Deleting a profile cascades to all of its entities
+  const nextProfileIds = new Set(next.profiles.map(p => p.id));
+  const removedProfiles = (previous?.profiles || []).filter(p => !nextProfileIds.has(p.id)).map(p => p.id);
+  if (removedProfiles.length > 0) changes.deletes.profiles = removedProfiles;
+
+  if (!previous || previous.currentProfileId !== next.currentProfileId || previous.version !== next.version) {
+    changes.userState = {
+      user_id: userId,
+      current_profile_id: next.currentProfileId,
+      version: next.version,
+    };
+  }
+
+  return changes;
+}
+
+/**
+ * Whether a diff has anything to write
+ */
+export function hasRowChanges(changes: RowChanges): boolean {
+  return (
+    !!changes.userState ||
+    Object.values(changes.upserts).some(rows => rows.length > 0) ||
+    Object.values(changes.deletes).some(ids => ids.length > 0)
+  );
+}
+
+/**
+ * Drop the rows that `omit` touches (upserted or deleted) from a change set
+ */
+export function omitRowChanges(changes: RowChanges, omit: RowChanges): RowChanges {
+  const result: RowChanges = { upserts: {}, deletes: {}, userState: changes.userState };
+  TABLES_IN_WRITE_ORDER.forEach(table => {
+    const omitted = new Set([...(omit.upserts[table] || []).map(row => row.id), ...(omit.deletes[table] || [])]);
+    const upserts = (changes.upserts[table] || []).filter(row => !omitted.has(row.id));
+    const deletes = (changes.deletes[table] || []).filter(id => !omitted.has(id));
+    if (upserts.length > 0) result.upserts[table] = upserts;
+    if (deletes.length > 0) result.deletes[table] = deletes;
+  });
+  return result;
+}
+
+/**
+ * Combine queued change sets into one, oldest first. Later writes to the same
+ * row win, and a delete cancels earlier upserts of that row (and vice versa).
+ */
+export function mergeRowChanges(changeSets: RowChanges[]): RowChanges {
+  const ops = new Map<TableName, Map<string, Row | null>>();
+  let userState: UserStateRow | undefined;
+
+  changeSets.forEach(changes => {
+    TABLES_IN_WRITE_ORDER.forEach(table => {
+      const tableOps = ops.get(table) || new Map<string, Row | null>();
+      (changes.upserts[table] || []).forEach(row => tableOps.set(row.id, row));
+      (changes.deletes[table] || []).forEach(id => tableOps.set(id, null));
+      ops.set(table, tableOps);
+    });
+    if (changes.userState) userState = { ...userState, ...changes.userState };
+  });
+
+  // Rows whose parent was deleted later on would fail their foreign key; the
+  // database removes any existing ones through the cascade anyway
+  const deletedIds = (table: TableName) =>
+    new Set(Array.from(ops.get(table)?.entries() || []).filter(([, row]) => row === null).map(([id]) => id));
+  const deletedProfiles = deletedIds('profiles');
+  const deletedTasks = deletedIds('tasks');
+  const hasDeletedParent = (row: Row) =>
+    ('profile_id' in row && deletedProfiles.has(row.profile_id)) ||
+    ('task_id' in row && deletedTasks.has((row as ChecklistItemRow).task_id));
+
+  const merged: RowChanges = { upserts: {}, deletes: {}, userState };
+  ops.forEach((tableOps, table) => {
+    const upserts = Array.from(tableOps.values()).filter(row => row && !hasDeletedParent(row));
+    const deletes = Array.from(tableOps.entries()).filter(([, row]) => row === null).map(([id]) => id);
+    if (upserts.length > 0) merged.upserts[table] = upserts;
+    if (deletes.length > 0) merged.deletes[table] = deletes;
+  });
+  return merged;
+}
+
+/**
+ * Put a row read from Supabase into the same shape the app writes, so the two
+ * can be compared field by field (timestamps, nulls and defaults differ)
+ */
+export function normalizeRow(table: TableName, row: Row): Row {
+  const userId = row.user_id;
+  const profileId = (row as EntityRow).profile_id;
+  const normalized = (() => {
+    switch (table) {
+      case 'profiles':
+        return profileToRow(userId, rowToProfile(row as ProfileRow), row.position);
+      case 'areas':
+        return areaToRow(userId, profileId, rowToArea(row as AreaRow), row.position);
+      case 'tags':
+        return tagToRow(userId, profileId, rowToTag(row as TagRow), row.position);
+      case 'projects':
+        return projectToRow(userId, profileId, rowToProject(row as ProjectRow), row.position);
+      case 'tasks':
+        return taskToRow(userId, profileId, rowToTask(row as TaskRow, []), row.position);
+      case 'ideas':
+        return ideaToRow(userId, profileId, rowToIdea(row as IdeaRow), row.position);
+      case 'checklist_items': {
+        const item = row as ChecklistItemRow;
+        return checklistItemToRow(userId, profileId, item.task_id, rowToChecklistItem(item), row.position);
+      }
+    }
+  })();
+  return { ...normalized, revision: row.revision };
+}
+
+/**
+ * Name to show for a row, e.g. in the conflict dialog
+ */
+export function getRowLabel(table: TableName, row: Row): string {
+  if (table === 'checklist_items') return (row as ChecklistItemRow).content;
+  return (row as ProjectRow).title ?? (row as AreaRow).name ?? row.id;
+}
+
+/**
+ * Replace the item with the given id, or insert it before the first item
+ * with a higher position when `insert` is set and it isn't there yet. Without
+ * a position the item keeps the one it had.
+ */
+function upsertItem<T extends { id: string }>(
+  items: T[],
+  id: string,
+  update: (item: T | undefined) => T,
+  position: number | undefined,
+  insert: boolean
+): T[] {
+  if (items.some(item => item.id === id)) {
+    return items.map(item => (item.id === id ? withPosition(update(item), position ?? rowPositions.get(item)) : item));
+  }
+  if (!insert) return items;
+  const next = [...items];
+  const before = items.findIndex(item => rowPositions.get(item) > position);
+  next.splice(before === -1 ? next.length : before, 0, withPosition(update(undefined), position));
+  return next;
+}
+
+function applyRows(data: AppData, rows: TableRow[], insert: boolean): AppData {
+  let profiles = data.profiles;
+
+  rows.forEach(({ table, row }) => {
+    if (table === 'profiles') {
+      const { name, createdAt, settings } = rowToProfile(row as ProfileRow);
+      profiles = upsertItem(
+        profiles,
+        row.id,
+        profile => (profile ? { ...profile, name, createdAt, settings } : rowToProfile(row as ProfileRow)),
+        row.position,
+        insert
+      );
+      return;
+    }
+
+    const { profile_id: profileId, position } = row as EntityRow;
+    profiles = profiles.map(profile => {
+      if (profile.id !== profileId) return profile;
+      switch (table) {
+        case 'areas':
+          return { ...profile, areas: upsertItem(profile.areas, row.id, () => rowToArea(row as AreaRow), position, insert) };
+        case 'tags':
+          return { ...profile, tags: upsertItem(profile.tags, row.id, () => rowToTag(row as TagRow), position, insert) };
+        case 'projects':
+          return {
+            ...profile,
+            projects: upsertItem(profile.projects, row.id, () => rowToProject(row as ProjectRow), position, insert),
+          };
+        case 'tasks':
+          return {
+            ...profile,
+            tasks: upsertItem(
+              profile.tasks,
+              row.id,
+              task => rowToTask(row as TaskRow, task?.checklistItems || []),
+              position,
+              insert
+            ),
+          };
+        case 'ideas':
+          return { ...profile, ideas: upsertItem(profile.ideas, row.id, () => rowToIdea(row as IdeaRow), position, insert) };
+        case 'checklist_items': {
+          const item = row as ChecklistItemRow;
+          return {
+            ...profile,
+            tasks: upsertItem(
+              profile.tasks,
+              item.task_id,
+              task => ({
+                ...task,
+                checklistItems: upsertItem(task.checklistItems, item.id, () => rowToChecklistItem(item), position, insert),
+              }),
+              undefined,
+              false
+            ),
+          };
+        }
+        default:
+          return profile;
+      }
+    });
+  });
+
+  return profiles === data.profiles ? data : { ...data, profiles };
+}
+
+/**
+ * Replace entities with newer versions of their rows, e.g. after merging with
+ * changes from another device. Rows of entities that no longer exist locally
+ * are ignored; everything else keeps its object identity.
+ */
+export function patchAppData(data: AppData, rows: TableRow[]): AppData {
+  return applyRows(data, rows, false);
+}
+
+/**
+ * Apply row changes made elsewhere (another device or tab) to the app data:
+ * new rows are inserted at their position, changed rows replace their entity
+ * and deleted rows are removed along with their children
+ */
+export function applyRowChangesToAppData(data: AppData, changes: RowChanges): AppData {
+  const rows = TABLES_IN_WRITE_ORDER.flatMap(table => (changes.upserts[table] || []).map(row => ({ table, row })));
+  const next = applyRows(data, rows, true);
+
+  const deleted = Object.fromEntries(
+    TABLES_IN_WRITE_ORDER.map(table => [table, new Set(changes.deletes[table] || [])])
+  ) as Record<TableName, Set<string>>;
+  if (TABLES_IN_WRITE_ORDER.every(table => deleted[table].size === 0)) return next;
+
+  const without = <T extends { id: string }>(items: T[], ids: Set<string>) =>
+    items.some(item => ids.has(item.id)) ? items.filter(item => !ids.has(item.id)) : items;
+
+  const profiles = without(next.profiles, deleted.profiles).map(profile => {
+    const tasks = without(profile.tasks, deleted.tasks).map(task => {
+      const checklistItems = without(task.checklistItems, deleted.checklist_items);
+      return checklistItems === task.checklistItems ? task : { ...task, checklistItems };
+    });
+    const patched = {
+      ...profile,
+      areas: without(profile.areas, deleted.areas),
+      tags: without(profile.tags, deleted.tags),
+      projects: without(profile.projects, deleted.projects),
+      ideas: without(profile.ideas, deleted.ideas),
+      tasks: tasks.length === profile.tasks.length && tasks.every((task, i) => task === profile.tasks[i]) ? profile.tasks : tasks,
+    };
+    const changed = (['areas', 'tags', 'projects', 'ideas', 'tasks'] as const).some(key => patched[key] !== profile[key]);
+    return changed ? patched : profile;
+  });
+
+  // Deletes of rows that aren't here leave the data as it was
+  const unchanged = profiles.length === next.profiles.length && profiles.every((profile, i) => profile === next.profiles[i]);
+  return unchanged ? next : { ...next, profiles };
+}
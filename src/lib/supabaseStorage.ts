@@ -1,13 +1,281 @@
 /**
  * Supabase storage layer for the Life PM application
- * Replaces localStorage with cloud storage
+ * Replaces localStorage with cloud storage. Each entity type has its own table
+ * (see setup-database.sql) and saves write only the rows that changed.
  */
 
 import { AppData, Profile } from './types';
 import { createDefaultProfile } from './seedData';
 import { supabase } from './supabase';
+import { SyncBase, clearReplica, clearSyncBase, loadOutbox, loadSyncBase, saveSyncBase } from './storage';
+import {
+  LoadedRows,
+  Row,
+  RowChanges,
+  TABLES_IN_WRITE_ORDER,
+  TableName,
+  TableRow,
+  UserStateRow,
+  diffAppData,
+  hasRowChanges,
+  mergeRowChanges,
+  normalizeRow,
+  omitRowChanges,
+  rowsToAppData,
+} from './supabaseRows';
+import { SyncConflict, createConflict, mergeRow } from './syncMerge';
+import { APP_VERSION, INITIAL_VERSION, UnsupportedVersionError, migrateAppData } from './migrations';
+import { ImportSummary, checkImport } from './importValidation';
+import { MergeOptions, mergeAppData } from './importMerge';
+import { createSnapshot } from './snapshots';
+
+const PAGE_SIZE = 1000;
+const WRITE_BATCH_SIZE = 500;
+// Rounds of merge-and-retry before a save gives up until the next flush
+const MAX_MERGE_ROUNDS = 3;
 
-const APP_VERSION = '1.0.0';
+/**
+ * Outcome of writing row changes. `merged` rows combine local edits with
+ * newer server edits and should replace the local entities; `conflicts` need
+ * the user to pick a side.
+ */
+export interface ApplyRowChangesResult {
+  success: boolean;
+  merged: TableRow[];
+  conflicts: SyncConflict[];
+  error?: string;
+}
+
+/**
+ * Load every row of a table for the user, paging past the API row limit
+ */
+async function loadTableRows(table: TableName, userId: string): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .order('position', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data as Row[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+class LegacyMigrationError extends Error {
+  constructor() {
+    super('Failed to migrate existing data to per-entity tables');
+    this.name = 'LegacyMigrationError';
+  }
+}
+
+/**
+ * Read the pre-normalization JSONB blob, if the user still has one
+ */
+async function loadLegacyData(userId: string): Promise<AppData | null> {
+  const { data, error } = await supabase
+    .from('user_data')
+    .select('data')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading legacy data from Supabase:', error);
+    return null;
+  }
+
+  const legacy = data?.data as AppData | undefined;
+  return legacy?.profiles?.length ? legacy : null;
+}
+
+/**
+ * One-time migration: explode the legacy blob into per-entity rows.
+ * The blob is left in place as a backup; `migrated_at` stops it being read again.
+ */
+async function migrateLegacyData(userId: string, legacy: AppData): Promise<boolean> {
+  console.log('📦 Migrating legacy data to per-entity tables');
+  const changes = diffAppData(userId, null, migrateAppData(legacy));
+  changes.userState = { ...changes.userState, migrated_at: new Date().toISOString() };
+  return (await applyRowChanges(userId, changes)).success;
+}
+
+/**
+ * Write a set of row changes: upserts parent tables first, then deletes
+ * children first, then the user state row. Each upsert carries the next
+ * revision after the base row; the database skips rows whose revision moved
+ * on since, and those are returned as stale.
+ */
+async function writeRowChanges(userId: string, changes: RowChanges, base: SyncBase): Promise<TableRow[]> {
+  const stale: TableRow[] = [];
+
+  for (const table of TABLES_IN_WRITE_ORDER) {
+    const rows = (changes.upserts[table] || []).map(row => ({
+      ...row,
+      revision: (base[table]?.[row.id]?.revision ?? 0) + 1,
+    }));
+    for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+      const batch = rows.slice(i, i + WRITE_BATCH_SIZE);
+      const { data, error } = await supabase
+        .from(table)
+        .upsert(batch, { onConflict: 'user_id,id' })
+        .select('id');
+      if (error) throw error;
+
+      const written = new Set((data || []).map(row => row.id as string));
+      batch.forEach(row => {
+        if (written.has(row.id)) {
+          base[table] = { ...base[table], [row.id]: row };
+        } else {
+          stale.push({ table, row });
+        }
+      });
+    }
+  }
+
+  for (const table of [...TABLES_IN_WRITE_ORDER].reverse()) {
+    const ids = changes.deletes[table] || [];
+    for (let i = 0; i < ids.length; i += WRITE_BATCH_SIZE) {
+      const batch = ids.slice(i, i + WRITE_BATCH_SIZE);
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq('user_id', userId)
+        .in('id', batch);
+      if (error) throw error;
+      batch.forEach(id => delete base[table]?.[id]);
+    }
+  }
+
+  if (changes.userState) {
+    const { error } = await supabase
+      .from('user_state')
+      .upsert({ ...changes.userState, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+    if (error) throw error;
+  }
+
+  return stale;
+}
+
+/**
+ * Current server version of the given rows, normalized for merging
+ */
+async function loadRowsById(userId: string, table: TableName, ids: string[]): Promise<Map<string, Row>> {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq('user_id', userId)
+    .in('id', ids);
+  if (error) throw error;
+  return new Map((data as Row[]).map(row => [row.id, normalizeRow(table, row)]));
+}
+
+/**
+ * Write row changes, merging any that were based on an outdated server row.
+ * Edits to different fields are combined and written again; edits to the
+ * same field on both sides come back as conflicts.
+ */
+export async function applyRowChanges(userId: string, changes: RowChanges): Promise<ApplyRowChangesResult> {
+  const base = loadSyncBase(userId);
+  const merged: TableRow[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  try {
+    let pending = changes;
+    for (let round = 0; round < MAX_MERGE_ROUNDS; round++) {
+      const stale = await writeRowChanges(userId, pending, base);
+      if (stale.length === 0) return { success: true, merged, conflicts };
+
+      pending = { upserts: {}, deletes: {} };
+      for (const table of TABLES_IN_WRITE_ORDER) {
+        const local = stale.filter(change => change.table === table).map(change => change.row);
+        if (local.length === 0) continue;
+
+        const remote = await loadRowsById(userId, table, local.map(row => row.id));
+        local.forEach(row => {
+          const remoteRow = remote.get(row.id);
+          // Deleted since the write was skipped; the delete wins
+          if (!remoteRow) return;
+
+          const result = mergeRow(base[table]?.[row.id], row, remoteRow);
+          base[table] = { ...base[table], [row.id]: remoteRow };
+          if (result.conflicts.length > 0) {
+            conflicts.push(createConflict(table, row, remoteRow, result.merged, result.conflicts));
+            return;
+          }
+          merged.push({ table, row: result.merged });
+          pending.upserts[table] = [...(pending.upserts[table] || []), result.merged];
+        });
+      }
+      if (!hasRowChanges(pending)) return { success: true, merged, conflicts };
+    }
+
+    // Still racing another device; the next flush merges again
+    return { success: false, merged, conflicts, error: 'Another device kept changing the same items' };
+  } catch (error) {
+    console.error('Error saving data to Supabase:', error);
+    return { success: false, merged, conflicts, error: error?.message || 'Could not reach Supabase' };
+  } finally {
+    saveSyncBase(userId, base);
+  }
+}
+
+/**
+ * Remember the loaded rows as the server versions local edits are based on.
+ * Rows with queued local edits keep their old base so those edits are still
+ * merged against what they were made from.
+ */
+function refreshSyncBase(userId: string, rows: LoadedRows) {
+  const queued = mergeRowChanges(loadOutbox(userId).map(entry => entry.changes));
+  const previous = loadSyncBase(userId);
+  const base: SyncBase = {};
+
+  TABLES_IN_WRITE_ORDER.forEach(table => {
+    const queuedIds = new Set((queued.upserts[table] || []).map(row => row.id));
+    base[table] = Object.fromEntries(
+      rows[table].map(row => [
+        row.id,
+        queuedIds.has(row.id) && previous[table]?.[row.id] ? previous[table][row.id] : normalizeRow(table, row),
+      ])
+    );
+  });
+
+  saveSyncBase(userId, base);
+}
+
+/**
+ * Decide which rows changed elsewhere (realtime events) can go into the local
+ * data. Rows with queued local edits are left to the outbox, which merges
+ * them on its next write; rows older than the known server version are
+ * late echoes. Accepted rows become the new sync base.
+ */
+export function acceptRemoteChanges(userId: string, changes: RowChanges): RowChanges {
+  const base = loadSyncBase(userId);
+  const queued = mergeRowChanges(loadOutbox(userId).map(entry => entry.changes));
+  const accepted = omitRowChanges(changes, queued);
+
+  TABLES_IN_WRITE_ORDER.forEach(table => {
+    const upserts = (accepted.upserts[table] || [])
+      .map(row => normalizeRow(table, row))
+      .filter(row => (row.revision ?? 0) >= (base[table]?.[row.id]?.revision ?? 0));
+    const deletes = accepted.deletes[table] || [];
+
+    upserts.forEach(row => {
+      base[table] = { ...base[table], [row.id]: row };
+    });
+    deletes.forEach(id => delete base[table]?.[id]);
+    if (upserts.length > 0) {
+      accepted.upserts[table] = upserts;
+    } else {
+      delete accepted.upserts[table];
+    }
+  });
+
+  saveSyncBase(userId, base);
+  return accepted;
+}
 
 /**
  * Load all app data from Supabase for the current user
@@ -21,37 +289,52 @@ export async function loadData(userId: string): Promise<AppData | null> {
       throw new Error('Supabase not configured');
     }
 
-    const { data, error } = await supabase
-      .from('user_data')
+    const { data: storedState, error } = await supabase
+      .from('user_state')
       .select('*')
       .eq('user_id', userId)
-      .single();
+      .maybeSingle();
+    let state = storedState as UserStateRow | null;
 
     if (error) {
-      // Handle different error cases
-      if (error.code === 'PGRST116') {
-        // No data found, return null to initialize
-        console.log('📭 No existing data found, will initialize new data');
-        return null;
-      }
-      
-      // 406 Not Acceptable - might be RLS issue or no data, treat as no data
-      if (error.code === 'PGRST301' || error.message?.includes('406') || error.message?.includes('Not Acceptable')) {
-        console.log('📭 406 error (likely no data or RLS), will initialize new data');
-        return null;
-      }
-      
       console.error('❌ Error loading data from Supabase:', error);
       // Don't throw - return null so app can initialize
       return null;
     }
 
-    if (!data || !data.data) {
-      return null;
+    if (!state) {
+      const legacy = await loadLegacyData(userId);
+      if (!legacy) {
+        console.log('📭 No existing data found, will initialize new data');
+        return null;
+      }
+      if (!(await migrateLegacyData(userId, legacy))) {
+        // Starting over with defaults would hide the user's data; the blob is
+        // untouched and the migration is retried on next load
+        throw new LegacyMigrationError();
+      }
+      const { data: migratedState } = await supabase
+        .from('user_state')
+        .select('*')
+        .eq('user_id', userId)
+        .single();
+      state = migratedState as UserStateRow;
     }
 
-    return data.data as AppData;
+    const tables = await Promise.all(TABLES_IN_WRITE_ORDER.map(table => loadTableRows(table, userId)));
+    const rows = Object.fromEntries(TABLES_IN_WRITE_ORDER.map((table, i) => [table, tables[i]])) as LoadedRows;
+    refreshSyncBase(userId, rows);
+
+    const loaded = rowsToAppData(rows, state, INITIAL_VERSION);
+    const migrated = migrateAppData(loaded);
+    // Store the upgrade so it only runs once; if that fails it runs again next load
+    if (migrated !== loaded && !(await saveDataChanges(userId, loaded, migrated))) {
+      console.error('❌ Failed to save migrated data to Supabase');
+    }
+    return migrated;
   } catch (error: any) {
+    // Starting over with defaults would overwrite the user's data
+    if (error instanceof LegacyMigrationError || error instanceof UnsupportedVersionError) throw error;
     console.error('❌ Error loading data from Supabase:', error);
     // Don't throw - return null so app can initialize with default data
     return null;
@@ -59,31 +342,20 @@ export async function loadData(userId: string): Promise<AppData | null> {
 }
 
 /**
- * Save all app data to Supabase
+ * Save all app data to Supabase, replacing whatever is stored
  */
 export async function saveData(userId: string, data: AppData): Promise<boolean> {
-  try {
-    const { error } = await supabase
-      .from('user_data')
-      .upsert({
-        user_id: userId,
-        data: data,
-        version: APP_VERSION,
-        updated_at: new Date().toISOString(),
-      }, {
-        onConflict: 'user_id',
-      });
-
-    if (error) {
-      console.error('Error saving data to Supabase:', error);
-      return false;
-    }
+  const stored = await loadData(userId);
+  return await saveDataChanges(userId, stored, data);
+}
 
-    return true;
-  } catch (error) {
-    console.error('Error saving data to Supabase:', error);
-    return false;
-  }
+/**
+ * Save only the rows that differ between two versions of the app data
+ */
+export async function saveDataChanges(userId: string, previous: AppData | null, next: AppData): Promise<boolean> {
+  const changes = diffAppData(userId, previous, next);
+  if (!hasRowChanges(changes)) return true;
+  return (await applyRowChanges(userId, changes)).success;
 }
 
 /**
@@ -92,16 +364,16 @@ export async function saveData(userId: string, data: AppData): Promise<boolean>
 export async function getCurrentProfileId(userId: string): Promise<string | null> {
   try {
     const { data, error } = await supabase
-      .from('user_data')
-      .select('data')
+      .from('user_state')
+      .select('current_profile_id')
       .eq('user_id', userId)
       .single();
 
-    if (error || !data?.data) {
+    if (error || !data) {
       return null;
     }
 
-    return (data.data as AppData).currentProfileId || null;
+    return data.current_profile_id || null;
   } catch (error) {
     console.error('Error getting current profile ID:', error);
     return null;
@@ -113,13 +385,17 @@ export async function getCurrentProfileId(userId: string): Promise<string | null
  */
 export async function setCurrentProfileId(userId: string, profileId: string): Promise<boolean> {
   try {
-    const currentData = await loadData(userId);
-    if (!currentData) {
+    const { error } = await supabase
+      .from('user_state')
+      .update({ current_profile_id: profileId, updated_at: new Date().toISOString() })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error setting current profile ID:', error);
       return false;
     }
 
-    currentData.currentProfileId = profileId;
-    return await saveData(userId, currentData);
+    return true;
   } catch (error) {
     console.error('Error setting current profile ID:', error);
     return false;
@@ -170,47 +446,85 @@ export async function exportData(userId: string): Promise<string> {
 }
 
 /**
- * Import data from JSON string
+ * Import data from JSON string, replacing everything, or with `merge` adding
+ * the selected parts to the existing data. Data with problems is only
+ * imported with `repair`, and only if every problem can be fixed; see
+ * checkImport for a dry run.
  */
-export async function importData(userId: string, jsonString: string): Promise<{ success: boolean; error?: string }> {
-  try {
-    const data = JSON.parse(jsonString) as AppData;
+export async function importData(
+  userId: string,
+  jsonString: string,
+  options: { repair?: boolean; merge?: MergeOptions } = {}
+): Promise<{ success: boolean; error?: string; added?: ImportSummary }> {
+  const report = checkImport(jsonString);
+  if (!report.data) {
+    const [first] = report.issues.filter(issue => !issue.fixable);
+    return { success: false, error: first ? [first.path, first.message].filter(Boolean).join(': ') : 'Invalid data' };
+  }
+  if (report.issues.length > 0 && !options.repair) {
+    return { success: false, error: `${report.issues.length} ${report.issues.length === 1 ? 'problem needs' : 'problems need'} to be repaired first` };
+  }
 
-    // Basic validation
-    if (!data.profiles || !Array.isArray(data.profiles)) {
-      return { success: false, error: 'Invalid data format: missing profiles array' };
+  if (options.merge) {
+    const current = await loadData(userId);
+    if (!current) {
+      return { success: false, error: 'Failed to load your data to merge into' };
     }
-
-    if (!data.currentProfileId) {
-      data.currentProfileId = data.profiles[0]?.id || '';
+    const merged = mergeAppData(current, report.data, options.merge);
+    if (!merged) {
+      return { success: false, error: 'The profile to merge into no longer exists' };
     }
-
-    const success = await saveData(userId, data);
+    // Only new rows are written, so local changes not yet synced are kept
+    const success = await saveDataChanges(userId, current, merged.data);
     if (!success) {
       return { success: false, error: 'Failed to save imported data' };
     }
+    return { success: true, added: merged.added };
+  }
 
-    return { success: true };
-  } catch (error) {
-    return { success: false, error: 'Invalid JSON format' };
+  // The data being replaced is kept as a snapshot; without one, nothing is replaced
+  const stored = await loadData(userId);
+  if (stored && !(await createSnapshot(userId, stored, 'import'))) {
+    return { success: false, error: 'Failed to save a snapshot of your current data' };
   }
+
+  const success = await saveDataChanges(userId, stored, report.data);
+  if (!success) {
+    return { success: false, error: 'Failed to save imported data' };
+  }
+
+  // The imported data replaces everything, including unsynced local changes
+  clearReplica(userId);
+
+  return { success: true };
 }
 
 /**
- * Clear all data and reinitialize with defaults
+ * Clear all data and reinitialize with defaults. The data is kept as a
+ * snapshot first; if that fails, nothing is cleared and this throws. Pass
+ * the local data as `current` so changes not yet synced are in the snapshot.
  */
-export async function resetData(userId: string): Promise<AppData> {
-  try {
-    const { error } = await supabase
-      .from('user_data')
-      .delete()
-      .eq('user_id', userId);
+export async function resetData(userId: string, current?: AppData | null): Promise<AppData> {
+  const stored = current ?? await loadData(userId);
+  if (stored && !(await createSnapshot(userId, stored, 'reset'))) {
+    throw new Error('Failed to save a snapshot of your data, so nothing was reset');
+  }
 
-    if (error) {
+  clearSyncBase(userId);
+  // Profiles cascade to their entities; the legacy blob goes too so it isn't migrated again
+  for (const table of ['profiles', 'user_state', 'user_data']) {
+    try {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error clearing user data:', error);
+      }
+    } catch (error) {
       console.error('Error clearing user data:', error);
     }
-  } catch (error) {
-    console.error('Error clearing user data:', error);
   }
 
   return await initializeData(userId);
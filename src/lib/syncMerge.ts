@@ -0,0 +1,140 @@
+/**
+ * Three-way merge of rows edited on two devices
+ * Fields changed on only one side are combined automatically; fields changed
+ * differently on both sides are true conflicts for the user to resolve.
+ */
+
+import { Row, TableName, getRowLabel } from './supabaseRows';
+
+export type ConflictSide = 'local' | 'remote';
+
+export interface SyncConflict {
+  table: TableName;
+  rowId: string;
+  label: string;
+  local: Row;
+  remote: Row;
+  // Automatic merge, with conflicting fields taken from the newer side
+  merged: Row;
+  fields: string[];
+}
+
+type RowValues = Record<string, unknown>;
+
+// Identity columns and the revision are never merged
+const IGNORED_FIELDS = new Set(['user_id', 'profile_id', 'id', 'revision']);
+
+// Bookkeeping and derived fields take the newer side instead of asking
+const AUTOMATIC_FIELDS = new Set(['updated_at', 'position', 'time_spent_minutes', 'completed_at']);
+
+// Derived fields follow the side chosen for the field they depend on
+const DEPENDENT_FIELDS: Record<string, string> = {
+  time_spent_minutes: 'time_entries',
+  completed_at: 'status',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  is_today: 'Today',
+  is_focus: 'Focus',
+  area_id: 'Area',
+  project_id: 'Project',
+  parent_task_id: 'Parent task',
+  blocked_by: 'Blocked by',
+  estimate_minutes: 'Estimate (minutes)',
+  time_entries: 'Time entries',
+  sort_order: 'Order',
+  done: 'Done',
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const values = (row: Row | undefined) => row as unknown as RowValues | undefined;
+
+/**
+ * Which side was edited last, by the entity's `updatedAt`. Rows without one
+ * (profiles, areas, tags...) favor this device.
+ */
+export function getNewerSide(local: Row, remote: Row): ConflictSide {
+  const localUpdated = values(local).updated_at as string | undefined;
+  const remoteUpdated = values(remote).updated_at as string | undefined;
+  if (!localUpdated || !remoteUpdated) return 'local';
+  return new Date(remoteUpdated) > new Date(localUpdated) ? 'remote' : 'local';
+}
+
+/**
+ * Merge a local edit into the current server row, using the version both
+ * started from. Without a base every differing field counts as a conflict.
+ */
+export function mergeRow(base: Row | undefined, local: Row, remote: Row): { merged: Row; conflicts: string[] } {
+  const b = values(base);
+  const l = values(local);
+  const r = values(remote);
+  const newer = getNewerSide(local, remote) === 'local' ? l : r;
+  const merged: RowValues = { ...r };
+  const conflicts: string[] = [];
+
+  new Set([...Object.keys(l), ...Object.keys(r)]).forEach(field => {
+    if (IGNORED_FIELDS.has(field) || sameValue(l[field], r[field])) return;
+
+    if (b && sameValue(r[field], b[field])) {
+      merged[field] = l[field];
+    } else if (b && sameValue(l[field], b[field])) {
+      merged[field] = r[field];
+    } else {
+      merged[field] = newer[field];
+      if (!AUTOMATIC_FIELDS.has(field)) conflicts.push(field);
+    }
+  });
+
+  // The merged row is newer than both sides
+  if (l.updated_at && r.updated_at) {
+    merged.updated_at = new Date(l.updated_at as string) > new Date(r.updated_at as string) ? l.updated_at : r.updated_at;
+  }
+
+  return { merged: merged as unknown as Row, conflicts };
+}
+
+/**
+ * Describe a row that could not be merged automatically
+ */
+export function createConflict(table: TableName, local: Row, remote: Row, merged: Row, fields: string[]): SyncConflict {
+  return {
+    table,
+    rowId: local.id,
+    label: getRowLabel(table, remote),
+    local,
+    remote,
+    merged,
+    fields,
+  };
+}
+
+/**
+ * The row to write once the user has picked a side for each conflicting field
+ */
+export function resolveConflict(conflict: SyncConflict, choices: Record<string, ConflictSide>): Row {
+  const resolved: RowValues = { ...values(conflict.merged) };
+  const pick = (field: string, side: ConflictSide) => {
+    resolved[field] = values(side === 'local' ? conflict.local : conflict.remote)[field];
+  };
+
+  conflict.fields.forEach(field => {
+    const side = choices[field];
+    if (!side) return;
+    pick(field, side);
+    Object.entries(DEPENDENT_FIELDS)
+      .filter(([, leader]) => leader === field)
+      .forEach(([dependent]) => pick(dependent, side));
+  });
+
+  return resolved as unknown as Row;
+}
+
+/**
+ * Human-readable name of a column
+ */
+export function getFieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const words = field.split('_').join(' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,58 @@
+/**
+ * Time tracking helpers
+ * Computes durations from task time entries and finds the running timer
+ */
+
+import { Task, TimeEntry } from './types';
+
+/**
+ * Duration of an entry in milliseconds; running entries are measured up to `now`
+ */
+export function getEntryDurationMs(entry: TimeEntry, now: Date = new Date()): number {
+  const start = new Date(entry.start).getTime();
+  const end = entry.end ? new Date(entry.end).getTime() : now.getTime();
+  return Math.max(0, end - start);
+}
+
+/**
+ * Total tracked minutes across completed entries, rounded to the nearest minute
+ */
+export function sumTimeEntries(entries: TimeEntry[] = []): number {
+  const totalMs = entries
+    .filter(entry => entry.end)
+    .reduce((sum, entry) => sum + getEntryDurationMs(entry), 0);
+  return Math.round(totalMs / 60000);
+}
+
+/**
+ * Find the single running timer across all tasks, if any
+ */
+export function findRunningTimer(tasks: Task[]): { task: Task; entry: TimeEntry } | null {
+  for (const task of tasks) {
+    const entry = task.timeEntries?.find(e => !e.end);
+    if (entry) return { task, entry };
+  }
+  return null;
+}
+
+/**
+ * Format a duration as H:MM:SS (or M:SS under an hour)
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+/**
+ * Format a minute count as e.g. "1h 25m" or "40m"
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
@@ -0,0 +1,243 @@
+/**
+ * Trash for the Life PM application
+ * Deleting an item only marks it with `deletedAt`, so it can be restored.
+ * Items that go with it (a project's tasks, a task's subtasks) are marked too
+ * and point back at it through `deletedWith`. Trashed items are purged for
+ * good when the trash is emptied or once the retention period has passed.
+ */
+
+import { subDays } from 'date-fns';
+import { AppData, Profile, Trashable } from './types';
+import { getDescendantIds } from './subtasks';
+import { syncBlockedStatuses } from './dependencies';
+
+export type TrashCollection = 'areas' | 'projects' | 'tasks' | 'ideas' | 'tags';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export interface TrashItem {
+  collection: TrashCollection;
+  id: string;
+  title: string;
+  deletedAt: string;
+  // Items trashed along with this one
+  cascadedCount: number;
+}
+
+type TrashableItem = Trashable & { id: string; title?: string; name?: string };
+
+const COLLECTIONS: TrashCollection[] = ['areas', 'projects', 'tasks', 'ideas', 'tags'];
+
+const itemsOf = (profile: Profile, collection: TrashCollection) =>
+  profile[collection] as TrashableItem[];
+
+const trashedIdsOf = (profile: Profile) =>
+  new Set(COLLECTIONS.flatMap(c => itemsOf(profile, c).filter(i => i.deletedAt).map(i => i.id)));
+
+/**
+ * Apply the same update to the items of every collection
+ */
+function mapCollections(profile: Profile, update: <T extends TrashableItem>(item: T) => T): Profile {
+  return {
+    ...profile,
+    areas: profile.areas.map(update),
+    projects: profile.projects.map(update),
+    tasks: profile.tasks.map(update),
+    ideas: profile.ideas.map(update),
+    tags: profile.tags.map(update),
+  };
+}
+
+/**
+ * The profile as the views see it, without trashed items. Returns the same
+ * profile if nothing is in the trash.
+ */
+export function withoutTrashed(profile: Profile): Profile {
+  if (!COLLECTIONS.some(c => itemsOf(profile, c).some(i => i.deletedAt))) return profile;
+  return {
+    ...profile,
+    areas: profile.areas.filter(a => !a.deletedAt),
+    projects: profile.projects.filter(p => !p.deletedAt),
+    tasks: profile.tasks.filter(t => !t.deletedAt),
+    ideas: profile.ideas.filter(i => !i.deletedAt),
+    tags: profile.tags.filter(t => !t.deletedAt),
+  };
+}
+
+/**
+ * Items deleted directly, newest first. Items trashed along with another one
+ * are counted on it rather than listed.
+ */
+export function getTrashItems(profile: Profile): TrashItem[] {
+  const trashedIds = trashedIdsOf(profile);
+  const cascadedCounts = new Map<string, number>();
+  COLLECTIONS.forEach(c => itemsOf(profile, c).forEach(item => {
+    if (item.deletedAt && item.deletedWith && trashedIds.has(item.deletedWith)) {
+      cascadedCounts.set(item.deletedWith, (cascadedCounts.get(item.deletedWith) || 0) + 1);
+    }
+  }));
+
+  return COLLECTIONS
+    .flatMap(collection => itemsOf(profile, collection)
+      .filter(item => item.deletedAt && !(item.deletedWith && trashedIds.has(item.deletedWith)))
+      .map(item => ({
+        collection,
+        id: item.id,
+        title: item.title ?? item.name ?? '',
+        deletedAt: item.deletedAt!,
+        cascadedCount: cascadedCounts.get(item.id) || 0,
+      }))
+    )
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * Move an item to the trash together with everything that can't be shown
+ * without it: a task's subtasks, a project's tasks, an area's projects with
+ * their tasks and the tasks and ideas filed directly on the area. Returns
+ * null if the item doesn't exist or is already trashed.
+ */
+export function moveToTrash(profile: Profile, collection: TrashCollection, id: string): Profile | null {
+  const item = itemsOf(profile, collection).find(i => i.id === id);
+  if (!item || item.deletedAt) return null;
+
+  const projectIds = new Set(
+    collection === 'areas' ? profile.projects.filter(p => p.areaId === id).map(p => p.id)
+      : collection === 'projects' ? [id]
+      : []
+  );
+  const areaTaskIds = collection === 'areas'
+    ? profile.tasks.filter(t => !t.projectId && t.areaId === id).map(t => t.id)
+    : [];
+  const cascaded = new Set([
+    ...projectIds,
+    ...(collection === 'tasks'
+      ? getDescendantIds(id, profile.tasks)
+      : profile.tasks.filter(t => t.projectId && projectIds.has(t.projectId)).map(t => t.id)),
+    ...areaTaskIds.flatMap(taskId => [taskId, ...getDescendantIds(taskId, profile.tasks)]),
+    ...(collection === 'areas' ? profile.ideas.filter(i => i.areaId === id).map(i => i.id) : []),
+  ]);
+  cascaded.delete(id);
+
+  const deletedAt = new Date().toISOString();
+  return mapCollections(profile, i => {
+    if (i.id === id) return { ...i, deletedAt };
+    // Items trashed earlier keep their own entry
+    if (cascaded.has(i.id) && !i.deletedAt) return { ...i, deletedAt, deletedWith: id };
+    return i;
+  });
+}
+
+/**
+ * Take an item and everything trashed with it out of the trash. Restored
+ * items whose project, parent task or area is still in the trash are
+ * detached from it.
+ */
+export function restoreFromTrash(profile: Profile, id: string): Profile {
+  const restoredIds = new Set<string>();
+  const restored = mapCollections(profile, i => {
+    if (!i.deletedAt || (i.id !== id && i.deletedWith !== id)) return i;
+    restoredIds.add(i.id);
+    return { ...i, deletedAt: undefined, deletedWith: undefined };
+  });
+  if (restoredIds.size === 0) return profile;
+
+  const trashedIds = trashedIdsOf(restored);
+  return {
+    ...restored,
+    projects: restored.projects.map(p =>
+      restoredIds.has(p.id) && trashedIds.has(p.areaId) ? { ...p, areaId: '' } : p
+    ),
+    tasks: restored.tasks.map(t => {
+      if (!restoredIds.has(t.id)) return t;
+      const detachProject = t.projectId && trashedIds.has(t.projectId);
+      const detachParent = t.parentTaskId && trashedIds.has(t.parentTaskId);
+      if (!detachProject && !detachParent) return t;
+      return {
+        ...t,
+        projectId: detachProject ? undefined : t.projectId,
+        parentTaskId: detachParent ? undefined : t.parentTaskId,
+      };
+    }),
+  };
+}
+
+/**
+ * Permanently remove trashed items, with everything trashed along with them,
+ * and drop the links other items still have to them
+ */
+export function purgeFromTrash(profile: Profile, ids: string[]): Profile {
+  const idSet = new Set(ids);
+  const removed = new Set(COLLECTIONS.flatMap(c => itemsOf(profile, c)
+    .filter(i => i.deletedAt && (idSet.has(i.id) || (i.deletedWith && idSet.has(i.deletedWith))))
+    .map(i => i.id)
+  ));
+  if (removed.size === 0) return profile;
+
+  const keep = (item: { id: string }) => !removed.has(item.id);
+  const unlink = (id: string | undefined) => (id && removed.has(id) ? undefined : id);
+  const withoutRemovedTags = <T extends { tags: string[] }>(item: T): T =>
+    item.tags.some(t => removed.has(t)) ? { ...item, tags: item.tags.filter(t => !removed.has(t)) } : item;
+
+  return {
+    ...profile,
+    areas: profile.areas.filter(keep),
+    tags: profile.tags.filter(keep),
+    projects: profile.projects.filter(keep).map(p => {
+      const project = withoutRemovedTags(p);
+      return removed.has(project.areaId) ? { ...project, areaId: '' } : project;
+    }),
+    // Dangling blockedBy links are dropped by syncBlockedStatuses
+    tasks: syncBlockedStatuses(profile.tasks.filter(keep).map(t => {
+      const task = withoutRemovedTags(t);
+      const links = {
+        projectId: unlink(task.projectId),
+        parentTaskId: unlink(task.parentTaskId),
+        areaId: unlink(task.areaId),
+      };
+      return links.projectId === task.projectId && links.parentTaskId === task.parentTaskId && links.areaId === task.areaId
+        ? task
+        : { ...task, ...links };
+    })),
+    ideas: profile.ideas.filter(keep).map(i => {
+      const idea = withoutRemovedTags(i);
+      return idea.areaId && removed.has(idea.areaId) ? { ...idea, areaId: undefined } : idea;
+    }),
+  };
+}
+
+/**
+ * Permanently remove everything in the trash
+ */
+export function purgeAllTrash(profile: Profile): Profile {
+  return purgeFromTrash(profile, [...trashedIdsOf(profile)]);
+}
+
+/**
+ * Days a trashed item is kept before it is purged; 0 keeps items until the
+ * trash is emptied
+ */
+export function getTrashRetentionDays(profile: Profile): number {
+  return profile.settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Purge items that have been in the trash longer than their profile's
+ * retention period. Returns the same data if nothing expired.
+ */
+export function purgeExpiredTrash(data: AppData, now: Date = new Date()): AppData {
+  let changed = false;
+  const profiles = data.profiles.map(profile => {
+    const days = getTrashRetentionDays(profile);
+    if (days <= 0) return profile;
+    const cutoff = subDays(now, days);
+    const expired = COLLECTIONS.flatMap(c => itemsOf(profile, c)
+      .filter(i => i.deletedAt && new Date(i.deletedAt) < cutoff)
+      .map(i => i.id)
+    );
+    const purged = purgeFromTrash(profile, expired);
+    if (purged !== profile) changed = true;
+    return purged;
+  });
+  return changed ? { ...data, profiles } : data;
+}
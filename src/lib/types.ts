@@ -7,6 +7,21 @@ export type Priority = 'low' | 'medium' | 'high' | 'critical';
 export type ProjectStatus = 'backlog' | 'active' | 'on-hold' | 'completed' | 'cancelled';
 export type TaskStatus = 'backlog' | 'todo' | 'in-progress' | 'blocked' | 'done';
 export type GoalType = 'habit' | 'one-time' | 'milestone';
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'after-completion';
+
+/**
+ * RRULE-style repetition schedule for a task.
+ * `interval` is the step between occurrences in units of the frequency
+ * (days for daily/after-completion, weeks for weekly, months for monthly).
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: number[]; // Weekly: 0 = Sunday ... 6 = Saturday
+  monthDay?: number; // Monthly: day of month (clamped to the month length)
+  monthWeekday?: { weekday: number; week: number }; // Monthly: e.g. week -1 + weekday 5 = last Friday
+  until?: string; // No occurrences after this date
+}
 
 export interface ChecklistItem {
   id: string;
@@ -14,13 +29,26 @@ export interface ChecklistItem {
   done: boolean;
 }
 
-export interface Tag {
+export interface TimeEntry {
+  id: string;
+  start: string;
+  end?: string; // Missing while the timer is running
+  note?: string;
+}
+
+// Soft delete: trashed items stay in the data until purged
+export interface Trashable {
+  deletedAt?: string;
+  deletedWith?: string; // ID of the item whose deletion trashed this one too
+}
+
+export interface Tag extends Trashable {
   id: string;
   name: string;
   color?: string;
 }
 
-export interface Area {
+export interface Area extends Trashable {
   id: string;
   name: string;
   description?: string;
@@ -28,7 +56,7 @@ export interface Area {
   icon?: string;
 }
 
-export interface Idea {
+export interface Idea extends Trashable {
   id: string;
   title: string;
   notes?: string;
@@ -38,7 +66,7 @@ export interface Idea {
   archived?: boolean;
 }
 
-export interface Task {
+export interface Task extends Trashable {
   id: string;
   projectId?: string;
   parentTaskId?: string;
@@ -49,7 +77,8 @@ export interface Task {
   tags: string[];
   areaId?: string;
   estimateMinutes?: number;
-  timeSpentMinutes?: number;
+  timeSpentMinutes?: number; // Rolled up from timeEntries
+  timeEntries?: TimeEntry[];
   dueDate?: string;
   isToday?: boolean;
   createdAt: string;
@@ -57,9 +86,12 @@ export interface Task {
   completedAt?: string;
   checklistItems: ChecklistItem[];
   order?: number; // Order within the status column (lower = higher in list)
+  recurrence?: RecurrenceRule;
+  blockedBy?: string[]; // IDs of tasks (in any project) that must be done first
+  nextOccurrenceId?: string; // Task spawned when this occurrence was completed
 }
 
-export interface Project {
+export interface Project extends Trashable {
   id: string;
   title: string;
   description?: string;
@@ -76,11 +108,25 @@ export interface Project {
   isFocus?: boolean;
 }
 
+export interface FocusSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakEvery: number; // Work intervals before a long break
+}
+
+// Keyboard shortcut overrides by action id, e.g. { 'go-today': 'g t' }
+export type ShortcutBindings = Record<string, string>;
+
 export interface ProfileSettings {
   theme: 'dark' | 'light';
   defaultView: 'today' | 'board' | 'projects' | 'ideas';
   defaultTaskGrouping: 'project' | 'area' | 'dueDate';
   hideCompletedTasks: boolean;
+  focus?: FocusSettings;
+  shortcuts?: ShortcutBindings;
+  trashRetentionDays?: number; // Trashed items older than this are purged; 0 keeps them
+  markdownBase?: Record<string, string>; // updatedAt of records as a Markdown import last wrote them
 }
 
 export interface Profile {
@@ -113,4 +159,5 @@ export type ViewType =
   | 'settings'
   | 'project-detail'
   | 'area-detail'
-  | 'backlog';
+  | 'backlog'
+  | 'trash';
@@ -0,0 +1,277 @@
+/**
+ * iCalendar (RFC 5545) output for the Life PM application
+ * Tasks with a due date become to-dos (or all-day events, for calendar apps
+ * that ignore to-dos) and projects with dates become all-day events. Shared
+ * by the app's download and the calendar-feed edge function, so it has no
+ * imports: its input types are the subset of the app model it reads.
+ */
+
+export interface CalendarTask {
+  id: string;
+  title: string;
+  description?: string;
+  status: string;
+  priority: string;
+  tags: string[];
+  projectId?: string;
+  areaId?: string;
+  dueDate?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+}
+
+export interface CalendarProject {
+  id: string;
+  title: string;
+  description?: string;
+  status: string;
+  tags: string[];
+  areaId: string;
+  startDate?: string;
+  dueDate?: string;
+  createdAt: string;
+  updatedAt: string;
+  archived?: boolean;
+  deletedAt?: string;
+}
+
+// A profile satisfies this
+export interface CalendarInput {
+  name: string;
+  tasks: CalendarTask[];
+  projects: CalendarProject[];
+  areas: { id: string; name: string }[];
+  tags: { id: string; name: string }[];
+}
+
+export interface CalendarFilter {
+  // Each list narrows the output when set; items match any entry in it
+  areaIds?: string[];
+  projectIds?: string[];
+  tagIds?: string[];
+  includeCompleted?: boolean;
+  // Google Calendar and others only show events, not to-dos
+  tasksAsEvents?: boolean;
+  // IANA zone the dates are shown in; due dates are stored as local midnight
+  timeZone?: string;
+}
+
+const PRODUCT_ID = '-//Life PM//Calendar//EN';
+const UID_DOMAIN = 'life-pm';
+
+const TODO_STATUS: Record<string, string> = {
+  backlog: 'NEEDS-ACTION',
+  todo: 'NEEDS-ACTION',
+  'in-progress': 'IN-PROCESS',
+  blocked: 'NEEDS-ACTION',
+  done: 'COMPLETED',
+};
+
+// 1 is highest; 0 would mean undefined
+const PRIORITY: Record<string, number> = { critical: 1, high: 3, medium: 5, low: 9 };
+
+/**
+ * Escape a TEXT value
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to at most 75 octets per line, without splitting
+ * a character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// UTC date-time, e.g. 20260305T093000Z
+const formatDateTime = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * The calendar date of an instant in a time zone, e.g. 20260305
+ */
+function formatDate(iso: string, timeZone: string | undefined): string {
+  const parts = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .formatToParts(new Date(iso));
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}${part('month')}${part('day')}`;
+}
+
+// All-day events end on the (exclusive) next day
+const nextDay = (date: string) => {
+  const day = new Date(Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8)) + 1));
+  return day.toISOString().slice(0, 10).replace(/-/g, '');
+};
+
+const matchesAny = (filter: string[] | undefined, values: (string | undefined)[]) =>
+  !filter || filter.length === 0 || values.some(value => value && filter.includes(value));
+
+/**
+ * The iCalendar document for a profile's dated tasks and projects
+ */
+export function buildCalendar(input: CalendarInput, filter: CalendarFilter = {}, now: Date = new Date()): string {
+  const { timeZone } = filter;
+  const projectsById = new Map(input.projects.map(p => [p.id, p]));
+  const nameOf = (items: { id: string; name: string }[], id: string | undefined) =>
+    id ? items.find(item => item.id === id)?.name : undefined;
+  const categories = (areaId: string | undefined, tagIds: string[]) =>
+    [nameOf(input.areas, areaId), ...tagIds.map(id => nameOf(input.tags, id))].filter(Boolean) as string[];
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`Life PM – ${input.name}`)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+  if (timeZone) lines.push(`X-WR-TIMEZONE:${timeZone}`);
+
+  const common = (kind: string, item: { id: string; title: string; createdAt: string; updatedAt: string }) => [
+    `UID:${kind}-${item.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(now.toISOString())}`,
+    `CREATED:${formatDateTime(item.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(item.updatedAt)}`,
+    `SUMMARY:${escapeText(item.title)}`,
+  ];
+  const optional = (name: string, values: string[]) =>
+    values.length > 0 ? [`${name}:${values.map(escapeText).join(',')}`] : [];
+
+  input.tasks
+    .filter(task => {
+      if (!task.dueDate || task.deletedAt) return false;
+      if (task.status === 'done' && !filter.includeCompleted) return false;
+      const project = task.projectId ? projectsById.get(task.projectId) : undefined;
+      if (project?.deletedAt || project?.archived) return false;
+      return (
+        matchesAny(filter.areaIds, [task.areaId || project?.areaId]) &&
+        matchesAny(filter.projectIds, [task.projectId]) &&
+        matchesAny(filter.tagIds, task.tags)
+      );
+    })
+    .forEach(task => {
+      const project = task.projectId ? projectsById.get(task.projectId) : undefined;
+      const due = formatDate(task.dueDate, timeZone);
+      const description = [task.description, project && `Project: ${project.title}`].filter(Boolean).join('\n');
+      const body = [
+        ...common('task', task),
+        ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+        ...optional('CATEGORIES', categories(task.areaId || project?.areaId, task.tags)),
+      ];
+
+      if (filter.tasksAsEvents) {
+        lines.push(
+          'BEGIN:VEVENT',
+          ...body,
+          `DTSTART;VALUE=DATE:${due}`,
+          `DTEND;VALUE=DATE:${nextDay(due)}`,
+          'TRANSP:TRANSPARENT',
+          'END:VEVENT'
+        );
+        return;
+      }
+      lines.push(
+        'BEGIN:VTODO',
+        ...body,
+        `DUE;VALUE=DATE:${due}`,
+        `STATUS:${TODO_STATUS[task.status] || 'NEEDS-ACTION'}`,
+        ...(PRIORITY[task.priority] ? [`PRIORITY:${PRIORITY[task.priority]}`] : []),
+        ...(task.status === 'done' && task.completedAt ? [`COMPLETED:${formatDateTime(task.completedAt)}`] : []),
+        'END:VTODO'
+      );
+    });
+
+  input.projects
+    .filter(project => {
+      if (!(project.startDate || project.dueDate) || project.deletedAt || project.archived) return false;
+      if (project.status === 'completed' && !filter.includeCompleted) return false;
+      return (
+        matchesAny(filter.areaIds, [project.areaId]) &&
+        matchesAny(filter.projectIds, [project.id]) &&
+        matchesAny(filter.tagIds, project.tags)
+      );
+    })
+    .forEach(project => {
+      const start = formatDate(project.startDate || project.dueDate, timeZone);
+      const end = formatDate(project.dueDate || project.startDate, timeZone);
+      lines.push(
+        'BEGIN:VEVENT',
+        ...common('project', project),
+        ...(project.description ? [`DESCRIPTION:${escapeText(project.description)}`] : []),
+        ...optional('CATEGORIES', categories(project.areaId, project.tags)),
+        `DTSTART;VALUE=DATE:${start}`,
+        `DTEND;VALUE=DATE:${nextDay(end < start ? start : end)}`,
+        `STATUS:${project.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      );
+    });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Filter options as URL query parameters, for feed links
+ */
+export function calendarFilterToParams(filter: CalendarFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filter.areaIds?.length) params.set('area', filter.areaIds.join(','));
+  if (filter.projectIds?.length) params.set('project', filter.projectIds.join(','));
+  if (filter.tagIds?.length) params.set('tag', filter.tagIds.join(','));
+  if (filter.includeCompleted) params.set('completed', '1');
+  if (filter.tasksAsEvents) params.set('events', '1');
+  if (filter.timeZone) params.set('tz', filter.timeZone);
+  return params;
+}
+
+/**
+ * Read filter options from URL query parameters. An unknown time zone is
+ * dropped, so dates fall back to UTC.
+ */
+export function parseCalendarFilter(params: URLSearchParams): CalendarFilter {
+  const list = (name: string) => params.get(name)?.split(',').filter(Boolean);
+  let timeZone = params.get('tz') || undefined;
+  if (timeZone) {
+    try {
+      new Intl.DateTimeFormat('en-CA', { timeZone });
+    } catch {
+      timeZone = undefined;
+    }
+  }
+  return {
+    areaIds: list('area'),
+    projectIds: list('project'),
+    tagIds: list('tag'),
+    includeCompleted: params.get('completed') === '1',
+    tasksAsEvents: params.get('events') === '1',
+    timeZone,
+  };
+}
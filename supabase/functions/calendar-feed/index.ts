@@ -0,0 +1,134 @@
+/**
+ * Calendar feed edge function
+ * Serves a user's dated tasks and projects as iCalendar to anyone with the
+ * user's secret feed token, so calendar apps can subscribe without signing
+ * in. Deploy with JWT verification off:
+ *
+ *   supabase functions deploy calendar-feed --no-verify-jwt
+ *
+ * Query parameters: token (required), profile (defaults to the profile open
+ * in the app), and the filter options of parseCalendarFilter.
+ */
+
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { CalendarInput, buildCalendar, parseCalendarFilter } from '../_shared/ical.ts';
+
+// Supabase returns null for empty columns; the calendar model uses missing fields
+const opt = <T>(value: T | null): T | undefined => (value === null ? undefined : value);
+
+const textResponse = (status: number, message: string) =>
+  new Response(message, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+
+/**
+ * Load one profile of a user in the shape the calendar reads. Returns null
+ * if the profile doesn't exist.
+ */
+async function loadCalendarInput(client: SupabaseClient, userId: string, profileId: string): Promise<CalendarInput | null> {
+  const byProfile = (table: string, columns: string) =>
+    client.from(table).select(columns).eq('user_id', userId).eq('profile_id', profileId);
+
+  const [profile, areas, tags, projects, tasks] = await Promise.all([
+    client.from('profiles').select('name').eq('user_id', userId).eq('id', profileId).maybeSingle(),
+    byProfile('areas', 'id, name').is('deleted_at', null),
+    byProfile('tags', 'id, name').is('deleted_at', null),
+    byProfile('projects', 'id, title, description, status, tags, area_id, start_date, due_date, created_at, updated_at, archived')
+      .is('deleted_at', null),
+    byProfile('tasks', 'id, title, description, status, priority, tags, project_id, area_id, due_date, completed_at, created_at, updated_at')
+      .is('deleted_at', null)
+      .not('due_date', 'is', null),
+  ]);
+
+  const error = profile.error || areas.error || tags.error || projects.error || tasks.error;
+  if (error) throw error;
+  if (!profile.data) return null;
+
+  return {
+    name: profile.data.name,
+    areas: areas.data,
+    tags: tags.data,
+    projects: projects.data.map(row => ({
+      id: row.id,
+      title: row.title,
+      description: opt(row.description),
+      status: row.status,
+      tags: row.tags,
+      areaId: row.area_id ?? '',
+      startDate: opt(row.start_date),
+      dueDate: opt(row.due_date),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      archived: row.archived,
+    })),
+    tasks: tasks.data.map(row => ({
+      id: row.id,
+      title: row.title,
+      description: opt(row.description),
+      status: row.status,
+      priority: row.priority,
+      tags: row.tags,
+      projectId: opt(row.project_id),
+      areaId: opt(row.area_id),
+      dueDate: opt(row.due_date),
+      completedAt: opt(row.completed_at),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    })),
+  };
+}
+
+/**
+ * Answer one feed request. Takes the database client so it can be run
+ * against a local Supabase or a stand-in.
+ */
+export async function handleFeedRequest(request: Request, client: SupabaseClient): Promise<Response> {
+  if (request.method !== 'GET' && request.method !== 'HEAD') return textResponse(405, 'Method not allowed');
+
+  const params = new URL(request.url).searchParams;
+  const token = params.get('token');
+  if (!token) return textResponse(401, 'Missing feed token');
+
+  try {
+    const { data: feed, error } = await client
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+    if (error) throw error;
+    // Same answer for unknown and revoked tokens
+    if (!feed) return textResponse(404, 'Calendar feed not found');
+
+    let profileId = params.get('profile');
+    if (!profileId) {
+      const { data: state, error: stateError } = await client
+        .from('user_state')
+        .select('current_profile_id')
+        .eq('user_id', feed.user_id)
+        .maybeSingle();
+      if (stateError) throw stateError;
+      profileId = state?.current_profile_id;
+    }
+
+    const input = profileId ? await loadCalendarInput(client, feed.user_id, profileId) : null;
+    if (!input) return textResponse(404, 'Profile not found');
+
+    const body = buildCalendar(input, parseCalendarFilter(params));
+    return new Response(request.method === 'HEAD' ? null : body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="life-pm.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    return textResponse(500, 'Could not load the calendar');
+  }
+}
+
+if (import.meta.main) {
+  // The service role reads across users; the token is the only access check
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+  Deno.serve(request => handleFeedRequest(request, client));
+}